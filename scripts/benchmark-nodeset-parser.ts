@@ -0,0 +1,132 @@
+#!/usr/bin/env -S npx tsx
+// Compares the tree parser (`parseNodeSetXml` over the whole XML string) with
+// the streaming parser on one NodeSet file. Each parser runs in its own child
+// process so peak heap and peak RSS are not shared between runs.
+//
+//   pnpm bench:parser path/to/Opc.Ua.NodeSet2.xml [runs]
+import * as NodeFileSystem from "@effect/platform-node/NodeFileSystem"
+import { FileSystem } from "@effect/platform/FileSystem"
+import { Effect } from "effect"
+import { spawnSync } from "node:child_process"
+import * as v8 from "node:v8"
+import { fileURLToPath } from "node:url"
+import { parseNodeSetXml } from "../src/opcua/NodeSetParser.js"
+import {
+  collectNodeSet,
+  parseNodeSetStream,
+} from "../src/opcua/NodeSetStream.js"
+import { NodeSetCatalogEntry } from "../src/opcua/types.js"
+
+type Mode = "tree" | "stream"
+
+interface Measurement {
+  readonly mode: Mode
+  readonly nodes: number
+  readonly wallMs: number
+  readonly peakHeapMb: number
+  readonly peakRssMb: number
+}
+
+const toMb = (bytes: number) => Math.round((bytes / 1024 / 1024) * 10) / 10
+
+// Heap usage peaks right before a collection, so the peak is the largest
+// pre-GC heap reported by the GC profiler or the heap at the end of the run
+const makeHeapProbe = () => {
+  const profiler = new v8.GCProfiler()
+  profiler.start()
+  return {
+    peak: () => {
+      const stats = profiler.stop()
+      return Math.max(
+        process.memoryUsage().heapUsed,
+        ...(stats?.statistics ?? []).map(
+          (gc) => gc.beforeGC.heapStatistics.usedHeapSize,
+        ),
+      )
+    },
+  }
+}
+
+const measure = (mode: Mode, file: string) =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem
+    const entry = new NodeSetCatalogEntry({
+      slug: "benchmark",
+      name: "Benchmark",
+      nodeSetUrl: file,
+      tags: [],
+      namespaceUris: [],
+      dependencies: [],
+      defaultSelection: false,
+    })
+    const probe = makeHeapProbe()
+    const start = performance.now()
+
+    const nodeSet =
+      mode === "tree"
+        ? yield* fs
+            .readFileString(file)
+            .pipe(Effect.map((xml) => parseNodeSetXml(xml, entry)))
+        : yield* collectNodeSet(parseNodeSetStream(fs.stream(file), entry))
+    const wallMs = Math.round(performance.now() - start)
+
+    const measurement: Measurement = {
+      mode,
+      nodes: nodeSet.nodes.length,
+      wallMs,
+      peakHeapMb: toMb(probe.peak()),
+      peakRssMb: toMb(process.resourceUsage().maxRSS * 1024),
+    }
+    return measurement
+  }).pipe(Effect.provide(NodeFileSystem.layer))
+
+const runChild = (mode: Mode, file: string): Measurement => {
+  const result = spawnSync(
+    process.execPath,
+    [
+      ...process.execArgv,
+      fileURLToPath(import.meta.url),
+      "--child",
+      mode,
+      file,
+    ],
+    { encoding: "utf8" },
+  )
+  if (result.status !== 0) {
+    throw new Error(`${mode} run failed:\n${result.stderr}`)
+  }
+  return JSON.parse(result.stdout.trim().split("\n").pop()!)
+}
+
+const median = (values: ReadonlyArray<number>) =>
+  [...values].sort((a, b) => a - b)[Math.floor(values.length / 2)]
+
+const [flag, ...rest] = process.argv.slice(2)
+
+if (flag === "--child") {
+  const [mode, file] = rest as [Mode, string]
+  Effect.runPromise(measure(mode, file)).then((measurement) =>
+    console.log(JSON.stringify(measurement)),
+  )
+} else {
+  const file = flag
+  const runs = Number(rest[0] ?? 3)
+  if (!file) {
+    console.error("Usage: benchmark-nodeset-parser.ts <NodeSet2.xml> [runs]")
+    process.exit(1)
+  }
+
+  const summary = (["tree", "stream"] as const).map((mode) => {
+    const results = Array.from({ length: runs }, () => runChild(mode, file))
+    return {
+      parser: mode,
+      nodes: results[0].nodes,
+      "wall ms (median)": median(results.map((r) => r.wallMs)),
+      "peak heap MB (median)": median(results.map((r) => r.peakHeapMb)),
+      "peak RSS MB (median)": median(results.map((r) => r.peakRssMb)),
+    }
+  })
+
+  console.log(`${file}, ${runs} run(s) per parser`)
+  console.table(summary)
+}
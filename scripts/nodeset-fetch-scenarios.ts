@@ -0,0 +1,222 @@
+#!/usr/bin/env -S npx tsx
+// Loads NodeSets through a fake HttpClient that answers slowly, with error
+// statuses or with truncated bodies, and checks that every fetch ends with the
+// expected outcome and number of attempts instead of hanging.
+//
+//   pnpm scenarios:fetch
+import {
+  HttpClient,
+  HttpClientError,
+  HttpClientResponse,
+  KeyValueStore,
+} from "@effect/platform"
+import { NodeFileSystem } from "@effect/platform-node"
+import { Duration, Effect, Layer, Logger, LogLevel } from "effect"
+import { NamespaceTable } from "../src/opcua/NamespaceTable.js"
+import { NodeSetCatalog } from "../src/opcua/NodeSetCatalog.js"
+import { NodeSetFetchPolicy } from "../src/opcua/NodeSetFetchPolicy.js"
+import { NodeSetLoaderSource } from "../src/opcua/NodeSetLoader.js"
+import { NodeSetReader } from "../src/opcua/NodeSetReader.js"
+import { ServerConfig } from "../src/opcua/ServerConfig.js"
+import { NodeSetCatalogEntry } from "../src/opcua/types.js"
+
+const NODESET = `<?xml version="1.0" encoding="utf-8"?>
+<UANodeSet xmlns="http://opcfoundation.org/UA/2011/03/UANodeSet.xsd">
+  <NamespaceUris>
+    <Uri>http://example.com/UA/Fake/</Uri>
+  </NamespaceUris>
+  <Models>
+    <Model ModelUri="http://example.com/UA/Fake/" Version="1.0.0" PublicationDate="2024-01-01T00:00:00Z" />
+  </Models>
+  <UAObjectType NodeId="ns=1;i=1000" BrowseName="1:FakeDeviceType">
+    <DisplayName>FakeDeviceType</DisplayName>
+    <References>
+      <Reference ReferenceType="HasSubtype" IsForward="false">i=58</Reference>
+    </References>
+  </UAObjectType>
+</UANodeSet>
+`
+
+const MAX_BYTES = 4096
+
+interface Scenario {
+  readonly path: string
+  // Answers the n-th request (from 1) for the path
+  readonly respond: (attempt: number) => Effect.Effect<Response>
+  readonly expected:
+    | "loaded"
+    | "NodeSetFetchError"
+    | "NodeSetParseError"
+    | "NodeSetTooLarge"
+  readonly attempts: number
+}
+
+const xml = (body: BodyInit, init?: ResponseInit) =>
+  new Response(body, {
+    ...init,
+    headers: { "content-type": "application/xml", ...init?.headers },
+  })
+
+const SCENARIOS: ReadonlyArray<Scenario> = [
+  {
+    path: "/ok",
+    respond: () => Effect.succeed(xml(NODESET)),
+    expected: "loaded",
+    attempts: 1,
+  },
+  {
+    path: "/flaky",
+    respond: (attempt) =>
+      Effect.succeed(attempt < 3 ? xml("busy", { status: 503 }) : xml(NODESET)),
+    expected: "loaded",
+    attempts: 3,
+  },
+  {
+    path: "/not-found",
+    respond: () => Effect.succeed(xml("missing", { status: 404 })),
+    expected: "NodeSetFetchError",
+    attempts: 1,
+  },
+  {
+    path: "/slow",
+    respond: () => Effect.as(Effect.sleep(Duration.seconds(5)), xml(NODESET)),
+    expected: "NodeSetFetchError",
+    attempts: 3,
+  },
+  {
+    path: "/stalled",
+    respond: () =>
+      Effect.succeed(
+        xml(
+          new ReadableStream({
+            start: (controller) =>
+              controller.enqueue(
+                new TextEncoder().encode(NODESET.slice(0, 200)),
+              ),
+          }),
+        ),
+      ),
+    expected: "NodeSetFetchError",
+    attempts: 1,
+  },
+  {
+    path: "/truncated",
+    respond: () => Effect.succeed(xml(NODESET.slice(0, NODESET.length / 2))),
+    expected: "NodeSetParseError",
+    attempts: 1,
+  },
+  {
+    path: "/too-large",
+    respond: () =>
+      Effect.succeed(
+        xml(NODESET, { headers: { "content-length": `${MAX_BYTES + 1}` } }),
+      ),
+    expected: "NodeSetTooLarge",
+    attempts: 1,
+  },
+  {
+    path: "/too-large-chunked",
+    respond: () => Effect.succeed(xml(NODESET.repeat(8))),
+    expected: "NodeSetTooLarge",
+    attempts: 1,
+  },
+]
+
+const attempts = new Map<string, number>()
+
+const FakeHttpClient = Layer.succeed(
+  HttpClient.HttpClient,
+  HttpClient.make((request, url) => {
+    const scenario = SCENARIOS.find(({ path }) => path === url.pathname)
+    if (scenario === undefined) {
+      return Effect.fail(
+        new HttpClientError.RequestError({
+          request,
+          reason: "Transport",
+          description: `No scenario for ${url.pathname}`,
+        }),
+      )
+    }
+    const attempt = (attempts.get(scenario.path) ?? 0) + 1
+    attempts.set(scenario.path, attempt)
+    return Effect.map(scenario.respond(attempt), (response) =>
+      HttpClientResponse.fromWeb(request, response),
+    )
+  }),
+)
+
+const entryFor = ({ path }: Scenario) =>
+  new NodeSetCatalogEntry({
+    slug: path.slice(1),
+    name: path.slice(1),
+    tags: [],
+    namespaceUris: [],
+    nodeSetUrl: `http://nodesets.test${path}`,
+    dependencies: [],
+    defaultSelection: false,
+  })
+
+const program = Effect.gen(function* () {
+  const source = yield* NodeSetLoaderSource
+  const startedAt = Date.now()
+  const batch = yield* source.loadNodeSets(SCENARIOS.map(entryFor))
+  const elapsed = Date.now() - startedAt
+
+  let failures = 0
+  for (const scenario of SCENARIOS) {
+    const slug = scenario.path.slice(1)
+    const failure = batch.failures.find(({ entry }) => entry.slug === slug)
+    const outcome = failure ? failure.error._tag : "loaded"
+    const made = attempts.get(scenario.path) ?? 0
+    const ok = outcome === scenario.expected && made === scenario.attempts
+    if (!ok) failures++
+    console.log(
+      `${ok ? "ok  " : "FAIL"} ${scenario.path} -> ${outcome} after ${made} attempts (expected ${scenario.expected} after ${scenario.attempts})${
+        failure ? `\n       ${failure.error.message}` : ""
+      }`,
+    )
+  }
+  console.log(
+    `Loaded ${batch.loaded.length} NodeSets with ${batch.nodeSet.nodes.length} nodes, ${batch.failures.length} failed, in ${elapsed} ms`,
+  )
+  console.log(
+    `${SCENARIOS.length - failures}/${SCENARIOS.length} scenarios passed`,
+  )
+  return failures
+})
+
+program
+  .pipe(
+    Effect.provide(
+      NodeSetLoaderSource.DefaultWithoutDependencies.pipe(
+        Layer.provide([
+          ServerConfig.Default,
+          NodeSetCatalog.Default,
+          NamespaceTable.Default,
+          NodeSetReader.DefaultWithoutDependencies.pipe(
+            Layer.provide([
+              NodeFileSystem.layer,
+              FakeHttpClient,
+              NodeSetFetchPolicy.withPolicy({
+                requestTimeout: Duration.millis(200),
+                idleTimeout: Duration.millis(200),
+                retries: 2,
+                retryDelay: Duration.millis(20),
+                maxBytes: MAX_BYTES,
+              }),
+            ]),
+          ),
+        ]),
+      ),
+    ),
+    Effect.provide(KeyValueStore.layerMemory),
+    Logger.withMinimumLogLevel(LogLevel.None),
+    Effect.runPromise,
+  )
+  .then(
+    (failures) => process.exit(failures === 0 ? 0 : 1),
+    (error) => {
+      console.error(error)
+      process.exit(1)
+    },
+  )
@@ -0,0 +1,89 @@
+#!/usr/bin/env -S npx tsx
+// Parses NodeSet files, writes them back with the NodeSet writer and parses the
+// output again. Reports every node whose model differs between the two parses.
+//
+//   pnpm roundtrip:nodeset path/to/Opc.Ua.Di.NodeSet2.xml [more.xml ...]
+import * as NodeFileSystem from "@effect/platform-node/NodeFileSystem"
+import { FileSystem } from "@effect/platform/FileSystem"
+import { Effect, Schema, Stream } from "effect"
+import { isDeepStrictEqual } from "node:util"
+import {
+  collectNodeSet,
+  parseNodeSetStream,
+} from "../src/opcua/NodeSetStream.js"
+import { writeNodeSetXml } from "../src/opcua/NodeSetWriter.js"
+import { NodeSet, NodeSetCatalogEntry } from "../src/opcua/types.js"
+
+const MAX_REPORTED = 5
+
+const encode = Schema.encodeSync(NodeSet)
+
+const roundTrip = (file: string) =>
+  Effect.gen(function* () {
+    const fs = yield* FileSystem
+    const entry = new NodeSetCatalogEntry({
+      slug: "roundtrip",
+      name: "Round trip",
+      nodeSetUrl: file,
+      tags: [],
+      namespaceUris: [],
+      dependencies: [],
+      defaultSelection: false,
+    })
+
+    const original = yield* collectNodeSet(
+      parseNodeSetStream(fs.stream(file), entry),
+    )
+    const xml = writeNodeSetXml(original)
+    const reparsed = yield* collectNodeSet(
+      parseNodeSetStream(Stream.make(new TextEncoder().encode(xml)), entry),
+    )
+
+    const before = encode(original)
+    const after = encode(reparsed)
+    const differences: string[] = []
+    for (const key of ["namespaces", "models", "aliases"] as const) {
+      if (!isDeepStrictEqual(before[key], after[key])) {
+        differences.push(`${key} differ`)
+      }
+    }
+    if (before.nodes.length !== after.nodes.length) {
+      differences.push(
+        `node count ${before.nodes.length} -> ${after.nodes.length}`,
+      )
+    }
+    before.nodes.forEach((node, index) => {
+      if (!isDeepStrictEqual(node, after.nodes[index])) {
+        differences.push(`node ${original.nodes[index].nodeId} differs`)
+      }
+    })
+
+    return {
+      file,
+      nodes: original.nodes.length,
+      bytes: xml.length,
+      differences,
+    }
+  }).pipe(Effect.provide(NodeFileSystem.layer))
+
+const files = process.argv.slice(2)
+if (files.length === 0) {
+  console.error("Usage: roundtrip-nodeset.ts <NodeSet2.xml> [...]")
+  process.exit(1)
+}
+
+Effect.runPromise(Effect.forEach(files, roundTrip)).then((results) => {
+  for (const { file, nodes, bytes, differences } of results) {
+    const status = differences.length === 0 ? "ok" : "DIFFERS"
+    console.log(`${status} ${file} (${nodes} nodes, ${bytes} bytes written)`)
+    for (const difference of differences.slice(0, MAX_REPORTED)) {
+      console.log(`  ${difference}`)
+    }
+    if (differences.length > MAX_REPORTED) {
+      console.log(`  ... ${differences.length - MAX_REPORTED} more`)
+    }
+  }
+  if (results.some(({ differences }) => differences.length > 0)) {
+    process.exitCode = 1
+  }
+})
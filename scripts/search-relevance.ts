@@ -0,0 +1,156 @@
+#!/usr/bin/env -S npx tsx
+// Runs a fixed set of search queries against the NodeSearchIndex and checks
+// that the expected node is among the top hits. Guards tokenizer, synonym and
+// ranking changes against regressions.
+//
+//   pnpm relevance:search [path/to/nodesets]
+//
+// The optional directory of *.NodeSet2.xml files is registered in the catalog
+// so the NodeSets are read locally instead of fetched.
+import { KeyValueStore } from "@effect/platform"
+import { Effect, Layer, Logger, LogLevel } from "effect"
+import {
+  NodeSearchIndex,
+  type SearchOptions,
+} from "../src/opcua/NodeSearchIndex.js"
+import { NodeSetCatalog } from "../src/opcua/NodeSetCatalog.js"
+import { NodeSetLoader } from "../src/opcua/NodeSetLoader.js"
+
+const SLUGS = ["core", "di", "packml", "machinery", "autoid", "robotics"]
+
+interface RelevanceCase {
+  readonly query: string
+  readonly options?: SearchOptions
+  readonly expected: string // Document title, e.g. `DeviceType (ObjectType)`
+  readonly within: number // Rank the expected document must reach
+}
+
+const CASES: ReadonlyArray<RelevanceCase> = [
+  // Exact and CamelCase names
+  { query: "DeviceType", expected: "DeviceType (ObjectType)", within: 1 },
+  { query: "Int32", expected: "Int32 (DataType)", within: 1 },
+  {
+    query: "MotionDeviceSystemType",
+    expected: "MotionDeviceSystemType (ObjectType)",
+    within: 1,
+  },
+  {
+    query: "MachineryItemState",
+    expected: "MachineryItemState_StateMachineType (ObjectType)",
+    within: 3,
+  },
+  {
+    query: "machinery item state",
+    expected: "MachineryItemState (Object)",
+    within: 3,
+  },
+  { query: "serial number", expected: "SerialNumber (Variable)", within: 1 },
+  { query: "unit mode", expected: "UnitModeCurrent (Variable)", within: 3 },
+  { query: "eu range", expected: "EURange (Variable)", within: 1 },
+  // Prefixes
+  { query: "temp", expected: "Temperature (Variable)", within: 3 },
+  // Synonyms and acronyms
+  {
+    query: "engineering units",
+    expected: "EngineeringUnits (Variable)",
+    within: 1,
+  },
+  {
+    query: "RFID reader",
+    expected: "RfidReaderDeviceType (ObjectType)",
+    within: 1,
+  },
+  { query: "firmware", expected: "SoftwareRevision (Variable)", within: 3 },
+  { query: "emergency stop", expected: "EmergencyStop (Variable)", within: 3 },
+  { query: "PackML held state", expected: "Held (Object)", within: 3 },
+  // Semantic and hybrid ranking of questions
+  {
+    query: "where do I put the spindle override?",
+    options: { mode: "hybrid" },
+    expected: "SpeedOverride (Variable)",
+    within: 3,
+  },
+  {
+    query: "how hot is the motor",
+    options: { mode: "semantic" },
+    expected: "MotorTemperature (Variable)",
+    within: 3,
+  },
+  // Filters
+  {
+    query: "",
+    options: {
+      slug: "machinery",
+      nodeClasses: ["ObjectType"],
+      isAbstract: true,
+    },
+    expected: "IMachineryItemVendorNameplateType (ObjectType)",
+    within: 10,
+  },
+  {
+    query: "unit",
+    options: { dataType: "EUInformation", slug: "robotics" },
+    expected: "EngineeringUnits (Variable)",
+    within: 5,
+  },
+]
+
+const program = Effect.gen(function* () {
+  const catalog = yield* NodeSetCatalog
+  const loader = yield* NodeSetLoader
+  const index = yield* NodeSearchIndex
+
+  const directory = process.argv[2]
+  if (directory) {
+    yield* catalog.registerDirectory(directory)
+  }
+  const loaded = yield* loader.loadWithDependencies(SLUGS)
+  yield* index.addNodeSets(
+    loaded.map(({ entry, nodeSet }) => ({
+      source: entry.slug,
+      nodes: nodeSet.nodes,
+    })),
+  )
+
+  let failures = 0
+  for (const { query, options, expected, within } of CASES) {
+    const { results } = yield* index.search(query, {
+      ...options,
+      limit: within,
+    })
+    const rank = results.findIndex((result) => result.title === expected) + 1
+    const label = `"${query}"${options ? ` ${JSON.stringify(options)}` : ""}`
+    if (rank > 0) {
+      console.log(`ok   ${label} -> ${expected} at ${rank}`)
+    } else {
+      failures++
+      console.log(`FAIL ${label} -> ${expected} not in top ${within}`)
+      for (const [position, result] of results.entries()) {
+        console.log(`       ${position + 1}. ${result.title} ${result.nodeId}`)
+      }
+    }
+  }
+  console.log(`${CASES.length - failures}/${CASES.length} cases passed`)
+  return failures
+})
+
+program
+  .pipe(
+    Effect.provide(
+      Layer.mergeAll(
+        NodeSetCatalog.Default,
+        NodeSetLoader.Default,
+        NodeSearchIndex.Default,
+      ),
+    ),
+    Effect.provide(KeyValueStore.layerMemory),
+    Logger.withMinimumLogLevel(LogLevel.Warning),
+    Effect.runPromise,
+  )
+  .then(
+    (failures) => process.exit(failures === 0 ? 0 : 1),
+    (error) => {
+      console.error(error)
+      process.exit(1)
+    },
+  )
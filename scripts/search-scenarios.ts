@@ -0,0 +1,293 @@
+#!/usr/bin/env -S npx tsx
+// Starts the indexing services against the same temporary cache directory,
+// with small local NodeSets and no network, and checks that a second start
+// restores the search snapshot the first one saved and that a NodeSet
+// ingested again under the same slug replaces the indexed one.
+//
+//   pnpm scenarios:search
+import { HttpClient, HttpClientError } from "@effect/platform"
+import { NodeFileSystem } from "@effect/platform-node"
+import { Effect, Layer, Logger, LogLevel, Schedule } from "effect"
+import * as fs from "node:fs"
+import * as os from "node:os"
+import * as path from "node:path"
+import { NamespaceTable } from "../src/opcua/NamespaceTable.js"
+import { NodeGraph } from "../src/opcua/NodeGraph.js"
+import { NodeSearchIndex } from "../src/opcua/NodeSearchIndex.js"
+import { NodeSetCatalog } from "../src/opcua/NodeSetCatalog.js"
+import { NodeSetFetchPolicy } from "../src/opcua/NodeSetFetchPolicy.js"
+import { NodeSetIndexer } from "../src/opcua/NodeSetIndexer.js"
+import {
+  NodeSetLoader,
+  NodeSetLoaderSource,
+} from "../src/opcua/NodeSetLoader.js"
+import { NodeSetLock } from "../src/opcua/NodeSetLock.js"
+import { NodeSetReader } from "../src/opcua/NodeSetReader.js"
+import { SearchSnapshot } from "../src/opcua/SearchSnapshot.js"
+import {
+  PersistentStore,
+  ServerConfig,
+  settingsProvider,
+} from "../src/opcua/ServerConfig.js"
+
+const VENDOR_URI = "http://example.com/UA/Vendor/"
+const CUSTOM_URI = "http://example.com/UA/Custom/"
+
+const CORE_NODESET = `<?xml version="1.0" encoding="utf-8"?>
+<UANodeSet xmlns="http://opcfoundation.org/UA/2011/03/UANodeSet.xsd">
+  <Models>
+    <Model ModelUri="http://opcfoundation.org/UA/" Version="1.05.03" PublicationDate="2023-12-15T00:00:00Z" />
+  </Models>
+  <UAObjectType NodeId="i=58" BrowseName="BaseObjectType">
+    <DisplayName>BaseObjectType</DisplayName>
+  </UAObjectType>
+  <UAObject NodeId="i=85" BrowseName="Objects">
+    <DisplayName>Objects</DisplayName>
+  </UAObject>
+</UANodeSet>
+`
+
+const vendorNodeSet = (
+  browseName: string,
+  uri = VENDOR_URI,
+) => `<?xml version="1.0" encoding="utf-8"?>
+<UANodeSet xmlns="http://opcfoundation.org/UA/2011/03/UANodeSet.xsd">
+  <NamespaceUris>
+    <Uri>${uri}</Uri>
+  </NamespaceUris>
+  <Models>
+    <Model ModelUri="${uri}" Version="1.0.0" PublicationDate="2024-01-01T00:00:00Z">
+      <RequiredModel ModelUri="http://opcfoundation.org/UA/" Version="1.05.03" />
+    </Model>
+  </Models>
+  <UAObjectType NodeId="ns=1;i=1000" BrowseName="1:${browseName}">
+    <DisplayName>${browseName}</DisplayName>
+    <References>
+      <Reference ReferenceType="HasSubtype" IsForward="false">i=58</Reference>
+    </References>
+  </UAObjectType>
+</UANodeSet>
+`
+
+// Every request fails, so only the local NodeSets are found
+const OfflineHttpClient = Layer.succeed(
+  HttpClient.HttpClient,
+  HttpClient.make((request) =>
+    Effect.fail(
+      new HttpClientError.RequestError({
+        request,
+        reason: "Transport",
+        description: "offline",
+      }),
+    ),
+  ),
+)
+
+const Reader = NodeSetReader.DefaultWithoutDependencies.pipe(
+  Layer.provide([
+    OfflineHttpClient,
+    NodeSetFetchPolicy.withPolicy({ retries: 0 }),
+    NodeFileSystem.layer,
+  ]),
+)
+const Catalog = NodeSetCatalog.DefaultWithoutDependencies.pipe(
+  Layer.provide([
+    ServerConfig.Default,
+    NodeSetLock.Default,
+    Reader,
+    OfflineHttpClient,
+    NodeFileSystem.layer,
+    PersistentStore,
+  ]),
+)
+const Source = NodeSetLoaderSource.DefaultWithoutDependencies.pipe(
+  Layer.provide([
+    ServerConfig.Default,
+    Catalog,
+    NamespaceTable.Default,
+    Reader,
+    PersistentStore,
+  ]),
+)
+const Loader = NodeSetLoader.DefaultWithoutDependencies.pipe(
+  Layer.provide([
+    ServerConfig.Default,
+    Catalog,
+    Source,
+    NodeSetLock.Default,
+    NamespaceTable.Default,
+    NodeFileSystem.layer,
+    PersistentStore,
+  ]),
+)
+const Snapshot = SearchSnapshot.DefaultWithoutDependencies.pipe(
+  Layer.provide([
+    Catalog,
+    Loader,
+    NodeSearchIndex.Default,
+    NamespaceTable.Default,
+    PersistentStore,
+  ]),
+)
+const Indexer = NodeSetIndexer.DefaultWithoutDependencies.pipe(
+  Layer.provide([
+    Catalog,
+    Loader,
+    NodeGraph.Default,
+    NodeSearchIndex.Default,
+    Snapshot,
+  ]),
+)
+// One server start; every `Effect.provide` builds the services anew
+const Server = Layer.mergeAll(Indexer, Catalog, Loader, NodeSearchIndex.Default)
+
+const waitUntilReady = Effect.gen(function* () {
+  const indexer = yield* NodeSetIndexer
+  return yield* indexer.status().pipe(
+    Effect.filterOrFail(
+      (status) => status.ready,
+      () => "Startup indexing did not finish",
+    ),
+    Effect.retry(
+      Schedule.spaced("50 millis").pipe(Schedule.upTo("60 seconds")),
+    ),
+  )
+})
+
+const hasNode = (slug: string, browseName: string) =>
+  Effect.gen(function* () {
+    const index = yield* NodeSearchIndex
+    const { results } = yield* index.search(browseName)
+    return results.some((result) => result.handle === `${slug}:${browseName}`)
+  })
+
+// Ingests a NodeSet with one type under the `custom` slug and indexes it
+const ingestCustom = (browseName: string) =>
+  Effect.gen(function* () {
+    const loader = yield* NodeSetLoader
+    const indexer = yield* NodeSetIndexer
+    fs.writeFileSync(ingestFile, vendorNodeSet(browseName, CUSTOM_URI))
+    yield* loader.ingest({ url: ingestFile, slug: "custom" })
+    return yield* indexer.load("custom")
+  })
+
+interface Check {
+  readonly name: string
+  readonly ok: boolean
+  readonly detail: string
+}
+
+const check = (name: string, ok: boolean, detail: string): Check => ({
+  name,
+  ok,
+  detail,
+})
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "opcua-mcp-scenarios-"))
+const nodesetDir = path.join(root, "nodesets")
+const ingestFile = path.join(root, "Custom.NodeSet2.xml")
+fs.mkdirSync(nodesetDir)
+fs.writeFileSync(path.join(nodesetDir, "Opc.Ua.NodeSet2.xml"), CORE_NODESET)
+fs.writeFileSync(
+  path.join(nodesetDir, "Vendor.NodeSet2.xml"),
+  vendorNodeSet("VendorRobot"),
+)
+
+const start = <A, E>(
+  program: Effect.Effect<
+    A,
+    E,
+    NodeSetIndexer | NodeSetCatalog | NodeSetLoader | NodeSearchIndex
+  >,
+) =>
+  program.pipe(
+    Effect.provide(Server),
+    Effect.withConfigProvider(
+      settingsProvider({
+        cacheDir: path.join(root, "cache"),
+        lockFile: path.join(root, "opcua-nodesets.lock.json"),
+        nodesetDirs: [nodesetDir],
+        preload: ["core", "vendor"],
+      }),
+    ),
+  )
+
+const program = Effect.gen(function* () {
+  const checks: Check[] = []
+
+  const first = yield* start(waitUntilReady)
+  checks.push(
+    check(
+      "first start indexes the NodeSets",
+      !first.restoredFromSnapshot && first.indexedNodeSets === 2,
+      `restoredFromSnapshot ${first.restoredFromSnapshot}, ${first.indexedNodeSets} of ${first.totalNodeSets} indexed`,
+    ),
+  )
+
+  const [second, found, vendor] = yield* start(
+    Effect.all([
+      waitUntilReady,
+      hasNode("vendor", "VendorRobot"),
+      Effect.flatMap(NodeSetCatalog, (catalog) => catalog.resolve("vendor")),
+    ]),
+  )
+  checks.push(
+    check(
+      "second start restores the search snapshot",
+      second.restoredFromSnapshot && second.nodeCount === first.nodeCount,
+      `restoredFromSnapshot ${second.restoredFromSnapshot}, ${second.nodeCount} of ${first.nodeCount} nodes`,
+    ),
+    check(
+      "restored index finds the NodeSet nodes",
+      found,
+      `VendorRobot ${found ? "found" : "not found"}`,
+    ),
+    check(
+      "catalog keeps the namespace URIs read on the first start",
+      vendor.namespaceUris.includes(VENDOR_URI),
+      `vendor lists ${vendor.namespaceUris.join(", ") || "no namespace URIs"}`,
+    ),
+  )
+
+  const [reloaded, arm, robot] = yield* start(
+    Effect.gen(function* () {
+      yield* waitUntilReady
+      yield* ingestCustom("CustomRobot")
+      return yield* Effect.all([
+        ingestCustom("CustomArm"),
+        hasNode("custom", "CustomArm"),
+        hasNode("custom", "CustomRobot"),
+      ])
+    }),
+  )
+  checks.push(
+    check(
+      "NodeSet ingested again under its slug replaces the indexed one",
+      reloaded.loaded.some(({ slug }) => slug === "custom") && arm && !robot,
+      `CustomArm ${arm ? "found" : "not found"}, CustomRobot ${robot ? "found" : "not found"}`,
+    ),
+  )
+
+  for (const { name, ok, detail } of checks) {
+    console.log(`${ok ? "ok  " : "FAIL"} ${name} (${detail})`)
+  }
+  const failures = checks.filter(({ ok }) => !ok).length
+  console.log(`${checks.length - failures}/${checks.length} scenarios passed`)
+  return failures
+})
+
+program
+  .pipe(
+    Logger.withMinimumLogLevel(LogLevel.None),
+    Effect.ensuring(
+      Effect.sync(() => fs.rmSync(root, { recursive: true, force: true })),
+    ),
+    Effect.runPromise,
+  )
+  .then(
+    (failures) => process.exit(failures === 0 ? 0 : 1),
+    (error) => {
+      console.error(error)
+      process.exit(1)
+    },
+  )
@@ -1,39 +1,145 @@
-import { Cache, Duration, Effect, Layer, Option, Schema, Array } from "effect"
+import { Cache, Data, Duration, Effect, Layer, Option, Schema } from "effect"
 import { McpServer, Tool, Toolkit } from "@effect/ai"
-import Minisearch from "minisearch"
-import { NodeSetLoader } from "./opcua/NodeSetLoader.js"
-import { NodeSetCatalog } from "./opcua/NodeSetCatalog.js"
 import { NodeGraph, NodeGraphEntry } from "./opcua/NodeGraph.js"
+import { NodeSearchIndex } from "./opcua/NodeSearchIndex.js"
+import { NodeSetIndexer } from "./opcua/NodeSetIndexer.js"
+import { TypeHierarchy } from "./opcua/TypeHierarchy.js"
+import { NodeBrowser } from "./opcua/NodeBrowser.js"
+import { BrowsePathResolver } from "./opcua/BrowsePathResolver.js"
+import { ServerConfig } from "./opcua/ServerConfig.js"
+import { toToolFailure } from "./OpcUaNodeSets.js"
 import {
-  NodeDocumentEntry,
+  BrowseDirection,
+  BrowsePathResult,
+  BrowseResult,
+  DataTypeDefinition,
+  NodeClass,
   ParsedUANode,
   LocalizedText,
+  SearchMode,
+  ServerStatus,
+  TypeHierarchyInfo,
 } from "./opcua/types.js"
-
-const documentId = Schema.Number.pipe(
-  Schema.annotations({
-    description: "The unique identifier for the OPC UA documentation entry.",
-  }),
-)
+import {
+  formatAccessLevel,
+  formatEventNotifier,
+  renderValueMarkdown,
+} from "./opcua/ValueFormat.js"
 
 const SearchResult = Schema.Struct({
-  documentId,
+  documentId: Schema.String.pipe(
+    Schema.annotations({
+      description:
+        "NodeId of the node in ExpandedNodeId form. It stays valid across server restarts.",
+    }),
+  ),
+  handle: Schema.optional(
+    Schema.String.pipe(
+      Schema.annotations({
+        description: "`slug:BrowseName` handle of a type",
+      }),
+    ),
+  ),
+  browsePath: Schema.optional(
+    Schema.String.pipe(
+      Schema.annotations({
+        description: "Shortest browse path from the Root folder",
+      }),
+    ),
+  ),
   title: Schema.String,
   description: Schema.optional(Schema.String),
 })
 
 const OpcUaDocSearch = Tool.make("opcua_doc_search", {
   description:
-    "Searches the OPC UA NodeSet documentation. Result content can be accessed with the `get_opcua_doc` tool.",
+    "Searches the OPC UA NodeSet documentation. Results can be narrowed with filters and paged with `limit` and `offset`; with filters the query may be empty to list all matching nodes. Result content can be accessed with the `get_opcua_doc` tool.",
   parameters: {
     query: Schema.String.pipe(
       Schema.annotations({
-        description: "The search query to look for in the documentation.",
+        description:
+          "The search query to look for in the documentation. Empty matches every node passing the filters.",
       }),
     ),
+    nodeClasses: Schema.optional(
+      Schema.Array(NodeClass).pipe(
+        Schema.annotations({
+          description: "Only return nodes of these NodeClasses",
+        }),
+      ),
+    ),
+    namespaceUri: Schema.optional(
+      Schema.String.pipe(
+        Schema.annotations({
+          description:
+            "Only return nodes of this namespace, e.g. `http://opcfoundation.org/UA/Machinery/`",
+        }),
+      ),
+    ),
+    slug: Schema.optional(
+      Schema.String.pipe(
+        Schema.annotations({
+          description:
+            "Only return nodes defined by this catalog NodeSet, e.g. `machinery`",
+        }),
+      ),
+    ),
+    isAbstract: Schema.optional(
+      Schema.Boolean.pipe(
+        Schema.annotations({
+          description: "Only return abstract (true) or concrete (false) nodes",
+        }),
+      ),
+    ),
+    dataType: Schema.optional(
+      Schema.String.pipe(
+        Schema.annotations({
+          description:
+            "Only return Variables and VariableTypes whose DataType is this DataType or one of its subtypes (NodeId or BrowseName, e.g. `EUInformation`)",
+        }),
+      ),
+    ),
+    subtypeOf: Schema.optional(
+      Schema.String.pipe(
+        Schema.annotations({
+          description:
+            "Only return direct and indirect subtypes of this type (NodeId or BrowseName, e.g. `BaseEventType`)",
+        }),
+      ),
+    ),
+    mode: Schema.optional(
+      SearchMode.pipe(
+        Schema.annotations({
+          description:
+            "`lexical` (default) matches names and descriptions by their words, `semantic` ranks by embedding similarity to the query, `hybrid` fuses both rankings",
+        }),
+      ),
+    ),
+    limit: Schema.optional(
+      Schema.Number.pipe(
+        Schema.annotations({
+          description: "Maximum number of results (defaults to 50)",
+        }),
+      ),
+    ),
+    offset: Schema.optional(
+      Schema.Number.pipe(
+        Schema.annotations({
+          description: "Number of results to skip (defaults to 0)",
+        }),
+      ),
+    ),
   },
   success: Schema.Struct({
     results: Schema.Array(SearchResult),
+    total: Schema.Number.pipe(
+      Schema.annotations({
+        description: "Number of matching nodes across all pages",
+      }),
+    ),
+  }),
+  failure: Schema.Struct({
+    message: Schema.String,
   }),
 })
   .annotate(Tool.Readonly, true)
@@ -41,9 +147,14 @@ const OpcUaDocSearch = Tool.make("opcua_doc_search", {
 
 const GetOpcUaDoc = Tool.make("get_opcua_doc", {
   description:
-    "Get the OPC UA documentation for a documentId. The content might be paginated. Use the `page` parameter to specify which page to retrieve.",
+    "Get the OPC UA documentation of a node. The content might be paginated. Use the `page` parameter to specify which page to retrieve.",
   parameters: {
-    documentId,
+    documentId: Schema.String.pipe(
+      Schema.annotations({
+        description:
+          "The node to document: a NodeId (`nsu=http://opcfoundation.org/UA/DI/;i=1002`, `ns=1;i=1002` or `i=58`), a browse path from the Root folder (`/Objects/DeviceSet`) or a `slug:BrowseName` handle (`di:DeviceType`).",
+      }),
+    ),
     page: Schema.optional(
       Schema.Number.pipe(
         Schema.annotations({
@@ -57,11 +168,230 @@ const GetOpcUaDoc = Tool.make("get_opcua_doc", {
     page: Schema.Number,
     totalPages: Schema.Number,
   }),
+  failure: Schema.Struct({
+    message: Schema.String,
+  }),
+})
+  .annotate(Tool.Readonly, true)
+  .annotate(Tool.Destructive, false)
+
+const DataTypeDefinitionResult = Schema.Struct({
+  nodeId: Schema.String,
+  browseName: Schema.String,
+  namespaceUri: Schema.optional(Schema.String),
+  definition: Schema.optional(DataTypeDefinition),
+})
+
+const OpcUaDataTypeDefinition = Tool.make("opcua_datatype_definition", {
+  description:
+    "Returns the structured definition of an OPC UA DataType: structure fields (name, data type, value rank, optional flag, description), union members, enumeration values or OptionSet bits.",
+  parameters: {
+    dataType: Schema.String.pipe(
+      Schema.annotations({
+        description:
+          "NodeId (e.g. `nsu=http://opcfoundation.org/UA/DI/;i=6244` or `i=296`) or BrowseName of the DataType. A BrowseName can match DataTypes of several namespaces.",
+      }),
+    ),
+  },
+  success: Schema.Struct({
+    dataTypes: Schema.Array(DataTypeDefinitionResult),
+  }),
+  failure: Schema.Struct({
+    message: Schema.String,
+  }),
 })
   .annotate(Tool.Readonly, true)
   .annotate(Tool.Destructive, false)
 
-const toolkit = Toolkit.make(OpcUaDocSearch, GetOpcUaDoc)
+const OpcUaTypeHierarchy = Tool.make("opcua_type_hierarchy", {
+  description:
+    "Returns the type hierarchy of an OPC UA type: the supertype chain up to the root type, direct and transitive subtypes, and the flattened list of InstanceDeclarations (components and properties) including those inherited from every supertype, with declaring type, ModellingRule, TypeDefinition and DataType. Overridden InstanceDeclarations are merged with the inherited ones.",
+  parameters: {
+    type: Schema.String.pipe(
+      Schema.annotations({
+        description:
+          "NodeId (e.g. `nsu=http://opcfoundation.org/UA/DI/;i=1002` or `i=58`) or BrowseName of the ObjectType, VariableType, DataType or ReferenceType.",
+      }),
+    ),
+  },
+  success: TypeHierarchyInfo,
+  failure: Schema.Struct({
+    message: Schema.String,
+  }),
+})
+  .annotate(Tool.Readonly, true)
+  .annotate(Tool.Destructive, false)
+
+const OpcUaBrowse = Tool.make("opcua_browse", {
+  description:
+    "Browses the references of an OPC UA node like the Browse service. Returns ReferenceDescriptions with the ReferenceType, direction, target NodeId, BrowseName, DisplayName, NodeClass and TypeDefinition. Results are paged; pass the returned `continuationPoint` to get the next page.",
+  parameters: {
+    nodeId: Schema.optional(
+      Schema.String.pipe(
+        Schema.annotations({
+          description:
+            "NodeId of the node to browse, e.g. `i=85` or `nsu=http://opcfoundation.org/UA/DI/;i=1002`. Not needed with a `continuationPoint`.",
+        }),
+      ),
+    ),
+    direction: Schema.optional(
+      BrowseDirection.pipe(
+        Schema.annotations({
+          description: "Reference direction to follow (defaults to forward)",
+        }),
+      ),
+    ),
+    referenceType: Schema.optional(
+      Schema.String.pipe(
+        Schema.annotations({
+          description:
+            "NodeId or BrowseName of the ReferenceType to follow, e.g. `HierarchicalReferences` (defaults to all references)",
+        }),
+      ),
+    ),
+    includeSubtypes: Schema.optional(
+      Schema.Boolean.pipe(
+        Schema.annotations({
+          description:
+            "Also follow subtypes of `referenceType` (defaults to true)",
+        }),
+      ),
+    ),
+    nodeClasses: Schema.optional(
+      Schema.Array(NodeClass).pipe(
+        Schema.annotations({
+          description:
+            "Only return targets of these NodeClasses (defaults to all)",
+        }),
+      ),
+    ),
+    maxReferences: Schema.optional(
+      Schema.Number.pipe(
+        Schema.annotations({
+          description:
+            "Maximum number of references per page, 0 for no limit (defaults to 100)",
+        }),
+      ),
+    ),
+    continuationPoint: Schema.optional(
+      Schema.String.pipe(
+        Schema.annotations({
+          description:
+            "Continuation point of an earlier result. The other parameters except `maxReferences` are taken from it.",
+        }),
+      ),
+    ),
+  },
+  success: BrowseResult,
+  failure: Schema.Struct({
+    message: Schema.String,
+  }),
+})
+  .annotate(Tool.Readonly, true)
+  .annotate(Tool.Destructive, false)
+
+const OpcUaTranslateBrowsePath = Tool.make("opcua_translate_browse_path", {
+  description:
+    "Resolves a RelativePath in the OPC UA text syntax (Part 4, A.2) to NodeIds, like TranslateBrowsePathsToNodeIds. `/Name` follows hierarchical references, `.Name` follows aggregates, `<RefType>Name` follows a specific ReferenceType (`<#RefType>` without subtypes, `<!RefType>` inverse). A `1:` prefix selects the BrowseName namespace index; names without it match any namespace. Starting at a type resolves its InstanceDeclarations, including inherited ones.",
+  parameters: {
+    startNodeId: Schema.optional(
+      Schema.String.pipe(
+        Schema.annotations({
+          description:
+            "NodeId to start from, e.g. an ObjectType (defaults to the Root folder `i=84`)",
+        }),
+      ),
+    ),
+    path: Schema.String.pipe(
+      Schema.annotations({
+        description:
+          "RelativePath, e.g. `/Objects/1:DeviceSet` or `.Lock.Locked` from a type",
+      }),
+    ),
+  },
+  success: BrowsePathResult,
+  failure: Schema.Struct({
+    message: Schema.String,
+  }),
+})
+  .annotate(Tool.Readonly, true)
+  .annotate(Tool.Destructive, false)
+
+const LoadedNodeSetSummary = Schema.Struct({
+  slug: Schema.String,
+  nodeCount: Schema.Number,
+})
+
+const LoadOpcUaNodeSet = Tool.make("load_opcua_nodeset", {
+  description:
+    "Loads a NodeSet of the catalog (see `opcua_nodeset_list`) together with its dependencies into the documentation server. Its nodes become searchable and browsable immediately, and browse paths and inverse references of already loaded nodes are updated.",
+  parameters: {
+    slug: Schema.String.pipe(
+      Schema.annotations({
+        description: "Catalog slug of the NodeSet, e.g. `robotics`",
+      }),
+    ),
+  },
+  success: Schema.Struct({
+    loaded: Schema.Array(LoadedNodeSetSummary),
+    alreadyLoaded: Schema.Array(LoadedNodeSetSummary),
+  }),
+  failure: Schema.Struct({
+    message: Schema.String,
+  }),
+})
+  .annotate(Tool.Readonly, false)
+  .annotate(Tool.Destructive, false)
+
+const OpcUaServerStatus = Tool.make("opcua_server_status", {
+  description:
+    "Reports whether the server finished indexing its default NodeSets, and the load state, node count, load time and error of every NodeSet. The other tools answer with a warming up message until `ready` is true; `healthy` is false when a NodeSet failed to load.",
+  success: ServerStatus,
+})
+  .annotate(Tool.Readonly, true)
+  .annotate(Tool.Destructive, false)
+
+const toolkit = Toolkit.make(
+  OpcUaDocSearch,
+  GetOpcUaDoc,
+  OpcUaDataTypeDefinition,
+  OpcUaTypeHierarchy,
+  OpcUaBrowse,
+  OpcUaTranslateBrowsePath,
+  LoadOpcUaNodeSet,
+  OpcUaServerStatus,
+)
+
+const tableCell = (text: string | undefined): string =>
+  (text ?? "").replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ")
+
+const renderDefinitionMarkdown = (definition: DataTypeDefinition): string => {
+  let markdown = `\n## Definition (${definition.kind})\n\n`
+  if (definition.baseDataType) {
+    markdown += `**Base Data Type:** ${definition.baseDataType}\n\n`
+  }
+  if (definition.fields.length === 0) {
+    return markdown
+  }
+
+  if (definition.kind === "Enumeration" || definition.kind === "OptionSet") {
+    const valueHeader = definition.kind === "OptionSet" ? "Bit" : "Value"
+    markdown += `| Name | ${valueHeader} | Description |\n|---|---|---|\n`
+    for (const field of definition.fields) {
+      markdown += `| ${tableCell(field.name)} | ${field.value ?? ""} | ${tableCell(field.description?.text)} |\n`
+    }
+    return markdown
+  }
+
+  markdown += `| Field | Data Type | Value Rank | Optional | Description |\n|---|---|---|---|---|\n`
+  for (const field of definition.fields) {
+    const dataType = field.dataTypeId
+      ? `${field.dataType} (${field.dataTypeId.toString()})`
+      : (field.dataType ?? "")
+    markdown += `| ${tableCell(field.name)} | ${tableCell(dataType)} | ${field.valueRank ?? -1} | ${field.isOptional === true} | ${tableCell(field.description?.text)} |\n`
+  }
+  return markdown
+}
 
 const renderNodeAsMarkdown = (
   entry: NodeGraphEntry,
@@ -71,7 +401,13 @@ const renderNodeAsMarkdown = (
 
   markdown += `**NodeClass:** ${node.nodeClass}\n`
   markdown += `**NodeId:** ${node.nodeId.toString()}\n`
-  markdown += `**Browse Path:** ${entry.browsePath}\n\n`
+  if (node.namespaceUri) {
+    markdown += `**Namespace:** ${node.namespaceUri}\n`
+  }
+  markdown +=
+    entry.browsePaths.length > 1
+      ? `**Browse Paths:**\n${entry.browsePaths.map((path) => `- ${path}`).join("\n")}\n\n`
+      : `**Browse Path:** ${entry.browsePaths[0] ?? "not reachable from Root"}\n\n`
 
   // Display name
   markdown += `**Display Name:** ${node.displayName.text}\n\n`
@@ -86,17 +422,61 @@ const renderNodeAsMarkdown = (
 
   // Type-specific information
   if (node.dataType) {
-    markdown += `**Data Type:** ${node.dataType}\n`
+    markdown += node.dataTypeId
+      ? `**Data Type:** ${node.dataType} (${node.dataTypeId.toString()})\n`
+      : `**Data Type:** ${node.dataType}\n`
   }
   if (node.valueRank !== undefined) {
     markdown += `**Value Rank:** ${node.valueRank}\n`
   }
+  if (node.arrayDimensions !== undefined) {
+    markdown += `**Array Dimensions:** ${node.arrayDimensions.join(", ")}\n`
+  }
+  if (node.accessLevel !== undefined) {
+    markdown += `**Access Level:** ${formatAccessLevel(node.accessLevel)}\n`
+  }
+  if (node.userAccessLevel !== undefined) {
+    markdown += `**User Access Level:** ${formatAccessLevel(node.userAccessLevel)}\n`
+  }
+  if (node.historizing !== undefined) {
+    markdown += `**Historizing:** ${node.historizing}\n`
+  }
+  if (node.minimumSamplingInterval !== undefined) {
+    markdown += `**Minimum Sampling Interval:** ${node.minimumSamplingInterval} ms\n`
+  }
+  if (node.eventNotifier !== undefined) {
+    markdown += `**Event Notifier:** ${formatEventNotifier(node.eventNotifier)}\n`
+  }
   if (node.isAbstract !== undefined) {
     markdown += `**Is Abstract:** ${node.isAbstract}\n`
   }
   if (node.symmetric !== undefined) {
     markdown += `**Symmetric:** ${node.symmetric}\n`
   }
+  if (node.inverseName !== undefined) {
+    markdown += `**Inverse Name:** ${node.inverseName.text}\n`
+  }
+  if (node.parentNodeId !== undefined) {
+    markdown += `**Parent NodeId:** ${node.parentNodeId.toString()}\n`
+  }
+  if (node.methodDeclarationId !== undefined) {
+    markdown += `**Method Declaration:** ${node.methodDeclarationId.toString()}\n`
+  }
+  if (node.symbolicName !== undefined) {
+    markdown += `**Symbolic Name:** ${node.symbolicName}\n`
+  }
+  if (node.releaseStatus !== undefined) {
+    markdown += `**Release Status:** ${node.releaseStatus}\n`
+  }
+
+  if (node.definition !== undefined) {
+    markdown += renderDefinitionMarkdown(node.definition)
+  }
+
+  // Default value from the NodeSet
+  if (node.value !== undefined) {
+    markdown += `\n## Value\n\n${renderValueMarkdown(node.value)}`
+  }
 
   // Forward references
   if (entry.forwardReferences.length > 0) {
@@ -129,122 +509,144 @@ const renderNodeAsMarkdown = (
 const ToolkitHandlers = toolkit
   .toLayer(
     Effect.gen(function* () {
-      const loader = yield* NodeSetLoader
+      const index = yield* NodeSearchIndex
       const graph = yield* NodeGraph
+      const hierarchy = yield* TypeHierarchy
+      const browser = yield* NodeBrowser
+      const browsePaths = yield* BrowsePathResolver
+      const indexer = yield* NodeSetIndexer
+      const { pageSize } = yield* ServerConfig
 
-      // Load all NodeSets
-      const nodeSet = yield* loader.loadDefaultNodeSets()
-
-      // Build the graph
-      yield* graph.buildGraph(nodeSet.nodes)
-
-      // Build search index
-      const docs = Array.empty<NodeDocumentEntry>()
-      const minisearch = new Minisearch<NodeDocumentEntry>({
-        fields: ["title", "description", "nodeClass", "browsePath"],
-        searchOptions: {
-          boost: { title: 3, browsePath: 2 },
-          fuzzy: 0.2,
-        },
-        storeFields: [
-          "nodeId",
-          "title",
-          "description",
-          "nodeClass",
-          "namespace",
-        ],
-      })
-
-      const allNodes = yield* graph.getAllNodes()
-
-      yield* Effect.logInfo(`Indexing ${allNodes.length} nodes for search`)
-
-      for (const graphEntry of allNodes) {
-        const node = graphEntry.node
-        const description = Option.match(node.description, {
-          onNone: () => undefined,
-          onSome: (desc: LocalizedText) => desc.text,
-        })
-
-        // Build search text with graph context
-        const forwardRefSummary = graphEntry.forwardReferences
-          .map(
-            (ref) =>
-              `${ref.referenceType}: ${ref.targets.slice(0, 3).join(", ")}`,
-          )
-          .join(" | ")
-
-        const searchDescription = [
-          description,
-          `Browse Path: ${graphEntry.browsePath}`,
-          forwardRefSummary,
-        ]
-          .filter(Boolean)
-          .join(" | ")
-
-        const entry: NodeDocumentEntry = {
-          id: docs.length,
-          nodeId: node.nodeId.toString(),
-          title: `${node.browseName} (${node.nodeClass})`,
-          description: searchDescription,
-          nodeClass: node.nodeClass,
-          namespace: node.namespaceUri,
-          node,
-        }
-
-        docs.push(entry)
-        minisearch.add(entry as any)
-      }
-
-      yield* Effect.logInfo(`Indexed ${docs.length} nodes`)
-
-      const search = (query: string) =>
-        Effect.sync(() =>
-          minisearch
-            .search(query)
-            .slice(0, 50)
-            .map((result) => docs[result.id]),
-        )
+      // The default NodeSets are indexed in the background; until then the
+      // tools report the startup progress
+      const whenReady = <A, E, R>(effect: Effect.Effect<A, E, R>) =>
+        Effect.zipRight(indexer.ensureReady, effect)
 
+      // Keyed by graph revision and NodeId: rendered documents list
+      // references and browse paths that any NodeSet load may change
       const cache = yield* Cache.make({
-        lookup: (id: number) =>
-          Effect.gen(function* () {
-            const doc = docs[id]
-            const graphEntry = yield* graph.getNode(doc.nodeId)
-
-            return Option.match(graphEntry, {
-              onNone: () => `# ${doc.title}\n\nNode not found in graph.`,
-              onSome: (entry) => renderNodeAsMarkdown(entry, doc.node),
-            })
-          }),
+        lookup: ([, nodeId]: readonly [revision: number, nodeId: string]) =>
+          graph.getNode(nodeId).pipe(
+            Effect.map(
+              Option.match({
+                onNone: () => `# ${nodeId}\n\nNode not found in graph.`,
+                onSome: (entry) => renderNodeAsMarkdown(entry, entry.node),
+              }),
+            ),
+          ),
         capacity: 512,
         timeToLive: Duration.hours(12),
       })
 
       // Return the handlers
       return {
-        opcua_doc_search: ({ query }) =>
+        opcua_doc_search: ({ query, ...options }) =>
           Effect.gen(function* () {
-            const results = yield* search(query)
+            yield* indexer.ensureReady
+            const { results, total } = yield* index.search(query, options)
             return {
+              total,
               results: results.map((result) => ({
                 documentId: result.id,
+                handle: result.handle,
+                browsePath: result.browsePath,
                 title: result.title,
                 description: result.description,
               })),
             }
           }).pipe(
-            Effect.withSpan("opcua_doc_search", { attributes: { query } }),
+            Effect.withSpan("opcua_doc_search", {
+              attributes: { query, mode: options.mode },
+            }),
             Effect.tapErrorCause((cause) =>
               Effect.logError("Search failed", cause),
             ),
+            Effect.mapError(({ message }) => ({ message })),
+          ),
+
+        opcua_datatype_definition: ({ dataType }) =>
+          Effect.gen(function* () {
+            yield* indexer.ensureReady
+            const byNodeId = yield* graph.getNode(dataType.trim())
+            const matches = Option.isSome(byNodeId)
+              ? [byNodeId.value.node]
+              : (yield* graph.getAllNodes())
+                  .map((entry) => entry.node)
+                  .filter(
+                    (node) =>
+                      node.nodeClass === "DataType" &&
+                      node.browseName === dataType.trim(),
+                  )
+
+            return {
+              dataTypes: matches
+                .filter((node) => node.nodeClass === "DataType")
+                .map((node) => ({
+                  nodeId: node.nodeId.toString(),
+                  browseName: node.browseName,
+                  namespaceUri: node.namespaceUri,
+                  definition: node.definition,
+                })),
+            }
+          }).pipe(
+            Effect.withSpan("opcua_datatype_definition", {
+              attributes: { dataType },
+            }),
+            Effect.tapErrorCause((cause) =>
+              Effect.logError("DataType definition lookup failed", cause),
+            ),
+            Effect.mapError(({ message }) => ({ message })),
+          ),
+
+        opcua_type_hierarchy: ({ type }) =>
+          whenReady(hierarchy.describe(type)).pipe(
+            Effect.withSpan("opcua_type_hierarchy", { attributes: { type } }),
+            Effect.tapErrorCause((cause) =>
+              Effect.logError("Type hierarchy lookup failed", cause),
+            ),
+            Effect.mapError(({ message }) => ({ message })),
+          ),
+
+        opcua_browse: (request) =>
+          whenReady(browser.browse(request)).pipe(
+            Effect.withSpan("opcua_browse", {
+              attributes: { nodeId: request.nodeId },
+            }),
+            Effect.tapErrorCause((cause) =>
+              Effect.logError("Browse failed", cause),
+            ),
+            Effect.mapError(({ message }) => ({ message })),
+          ),
+
+        opcua_translate_browse_path: ({ startNodeId, path }) =>
+          whenReady(browsePaths.translate(startNodeId, path)).pipe(
+            Effect.withSpan("opcua_translate_browse_path", {
+              attributes: { startNodeId, path },
+            }),
+            Effect.tapErrorCause((cause) =>
+              Effect.logError("Browse path translation failed", cause),
+            ),
+            Effect.mapError(({ message }) => ({ message })),
+          ),
+
+        load_opcua_nodeset: ({ slug }) =>
+          Effect.gen(function* () {
+            // Also the way out when startup left nothing indexed
+            yield* indexer.ensureWarmedUp
+            return yield* indexer.load(slug)
+          }).pipe(
+            Effect.withSpan("load_opcua_nodeset", { attributes: { slug } }),
+            Effect.catchAll(toToolFailure("NodeSet loading failed")),
           ),
 
         get_opcua_doc: ({ documentId, page }) =>
           Effect.gen(function* () {
             const pageNum: number = page ?? 1
-            const pageSize = 1000
-            const content = yield* cache.get(documentId)
+            yield* indexer.ensureReady
+            const document = yield* index.resolve(documentId)
+            const content = yield* cache.get(
+              Data.tuple(yield* graph.revision(), document.id),
+            )
             const lines = content.split("\n")
             const pages = Math.ceil(lines.length / pageSize)
             const offset = (pageNum - 1) * pageSize
@@ -260,11 +662,25 @@ const ToolkitHandlers = toolkit
             Effect.tapErrorCause((cause) =>
               Effect.logError("Document retrieval failed", cause),
             ),
+            Effect.mapError(({ message }) => ({ message })),
           ),
+
+        opcua_server_status: () =>
+          indexer.status().pipe(Effect.withSpan("opcua_server_status")),
       } as const
     }),
   )
-  .pipe(Layer.provide([NodeSetCatalog.Default, NodeSetLoader.Default, NodeGraph.Default]))
+  .pipe(
+    Layer.provide([
+      NodeGraph.Default,
+      NodeSearchIndex.Default,
+      NodeSetIndexer.Default,
+      TypeHierarchy.Default,
+      NodeBrowser.Default,
+      BrowsePathResolver.Default,
+      ServerConfig.Default,
+    ]),
+  )
 
 // Register the toolkit with the MCP server
 export const OpcUaDocsTools = McpServer.toolkit(toolkit).pipe(
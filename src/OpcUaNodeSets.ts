@@ -1,15 +1,32 @@
 import { Effect, Layer, Schema } from "effect"
 import { McpServer, Tool, Toolkit } from "@effect/ai"
+import { NamespaceTable } from "./opcua/NamespaceTable.js"
 import { NodeSetCatalog } from "./opcua/NodeSetCatalog.js"
+import { NodeSetDiff } from "./opcua/NodeSetDiff.js"
+import { NodeSetIndexer } from "./opcua/NodeSetIndexer.js"
 import { NodeSetLoader } from "./opcua/NodeSetLoader.js"
-import { NodeSetCatalogEntry } from "./opcua/types.js"
+import { NodeSetUpdater } from "./opcua/NodeSetUpdater.js"
+import { NodeSetValidator } from "./opcua/NodeSetValidator.js"
+import { writeNodeSetXml } from "./opcua/NodeSetWriter.js"
+import {
+  NodeSet,
+  NodeSetCatalogEntry,
+  NodeSetDiagnostic,
+  NodeSetDiffReport,
+  NodeSetLockUpdate,
+} from "./opcua/types.js"
 
 const NodeSetListResult = Schema.Struct({
   entries: Schema.Array(NodeSetCatalogEntry),
 })
 
 const NodeSetIngestFields = {
-  url: Schema.String,
+  url: Schema.String.pipe(
+    Schema.annotations({
+      description:
+        "HTTP(S) URL, file:// URL or filesystem path of a NodeSet2 XML file, or a directory containing *.NodeSet2.xml files. For directories each file becomes its own catalog entry and `slug` is used as the slug prefix.",
+    }),
+  ),
   slug: Schema.optional(Schema.String),
   name: Schema.optional(Schema.String),
   description: Schema.optional(Schema.String),
@@ -17,14 +34,25 @@ const NodeSetIngestFields = {
   documentationUrl: Schema.optional(Schema.String),
   tags: Schema.optional(Schema.Array(Schema.String)),
   namespaceUris: Schema.optional(Schema.Array(Schema.String)),
-  dependencies: Schema.optional(Schema.Array(Schema.String)),
+  dependencies: Schema.optional(
+    Schema.Array(Schema.String).pipe(
+      Schema.annotations({
+        description:
+          "Catalog slugs this NodeSet depends on. Models listed in the NodeSet's <RequiredModel> header are added automatically when the catalog provides them.",
+      }),
+    ),
+  ),
   defaultSelection: Schema.optional(Schema.Boolean),
 } as const
 
 const NodeSetIngestParameters = Schema.Struct(NodeSetIngestFields)
 const NodeSetIngestResult = Schema.Struct({
-  entry: NodeSetCatalogEntry,
-  nodeCount: Schema.Number,
+  ingested: Schema.Array(
+    Schema.Struct({
+      entry: NodeSetCatalogEntry,
+      nodeCount: Schema.Number,
+    }),
+  ),
 })
 const NodeSetIngestFailure = Schema.Struct({
   message: Schema.String,
@@ -32,6 +60,47 @@ const NodeSetIngestFailure = Schema.Struct({
 
 type NodeSetIngestInput = Schema.Schema.Type<typeof NodeSetIngestParameters>
 
+const NodeSetValidateResult = Schema.Struct({
+  slug: Schema.String,
+  nodeCount: Schema.Number,
+  errors: Schema.Number,
+  warnings: Schema.Number,
+  infos: Schema.Number,
+  diagnostics: Schema.Array(NodeSetDiagnostic),
+  truncated: Schema.Boolean,
+})
+
+const DEFAULT_DIAGNOSTIC_LIMIT = 200
+
+const NodeSetDiffSide = Schema.Struct({
+  source: Schema.String,
+  slug: Schema.String,
+  version: Schema.optional(Schema.String),
+  nodeCount: Schema.Number,
+})
+
+const NodeSetDiffResult = Schema.Struct({
+  base: NodeSetDiffSide,
+  target: NodeSetDiffSide,
+  counts: Schema.Struct({
+    added: Schema.Number,
+    removed: Schema.Number,
+    changed: Schema.Number,
+    breaking: Schema.Number,
+    additive: Schema.Number,
+  }),
+  ...NodeSetDiffReport.fields,
+  truncated: Schema.Boolean,
+})
+
+const DEFAULT_DIFF_LIMIT = 200
+
+const NodeSetExportResult = Schema.Struct({
+  slug: Schema.String,
+  nodeCount: Schema.Number,
+  xml: Schema.String,
+})
+
 const OpcUaNodeSetList = Tool.make("opcua_nodeset_list", {
   description:
     "Lists all available OPC UA NodeSet catalog entries with metadata and dependencies.",
@@ -43,7 +112,7 @@ const OpcUaNodeSetList = Tool.make("opcua_nodeset_list", {
 
 const OpcUaNodeSetIngest = Tool.make("opcua_nodeset_ingest", {
   description:
-    "Downloads and ingests a new OPC UA NodeSet into the catalog and persistent cache.",
+    "Downloads or reads and ingests OPC UA NodeSets (remote URL, local file or directory) into the catalog and persistent cache, and indexes them so they are searchable right away.",
   parameters: NodeSetIngestFields,
   success: NodeSetIngestResult,
   failure: NodeSetIngestFailure,
@@ -51,13 +120,129 @@ const OpcUaNodeSetIngest = Tool.make("opcua_nodeset_ingest", {
   .annotate(Tool.Readonly, false)
   .annotate(Tool.Destructive, true)
 
-const toolkit = Toolkit.make(OpcUaNodeSetList, OpcUaNodeSetIngest)
+const OpcUaNodeSetValidate = Tool.make("opcua_nodeset_validate", {
+  description:
+    "Validates a NodeSet from the catalog against itself and the NodeSets it depends on. Returns diagnostics (severity, NodeId, rule, message) for duplicate NodeIds, references to missing nodes or types, instances without HasTypeDefinition, InstanceDeclarations without ModellingRule, BrowseName namespace mismatches, non-symmetric ReferenceTypes without InverseName, undefined aliases and DataType definitions using unknown types.",
+  parameters: {
+    slug: Schema.String.pipe(
+      Schema.annotations({ description: "Catalog slug of the NodeSet" }),
+    ),
+    limit: Schema.optional(
+      Schema.Number.pipe(
+        Schema.annotations({
+          description: `Maximum number of diagnostics to return, most severe first (defaults to ${DEFAULT_DIAGNOSTIC_LIMIT})`,
+        }),
+      ),
+    ),
+  },
+  success: NodeSetValidateResult,
+  failure: NodeSetIngestFailure,
+})
+  .annotate(Tool.Readonly, true)
+  .annotate(Tool.Destructive, false)
+
+const OpcUaNodeSetExport = Tool.make("opcua_nodeset_export", {
+  description:
+    "Exports a NodeSet from the catalog as NodeSet2 XML with its NamespaceUris, Models, Aliases, node attributes, references, values and DataType definitions. Pass nodeIds to export only those nodes.",
+  parameters: {
+    slug: Schema.String.pipe(
+      Schema.annotations({ description: "Catalog slug of the NodeSet" }),
+    ),
+    nodeIds: Schema.optional(
+      Schema.Array(Schema.String).pipe(
+        Schema.annotations({
+          description:
+            "NodeIds to export, as returned by the other tools (e.g. `nsu=http://opcfoundation.org/UA/DI/;i=1001`) or with a namespace index of the server (`ns=2;i=1001`). Only the aliases these nodes use are written.",
+        }),
+      ),
+    ),
+  },
+  success: NodeSetExportResult,
+  failure: NodeSetIngestFailure,
+})
+  .annotate(Tool.Readonly, true)
+  .annotate(Tool.Destructive, false)
+
+const NodeSetDiffSource = Schema.String.pipe(
+  Schema.annotations({
+    description:
+      "Catalog slug, `slug@ref` for the NodeSet at another tag or commit of the OPC Foundation UA-Nodeset repository, or a NodeSet2 XML file path or URL",
+  }),
+)
+
+const OpcUaNodeSetDiff = Tool.make("opcua_nodeset_diff", {
+  description:
+    "Compares two versions of a NodeSet. Nodes are matched by namespace URI and identifier. Reports added, removed and changed nodes with their attribute, reference and DataType field changes, and lists breaking changes (removed types or mandatory components, changed data types, value ranks, type definitions or supertypes, removed enum values, incompatible DataType field changes) separately from additive ones.",
+  parameters: {
+    base: NodeSetDiffSource,
+    target: NodeSetDiffSource,
+    limit: Schema.optional(
+      Schema.Number.pipe(
+        Schema.annotations({
+          description: `Maximum number of entries returned per list (defaults to ${DEFAULT_DIFF_LIMIT})`,
+        }),
+      ),
+    ),
+  },
+  success: NodeSetDiffResult,
+  failure: NodeSetIngestFailure,
+})
+  .annotate(Tool.Readonly, true)
+  .annotate(Tool.Destructive, false)
+
+const OpcUaNodeSetUpdate = Tool.make("opcua_nodeset_update", {
+  description:
+    "Checks the GitHub NodeSet repository for a newer commit of the configured ref than the one pinned in the lock file (opcua-nodesets.lock.json). Reports the NodeSets that were added upstream, and the locked NodeSets that changed or were removed upstream, with their blob SHAs, versions and publication dates. Pass apply to write the new commit to the lock file; NodeSets are then read at that commit, already indexed ones after a restart.",
+  parameters: {
+    apply: Schema.optional(
+      Schema.Boolean.pipe(
+        Schema.annotations({
+          description:
+            "Write the latest commit to the lock file (defaults to false, which only reports the changes)",
+        }),
+      ),
+    ),
+  },
+  success: NodeSetLockUpdate,
+  failure: NodeSetIngestFailure,
+})
+  .annotate(Tool.Readonly, false)
+  .annotate(Tool.Destructive, false)
+
+const toolkit = Toolkit.make(
+  OpcUaNodeSetList,
+  OpcUaNodeSetIngest,
+  OpcUaNodeSetValidate,
+  OpcUaNodeSetExport,
+  OpcUaNodeSetDiff,
+  OpcUaNodeSetUpdate,
+)
+
+// Logs the error and fails the tool call with its message
+export const toToolFailure = (label: string) => (error: unknown) =>
+  Effect.gen(function* () {
+    const message =
+      error instanceof Error && error.message !== ""
+        ? error.message
+        : typeof error === "string"
+          ? error
+          : label
+
+    yield* Effect.logError(label, error)
+
+    return yield* Effect.fail({ message })
+  })
 
 const handlers = toolkit
   .toLayer(
     Effect.gen(function* () {
       const catalog = yield* NodeSetCatalog
       const loader = yield* NodeSetLoader
+      const validator = yield* NodeSetValidator
+      const differ = yield* NodeSetDiff
+      const updater = yield* NodeSetUpdater
+      const indexer = yield* NodeSetIndexer
+      const namespaceTable = yield* NamespaceTable
 
       return {
         opcua_nodeset_list: () =>
@@ -72,39 +257,172 @@ const handlers = toolkit
           ),
         opcua_nodeset_ingest: (params: NodeSetIngestInput) =>
           Effect.gen(function* () {
-            const { entry, nodeSet } = yield* loader.ingestNodeSet(params)
+            const ingested = yield* loader.ingest(params)
+            // Searchable and browsable without waiting for a restart
+            yield* Effect.forEach(
+              ingested,
+              ({ entry }) => indexer.load(entry.slug),
+              { discard: true },
+            )
 
             yield* Effect.logInfo(
-              `Ingested NodeSet ${entry.slug} from ${params.url}`,
+              `Ingested ${ingested.length} NodeSet(s) from ${params.url}: ${ingested
+                .map(({ entry }) => entry.slug)
+                .join(", ")}`,
             )
 
             return {
-              entry,
-              nodeCount: nodeSet.nodes.length,
+              ingested: ingested.map(({ entry, nodeSet }) => ({
+                entry,
+                nodeCount: nodeSet.nodes.length,
+              })),
             }
           }).pipe(
             Effect.withSpan("opcua_nodeset_ingest", {
               attributes: { slug: params.slug ?? "generated", url: params.url },
             }),
-            Effect.catchAll((error) =>
-              Effect.gen(function* () {
-                const message =
-                  error instanceof Error
-                    ? error.message
-                    : typeof error === "string"
-                      ? error
-                      : "NodeSet ingestion failed"
-
-                yield* Effect.logError("NodeSet ingestion failed", error)
-
-                return yield* Effect.fail({ message })
+            Effect.catchAll(toToolFailure("NodeSet ingestion failed")),
+          ),
+        opcua_nodeset_validate: ({ slug, limit }) =>
+          Effect.gen(function* () {
+            const { entry, nodeSet, diagnostics } =
+              yield* validator.validateSlug(slug)
+            const count = (severity: NodeSetDiagnostic["severity"]) =>
+              diagnostics.filter((d) => d.severity === severity).length
+            const max = limit ?? DEFAULT_DIAGNOSTIC_LIMIT
+
+            return {
+              slug: entry.slug,
+              nodeCount: nodeSet.nodes.length,
+              errors: count("error"),
+              warnings: count("warning"),
+              infos: count("info"),
+              diagnostics: diagnostics.slice(0, max),
+              truncated: diagnostics.length > max,
+            }
+          }).pipe(
+            Effect.withSpan("opcua_nodeset_validate", { attributes: { slug } }),
+            Effect.catchAll(toToolFailure("NodeSet validation failed")),
+          ),
+        opcua_nodeset_export: ({ slug, nodeIds }) =>
+          Effect.gen(function* () {
+            const nodeSet = yield* loader.loadNodeSetBySlug(slug)
+            if (nodeIds === undefined) {
+              return {
+                slug,
+                nodeCount: nodeSet.nodes.length,
+                xml: writeNodeSetXml(nodeSet),
+              }
+            }
+
+            // Requested NodeId by its normalized form, which loaded nodes use
+            const wanted = new Map(
+              yield* Effect.forEach(nodeIds, (nodeId) =>
+                namespaceTable
+                  .normalizeNodeId(nodeId)
+                  .pipe(
+                    Effect.map(
+                      (normalized) => [normalized, nodeId.trim()] as const,
+                    ),
+                  ),
+              ),
+            )
+            const nodes = nodeSet.nodes.filter((node) =>
+              wanted.has(node.nodeId.toString()),
+            )
+            const found = new Set(nodes.map((node) => node.nodeId.toString()))
+            const missing = [...wanted]
+              .filter(([normalized]) => !found.has(normalized))
+              .map(([, nodeId]) => nodeId)
+            if (missing.length > 0) {
+              return yield* Effect.fail(
+                `NodeSet ${slug} does not contain ${missing.join(", ")}`,
+              )
+            }
+
+            return {
+              slug,
+              nodeCount: nodes.length,
+              xml: writeNodeSetXml(new NodeSet({ ...nodeSet, nodes }, true), {
+                pruneAliases: true,
               }),
-            ),
+            }
+          }).pipe(
+            Effect.withSpan("opcua_nodeset_export", { attributes: { slug } }),
+            Effect.catchAll(toToolFailure("NodeSet export failed")),
+          ),
+        opcua_nodeset_diff: ({ base, target, limit }) =>
+          Effect.gen(function* () {
+            const result = yield* differ.diffSources(base, target)
+            const { report } = result
+            const max = limit ?? DEFAULT_DIFF_LIMIT
+            const side = (
+              source: string,
+              { entry, nodeSet }: typeof result.base,
+            ) => ({
+              source,
+              slug: entry.slug,
+              version: nodeSet.models[0]?.version,
+              nodeCount: nodeSet.nodes.length,
+            })
+            const lists = [
+              report.added,
+              report.removed,
+              report.changed,
+              report.breaking,
+              report.additive,
+            ]
+
+            return {
+              base: side(base, result.base),
+              target: side(target, result.target),
+              counts: {
+                added: report.added.length,
+                removed: report.removed.length,
+                changed: report.changed.length,
+                breaking: report.breaking.length,
+                additive: report.additive.length,
+              },
+              added: report.added.slice(0, max),
+              removed: report.removed.slice(0, max),
+              changed: report.changed.slice(0, max),
+              breaking: report.breaking.slice(0, max),
+              additive: report.additive.slice(0, max),
+              truncated: lists.some((list) => list.length > max),
+            }
+          }).pipe(
+            Effect.withSpan("opcua_nodeset_diff", {
+              attributes: { base, target },
+            }),
+            Effect.catchAll(toToolFailure("NodeSet diff failed")),
+          ),
+        opcua_nodeset_update: ({ apply }) =>
+          Effect.gen(function* () {
+            if (apply === true) {
+              return yield* updater.apply()
+            }
+            const { update } = yield* updater.plan()
+            return update
+          }).pipe(
+            Effect.withSpan("opcua_nodeset_update", {
+              attributes: { apply: apply === true },
+            }),
+            Effect.catchAll(toToolFailure("NodeSet update failed")),
           ),
       } as const
     }),
   )
-  .pipe(Layer.provide([NodeSetCatalog.Default, NodeSetLoader.Default]))
+  .pipe(
+    Layer.provide([
+      NodeSetCatalog.Default,
+      NodeSetLoader.Default,
+      NodeSetValidator.Default,
+      NodeSetDiff.Default,
+      NodeSetUpdater.Default,
+      NodeSetIndexer.Default,
+      NamespaceTable.Default,
+    ]),
+  )
 
 export const OpcUaNodeSetTools = McpServer.toolkit(toolkit).pipe(
   Layer.provideMerge(handlers),
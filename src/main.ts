@@ -1,5 +1,6 @@
 #!/usr/bin/env node
-import { Layer, Logger, LogLevel } from "effect"
+import { Console, Effect, Layer, Logger, Option, Record } from "effect"
+import { Command, Options } from "@effect/cli"
 import {
   NodeStream,
   NodeSink,
@@ -9,13 +10,24 @@ import {
 import { OpcUaDocsTools } from "./OpcUaDocs.js"
 import { OpcUaNodeSetTools } from "./OpcUaNodeSets.js"
 import { OpcUaGuides } from "./OpcUaGuides.js"
+import {
+  CONFIG_FILE_NAME,
+  ServerConfig,
+  settingsProvider,
+} from "./opcua/ServerConfig.js"
 import { McpServer } from "@effect/ai"
 import { KeyValueStore } from "@effect/platform"
 
-// Compose all MCP features and launch
-McpServer.layerStdio({
+const VERSION = "0.1.0"
+
+const LogLevelFromConfig = Layer.unwrapEffect(
+  Effect.map(ServerConfig, (config) => Logger.minimumLogLevel(config.logLevel)),
+).pipe(Layer.provide(ServerConfig.Default))
+
+// Compose all MCP features
+const Server = McpServer.layerStdio({
   name: "opcua-mcp",
-  version: "0.1.0",
+  version: VERSION,
   stdin: NodeStream.stdin,
   stdout: NodeSink.stdout,
 }).pipe(
@@ -24,8 +36,102 @@ McpServer.layerStdio({
     Layer.mergeAll(OpcUaDocsTools, OpcUaNodeSetTools, OpcUaGuides),
   ),
   Layer.provide(KeyValueStore.layerMemory),
-  Layer.provide(Logger.minimumLogLevel(LogLevel.Info)),
+  Layer.provide(LogLevelFromConfig),
+)
 
-  Layer.launch,
-  NodeRuntime.runMain,
+// Every flag can also be set as an `OPCUA_MCP_*` environment variable or in
+// the config file; flags take precedence
+const flags = {
+  config: Options.text("config").pipe(
+    Options.withDescription(
+      `Config file, defaults to ${CONFIG_FILE_NAME} in the working directory`,
+    ),
+    Options.optional,
+  ),
+  cacheDir: Options.text("cache-dir").pipe(
+    Options.withDescription(
+      "Directory of the persisted NodeSets, embeddings and search snapshots",
+    ),
+    Options.optional,
+  ),
+  githubRepo: Options.text("github-repo").pipe(
+    Options.withDescription(
+      "GitHub repository (owner/name) the NodeSet catalog is read from",
+    ),
+    Options.optional,
+  ),
+  githubRef: Options.text("github-ref").pipe(
+    Options.withDescription("Tag, branch or commit of the GitHub repository"),
+    Options.optional,
+  ),
+  preload: Options.text("preload").pipe(
+    Options.withDescription(
+      "Catalog slug to index at startup instead of the defaults; repeat for several",
+    ),
+    Options.repeated,
+  ),
+  nodesetDirs: Options.text("nodeset-dir").pipe(
+    Options.withDescription(
+      "Directory of *.NodeSet2.xml files to add to the catalog; repeat for several",
+    ),
+    Options.repeated,
+  ),
+  concurrency: Options.integer("concurrency").pipe(
+    Options.withDescription("NodeSets fetched and parsed at the same time"),
+    Options.optional,
+  ),
+  logLevel: Options.text("log-level").pipe(
+    Options.withDescription(
+      "Minimum log level: all, trace, debug, info, warn, error, fatal or none",
+    ),
+    Options.optional,
+  ),
+  pageSize: Options.integer("page-size").pipe(
+    Options.withDescription("Lines per page of get_opcua_doc"),
+    Options.optional,
+  ),
+  lockFile: Options.text("lock-file").pipe(
+    Options.withDescription(
+      "Lock file pinning the catalog NodeSets to a commit, defaults to opcua-nodesets.lock.json",
+    ),
+    Options.optional,
+  ),
+}
+
+// Startup errors are printed on their own, without a stack trace, as logs go
+// to stdout
+const exitWithError = (message: string) =>
+  Console.error(message).pipe(
+    Effect.zipRight(
+      Effect.sync(() => {
+        process.exitCode = 1
+      }),
+    ),
+  )
+
+const command = Command.make(
+  "opc-ua-mcp",
+  flags,
+  ({ preload, nodesetDirs, concurrency, pageSize, ...options }) =>
+    Layer.launch(Server).pipe(
+      Effect.withConfigProvider(
+        settingsProvider({
+          ...Record.getSomes({
+            ...options,
+            concurrency: Option.map(concurrency, String),
+            pageSize: Option.map(pageSize, String),
+          }),
+          ...(preload.length > 0 && { preload }),
+          ...(nodesetDirs.length > 0 && { nodesetDirs }),
+        }),
+      ),
+      Effect.catchTags({
+        ServerConfigError: (error) => exitWithError(error.message),
+        NodeSetLockError: (error) => exitWithError(error.message),
+      }),
+    ),
 )
+
+Command.run(command, { name: "opc-ua-mcp", version: VERSION })(
+  process.argv,
+).pipe(Effect.provide(NodeContext.layer), NodeRuntime.runMain)
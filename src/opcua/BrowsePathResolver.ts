@@ -0,0 +1,213 @@
+import { Data, Effect, Option } from "effect"
+import {
+  BrowsePathResult,
+  CORE_NAMESPACE_URI,
+  ReferenceDescription,
+} from "./types.js"
+import { NamespaceTable } from "./NamespaceTable.js"
+import { NodeBrowser } from "./NodeBrowser.js"
+import { NodeGraph } from "./NodeGraph.js"
+import { ObjectIds } from "./StandardNodes.js"
+import {
+  parseRelativePath,
+  type RelativePathElement,
+  type RelativePathName,
+} from "./RelativePath.js"
+
+export class BrowsePathError extends Data.TaggedError("BrowsePathError")<{
+  readonly message: string
+}> {}
+
+const MAX_LISTED = 20
+
+const matchesName = (
+  reference: ReferenceDescription,
+  name: RelativePathName,
+  namespaceUri: string | undefined,
+) =>
+  (name.name === "" || reference.browseName === name.name) &&
+  (namespaceUri === undefined ||
+    (reference.browseNameNamespaceUri ?? CORE_NAMESPACE_URI) === namespaceUri)
+
+const listed = (values: ReadonlyArray<string>) =>
+  values.length > MAX_LISTED
+    ? `${values.slice(0, MAX_LISTED).join(", ")} and ${values.length - MAX_LISTED} more`
+    : values.join(", ")
+
+export class BrowsePathResolver extends Effect.Service<BrowsePathResolver>()(
+  "BrowsePathResolver",
+  {
+    effect: Effect.gen(function* () {
+      const graph = yield* NodeGraph
+      const browser = yield* NodeBrowser
+      const namespaceTable = yield* NamespaceTable
+
+      const namespaceUri = Effect.fn("BrowsePathResolver.namespaceUri")(
+        function* (namespaceIndex: number | undefined) {
+          if (namespaceIndex === undefined) return undefined
+          const uri = yield* namespaceTable.uriAt(namespaceIndex)
+          if (uri !== undefined) return uri
+          const uris = yield* namespaceTable.list()
+          return yield* Effect.fail(
+            new BrowsePathError({
+              message: `Unknown namespace index ${namespaceIndex}, the server namespaces are ${uris
+                .map((uri, index) => `${index}: ${uri}`)
+                .join(", ")}`,
+            }),
+          )
+        },
+      )
+
+      // BrowseName in the `1:Name` form used by RelativePaths
+      const qualifiedName = (reference: ReferenceDescription) =>
+        reference.browseName === undefined
+          ? Effect.succeed(reference.nodeId)
+          : namespaceTable
+              .indexOf(reference.browseNameNamespaceUri ?? CORE_NAMESPACE_URI)
+              .pipe(
+                Effect.map((index) => `${index ?? ""}:${reference.browseName}`),
+              )
+
+      // Nodes whose references are searched for an element: the node itself
+      // and, for types, its supertypes since subtypes inherit their
+      // InstanceDeclarations without referencing them
+      const searchLevels = Effect.fn("BrowsePathResolver.searchLevels")(
+        function* (nodeId: string) {
+          const levels = [nodeId]
+          const node = yield* graph.getNode(nodeId)
+          const isType = Option.exists(
+            node,
+            (entry) =>
+              entry.node.nodeClass === "ObjectType" ||
+              entry.node.nodeClass === "VariableType",
+          )
+          let supertype = isType
+            ? yield* graph.getSupertype(nodeId)
+            : Option.none<string>()
+          while (
+            Option.isSome(supertype) &&
+            !levels.includes(supertype.value) &&
+            Option.isSome(yield* graph.getNode(supertype.value))
+          ) {
+            levels.push(supertype.value)
+            supertype = yield* graph.getSupertype(supertype.value)
+          }
+          return levels
+        },
+      )
+
+      // References of the node matching the element's ReferenceType. Each
+      // level holds the references of one node from searchLevels
+      const candidates = Effect.fn("BrowsePathResolver.candidates")(function* (
+        nodeId: string,
+        element: RelativePathElement,
+        referenceTypeId: string,
+      ) {
+        return yield* Effect.forEach(yield* searchLevels(nodeId), (levelId) =>
+          browser
+            .browse({
+              nodeId: levelId,
+              direction: element.isInverse ? "inverse" : "forward",
+              referenceType: referenceTypeId,
+              includeSubtypes: element.includeSubtypes,
+              maxReferences: 0,
+            })
+            .pipe(Effect.map((result) => result.references)),
+        )
+      })
+
+      // TranslateBrowsePathsToNodeIds (Part 4, 5.8.4) for a single path
+      const translate = Effect.fn("BrowsePathResolver.translate")(function* (
+        startNodeId: string | undefined,
+        path: string,
+      ) {
+        const start = startNodeId?.trim()
+          ? yield* namespaceTable.normalizeNodeId(startNodeId)
+          : ObjectIds.Root
+        const elements = yield* parseRelativePath(path.trim())
+        if (elements.length === 0) {
+          return yield* Effect.fail(
+            new BrowsePathError({ message: "The RelativePath is empty" }),
+          )
+        }
+        if (Option.isNone(yield* graph.getNode(start))) {
+          return yield* Effect.fail(
+            new BrowsePathError({ message: `Unknown NodeId ${start}` }),
+          )
+        }
+
+        let currentIds: ReadonlyArray<string> = [start]
+        let targets: ReadonlyArray<ReferenceDescription> = []
+        for (const [index, element] of elements.entries()) {
+          const referenceTypeId = yield* browser.resolveReferenceType(
+            element.referenceType.name,
+            yield* namespaceUri(element.referenceType.namespaceIndex),
+          )
+          const targetUri = yield* namespaceUri(
+            element.targetName.namespaceIndex,
+          )
+
+          const next = new Map<string, ReferenceDescription>()
+          const available = new Set<string>()
+          for (const nodeId of currentIds) {
+            const levels = yield* candidates(nodeId, element, referenceTypeId)
+            // The nearest level with a match wins, so an overriding
+            // InstanceDeclaration hides the inherited one
+            const matches =
+              levels
+                .map((references) =>
+                  references.filter((reference) =>
+                    matchesName(reference, element.targetName, targetUri),
+                  ),
+                )
+                .find((matches) => matches.length > 0) ?? []
+            for (const match of matches) {
+              if (!next.has(match.nodeId)) next.set(match.nodeId, match)
+            }
+            for (const reference of levels.flat()) {
+              available.add(yield* qualifiedName(reference))
+            }
+          }
+
+          if (next.size === 0) {
+            const resolved = elements
+              .slice(0, index)
+              .map((element) => element.text)
+              .join("")
+            return yield* Effect.fail(
+              new BrowsePathError({
+                message: [
+                  `No match for \`${element.text}\` (element ${index + 1} of ${elements.length})`,
+                  resolved
+                    ? ` after \`${resolved}\` resolved to ${listed(currentIds)}.`
+                    : ` from ${start}.`,
+                  available.size > 0
+                    ? ` Available targets: ${listed([...available])}`
+                    : " The node has no references of that type.",
+                ].join(""),
+              }),
+            )
+          }
+
+          targets = [...next.values()]
+          currentIds = [...next.keys()]
+        }
+
+        yield* Effect.annotateCurrentSpan({
+          startNodeId: start,
+          elements: elements.length,
+          targets: targets.length,
+        })
+
+        return new BrowsePathResult({ startNodeId: start, path, targets }, true)
+      })
+
+      return { translate } as const
+    }),
+    dependencies: [
+      NodeGraph.Default,
+      NodeBrowser.Default,
+      NamespaceTable.Default,
+    ],
+  },
+) {}
@@ -0,0 +1,88 @@
+import { Data, Effect, Layer } from "effect"
+import { tokenize } from "./SearchText.js"
+
+export class EmbeddingError extends Data.TaggedError("EmbeddingError")<{
+  readonly message: string
+  readonly cause?: unknown
+}> {}
+
+// Turns texts into unit-length vectors. `model` identifies the vector space;
+// vectors of different models are never compared or reused
+export interface EmbeddingProvider {
+  readonly model: string
+  readonly dimensions: number
+  readonly embed: (
+    texts: ReadonlyArray<string>,
+  ) => Effect.Effect<ReadonlyArray<Float32Array>, EmbeddingError>
+}
+
+// FNV-1a, 32 bit
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+const TRIGRAM_WEIGHT = 0.5
+
+// Question words and fillers of natural language queries. They carry no
+// meaning in node names and would otherwise outweigh the identifiers
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be by can do does for from has have how i in is it " +
+    "its my of on or should that the this to use what when where which who " +
+    "why will with"
+  ).split(" "),
+)
+
+// Feature hashing of terms and their character trigrams. Runs on the CPU
+// without a model download; texts sharing words or word stems (`spindle`,
+// `SpindleOverride`) end up close to each other
+export const hashingEmbedder = (dimensions = 512): EmbeddingProvider => {
+  const embedOne = (text: string) => {
+    const counts = new Map<string, number>()
+    const add = (feature: string, weight: number) =>
+      counts.set(feature, (counts.get(feature) ?? 0) + weight)
+    for (const term of tokenize(text)) {
+      if (STOPWORDS.has(term)) continue
+      add(term, 1)
+      const padded = `#${term}#`
+      for (let index = 0; index + 3 <= padded.length; index++) {
+        add(`~${padded.slice(index, index + 3)}`, TRIGRAM_WEIGHT)
+      }
+    }
+
+    const vector = new Float32Array(dimensions)
+    for (const [feature, count] of counts) {
+      const hash = hashString(feature)
+      // Signed hashing keeps collisions from only ever adding up
+      const sign = hash & 0x80000000 ? -1 : 1
+      vector[hash % dimensions] += sign * (1 + Math.log(count))
+    }
+    let norm = 0
+    for (const value of vector) norm += value * value
+    norm = Math.sqrt(norm)
+    if (norm > 0) {
+      for (let index = 0; index < dimensions; index++) vector[index] /= norm
+    }
+    return vector
+  }
+
+  return {
+    model: `hashing-${dimensions}`,
+    dimensions,
+    embed: (texts) => Effect.sync(() => texts.map(embedOne)),
+  }
+}
+
+// Embedding provider of the semantic search. Provide
+// `Embeddings.withProvider` to use another model
+export class Embeddings extends Effect.Service<Embeddings>()("Embeddings", {
+  succeed: hashingEmbedder(),
+}) {
+  static readonly withProvider = (provider: EmbeddingProvider) =>
+    Layer.succeed(Embeddings, Embeddings.make(provider))
+}
@@ -0,0 +1,159 @@
+import { Effect, SynchronizedRef } from "effect"
+import {
+  CORE_NAMESPACE_URI,
+  DataTypeDefinition,
+  DataTypeField,
+  NodeId,
+  NodeSet,
+  ParsedUANode,
+  Reference,
+} from "./types.js"
+import { NODE_ID_PATTERN, parseNodeId } from "./NodeSetParser.js"
+
+// Server-wide namespace table. Index 0 is always the OPC UA core namespace;
+// every other URI gets the next free index the first time a NodeSet uses it.
+export class NamespaceTable extends Effect.Service<NamespaceTable>()(
+  "NamespaceTable",
+  {
+    effect: Effect.gen(function* () {
+      const urisRef = yield* SynchronizedRef.make<ReadonlyArray<string>>([
+        CORE_NAMESPACE_URI,
+      ])
+
+      const registerAll = Effect.fn("NamespaceTable.registerAll")(function* (
+        uris: ReadonlyArray<string>,
+      ) {
+        return yield* SynchronizedRef.modify(urisRef, (current) => {
+          const next = [...current]
+          for (const uri of uris) {
+            if (!next.includes(uri)) {
+              next.push(uri)
+            }
+          }
+          return [next as ReadonlyArray<string>, next]
+        })
+      })
+
+      const register = (uri: string) =>
+        registerAll([uri]).pipe(Effect.map((uris) => uris.indexOf(uri)))
+
+      const indexOf = (uri: string) =>
+        SynchronizedRef.get(urisRef).pipe(
+          Effect.map((uris) => {
+            const index = uris.indexOf(uri)
+            return index >= 0 ? index : undefined
+          }),
+        )
+
+      const uriAt = (index: number) =>
+        SynchronizedRef.get(urisRef).pipe(Effect.map((uris) => uris[index]))
+
+      const list = () => SynchronizedRef.get(urisRef)
+
+      // `ns=1;i=...` refers to this table; every NodeId form is normalized to
+      // the ExpandedNodeId form the graph and search index are keyed by.
+      // Anything that is not a NodeId is only trimmed
+      const normalizeNodeId = (nodeId: string) =>
+        SynchronizedRef.get(urisRef).pipe(
+          Effect.map((uris) => {
+            const trimmed = nodeId.trim()
+            return NODE_ID_PATTERN.test(trimmed)
+              ? parseNodeId(trimmed, {
+                  uriAt: (index) => uris[index],
+                }).toString()
+              : trimmed
+          }),
+        )
+
+      // Rewrites every NodeId of the NodeSet to the server-wide namespace index
+      const remapNodeSet = Effect.fn("NamespaceTable.remapNodeSet")(function* (
+        nodeSet: NodeSet,
+      ) {
+        const referenced = new Set<string>()
+        for (const node of nodeSet.nodes) {
+          if (node.nodeId.namespaceUri) referenced.add(node.nodeId.namespaceUri)
+          for (const ref of node.references) {
+            if (ref.targetNodeId.namespaceUri) {
+              referenced.add(ref.targetNodeId.namespaceUri)
+            }
+          }
+        }
+
+        const uris = yield* registerAll([
+          ...nodeSet.namespaces.map((ns) => ns.uri),
+          ...referenced,
+        ])
+
+        const remapOptional = (nodeId: NodeId | undefined) =>
+          nodeId === undefined ? undefined : remapNodeId(nodeId)
+
+        const remapNodeId = (nodeId: NodeId): NodeId => {
+          if (nodeId.namespaceUri === undefined) return nodeId
+          const namespaceIndex = uris.indexOf(nodeId.namespaceUri)
+          return namespaceIndex === nodeId.namespaceIndex
+            ? nodeId
+            : new NodeId({ ...nodeId, namespaceIndex }, true)
+        }
+
+        const remapDefinition = (definition: DataTypeDefinition | undefined) =>
+          definition === undefined
+            ? undefined
+            : new DataTypeDefinition(
+                {
+                  ...definition,
+                  baseDataTypeId: remapOptional(definition.baseDataTypeId),
+                  fields: definition.fields.map(
+                    (field) =>
+                      new DataTypeField(
+                        {
+                          ...field,
+                          dataTypeId: remapOptional(field.dataTypeId),
+                        },
+                        true,
+                      ),
+                  ),
+                },
+                true,
+              )
+
+        const nodes = nodeSet.nodes.map(
+          (node) =>
+            new ParsedUANode(
+              {
+                ...node,
+                nodeId: remapNodeId(node.nodeId),
+                dataTypeId: remapOptional(node.dataTypeId),
+                parentNodeId: remapOptional(node.parentNodeId),
+                methodDeclarationId: remapOptional(node.methodDeclarationId),
+                definition: remapDefinition(node.definition),
+                references: node.references.map(
+                  (ref) =>
+                    new Reference(
+                      {
+                        ...ref,
+                        targetNodeId: remapNodeId(ref.targetNodeId),
+                        referenceTypeId: remapOptional(ref.referenceTypeId),
+                      },
+                      true,
+                    ),
+                ),
+              },
+              true,
+            ),
+        )
+
+        return new NodeSet({ ...nodeSet, nodes }, true)
+      })
+
+      return {
+        register,
+        registerAll,
+        indexOf,
+        uriAt,
+        list,
+        normalizeNodeId,
+        remapNodeSet,
+      } as const
+    }),
+  },
+) {}
@@ -0,0 +1,308 @@
+import { Data, Effect, Either, Encoding, Option, Schema } from "effect"
+import {
+  BrowseDirection,
+  BrowseResult,
+  CORE_NAMESPACE_URI,
+  NodeClass,
+  ReferenceDescription,
+  TypeReference,
+} from "./types.js"
+import { NamespaceTable } from "./NamespaceTable.js"
+import { NodeGraph, type NodeGraphReference } from "./NodeGraph.js"
+import { ReferenceTypeIds, standardBrowseNames } from "./StandardNodes.js"
+
+export class NodeBrowseError extends Data.TaggedError("NodeBrowseError")<{
+  readonly message: string
+}> {}
+
+export interface BrowseRequest {
+  readonly nodeId?: string
+  readonly direction?: BrowseDirection
+  readonly referenceType?: string // NodeId or BrowseName, defaults to References
+  readonly includeSubtypes?: boolean
+  readonly nodeClasses?: ReadonlyArray<NodeClass>
+  readonly maxReferences?: number // 0 returns all references
+  readonly continuationPoint?: string
+}
+
+const DEFAULT_MAX_REFERENCES = 100
+
+// Continuation points carry the whole browse state, so they stay valid across
+// calls without being stored on the server
+const BrowseState = Schema.Struct({
+  nodeId: Schema.String,
+  direction: BrowseDirection,
+  referenceTypeId: Schema.String,
+  includeSubtypes: Schema.Boolean,
+  nodeClasses: Schema.optional(Schema.Array(NodeClass)),
+  maxReferences: Schema.Number,
+  offset: Schema.Number,
+})
+type BrowseState = Schema.Schema.Type<typeof BrowseState>
+
+const decodeState = Schema.decodeUnknownEither(Schema.parseJson(BrowseState))
+const encodeState = Schema.encodeSync(Schema.parseJson(BrowseState))
+
+const standardReferenceTypeIds: ReadonlyMap<string, string> = new Map(
+  Object.entries(ReferenceTypeIds),
+)
+const standardReferenceTypeNames: ReadonlyMap<string, string> = new Map(
+  Object.entries(ReferenceTypeIds).map(([name, id]) => [id, name]),
+)
+
+export class NodeBrowser extends Effect.Service<NodeBrowser>()("NodeBrowser", {
+  effect: Effect.gen(function* () {
+    const graph = yield* NodeGraph
+    const namespaceTable = yield* NamespaceTable
+
+    const browseName = (nodeId: string) =>
+      graph.getNode(nodeId).pipe(
+        Effect.map(
+          Option.match({
+            onNone: () => standardBrowseNames.get(nodeId),
+            onSome: (entry) => entry.node.browseName,
+          }),
+        ),
+      )
+
+    // Resolves a ReferenceType given by NodeId or BrowseName, optionally
+    // restricted to the BrowseName namespace. Standard ReferenceTypes resolve
+    // without the core NodeSet being loaded
+    const resolveReferenceType = Effect.fn("NodeBrowser.resolveReferenceType")(
+      function* (referenceType: string, namespaceUri?: string) {
+        const query = yield* namespaceTable.normalizeNodeId(referenceType)
+        const byNodeId = yield* graph.getNode(query)
+        if (Option.isSome(byNodeId)) {
+          if (byNodeId.value.node.nodeClass !== "ReferenceType") {
+            return yield* Effect.fail(
+              new NodeBrowseError({
+                message: `${query} is not a ReferenceType but a node of class ${byNodeId.value.node.nodeClass}`,
+              }),
+            )
+          }
+          return query
+        }
+        if (standardReferenceTypeNames.has(query)) {
+          return query
+        }
+
+        const matches = (yield* graph.getAllNodes())
+          .map((entry) => entry.node)
+          .filter(
+            (node) =>
+              node.nodeClass === "ReferenceType" &&
+              node.browseName === query &&
+              (namespaceUri === undefined ||
+                (node.browseNameNamespaceUri ?? CORE_NAMESPACE_URI) ===
+                  namespaceUri),
+          )
+          .map((node) => node.nodeId.toString())
+        const standardId =
+          namespaceUri === undefined || namespaceUri === CORE_NAMESPACE_URI
+            ? standardReferenceTypeIds.get(query)
+            : undefined
+        if (standardId && !matches.includes(standardId)) {
+          matches.push(standardId)
+        }
+        if (matches.length === 1) {
+          return matches[0]
+        }
+        return yield* Effect.fail(
+          new NodeBrowseError({
+            message:
+              matches.length === 0
+                ? `Unknown ReferenceType ${query}`
+                : `ReferenceType ${query} is ambiguous, use one of the NodeIds: ${matches.join(", ")}`,
+          }),
+        )
+      },
+    )
+
+    // ReferenceType and its subtypes from the loaded ReferenceType hierarchy
+    const referenceTypeClosure = Effect.fn("NodeBrowser.referenceTypeClosure")(
+      function* (referenceTypeId: string) {
+        const closure = new Set([referenceTypeId])
+        const queue = [referenceTypeId]
+        while (queue.length > 0) {
+          for (const subtype of yield* graph.getSubtypes(queue.shift()!)) {
+            if (closure.has(subtype)) continue
+            closure.add(subtype)
+            queue.push(subtype)
+          }
+        }
+        return closure
+      },
+    )
+
+    const startState = Effect.fn("NodeBrowser.startState")(function* (
+      request: BrowseRequest,
+    ) {
+      if (request.continuationPoint !== undefined) {
+        const state = Either.flatMap(
+          Encoding.decodeBase64UrlString(request.continuationPoint),
+          decodeState,
+        )
+        if (Either.isLeft(state)) {
+          return yield* Effect.fail(
+            new NodeBrowseError({ message: "Invalid continuation point" }),
+          )
+        }
+        return {
+          ...state.right,
+          maxReferences: request.maxReferences ?? state.right.maxReferences,
+        }
+      }
+      if (request.nodeId === undefined) {
+        return yield* Effect.fail(
+          new NodeBrowseError({
+            message: "Either a NodeId or a continuation point is required",
+          }),
+        )
+      }
+      return {
+        nodeId: yield* namespaceTable.normalizeNodeId(request.nodeId),
+        direction: request.direction ?? "forward",
+        referenceTypeId:
+          request.referenceType === undefined
+            ? ReferenceTypeIds.References
+            : yield* resolveReferenceType(request.referenceType),
+        includeSubtypes: request.includeSubtypes ?? true,
+        nodeClasses:
+          request.nodeClasses && request.nodeClasses.length > 0
+            ? request.nodeClasses
+            : undefined,
+        maxReferences: request.maxReferences ?? DEFAULT_MAX_REFERENCES,
+        offset: 0,
+      } satisfies BrowseState
+    })
+
+    const describeReference = Effect.fn("NodeBrowser.describeReference")(
+      function* (reference: NodeGraphReference) {
+        const referenceTypeId =
+          reference.referenceTypeId ??
+          standardReferenceTypeIds.get(reference.referenceType)
+        const target = yield* graph.getNode(reference.nodeId)
+        const node = Option.getOrUndefined(target)?.node
+
+        let typeDefinition: TypeReference | undefined
+        if (node?.nodeClass === "Object" || node?.nodeClass === "Variable") {
+          const typeDefinitionId = (yield* graph.getReferences(
+            reference.nodeId,
+          )).find(
+            (ref) =>
+              ref.isForward &&
+              ref.referenceTypeId === ReferenceTypeIds.HasTypeDefinition,
+          )?.nodeId
+          if (typeDefinitionId) {
+            typeDefinition = new TypeReference(
+              {
+                nodeId: typeDefinitionId,
+                browseName: yield* browseName(typeDefinitionId),
+              },
+              true,
+            )
+          }
+        }
+
+        return new ReferenceDescription(
+          {
+            referenceType: new TypeReference(
+              {
+                nodeId: referenceTypeId ?? reference.referenceType,
+                browseName: reference.referenceType,
+              },
+              true,
+            ),
+            isForward: reference.isForward,
+            nodeId: reference.nodeId,
+            browseName:
+              node?.browseName ?? standardBrowseNames.get(reference.nodeId),
+            browseNameNamespaceUri: node?.browseNameNamespaceUri,
+            displayName: node?.displayName.text,
+            nodeClass: node?.nodeClass,
+            typeDefinition,
+          },
+          true,
+        )
+      },
+    )
+
+    // Browse service (Part 4, 5.8.2) over the loaded graph. Continuation
+    // points replace BrowseNext: passing one returns the next page
+    const browse = Effect.fn("NodeBrowser.browse")(function* (
+      request: BrowseRequest,
+    ) {
+      const state = yield* startState(request)
+      if (Option.isNone(yield* graph.getNode(state.nodeId))) {
+        return yield* Effect.fail(
+          new NodeBrowseError({ message: `Unknown NodeId ${state.nodeId}` }),
+        )
+      }
+
+      // Every ReferenceType is a subtype of References, including those whose
+      // alias could not be resolved
+      const matchesAll =
+        state.includeSubtypes &&
+        state.referenceTypeId === ReferenceTypeIds.References
+      const referenceTypes = state.includeSubtypes
+        ? yield* referenceTypeClosure(state.referenceTypeId)
+        : new Set([state.referenceTypeId])
+
+      const matching: NodeGraphReference[] = []
+      for (const reference of yield* graph.getReferences(state.nodeId)) {
+        if (state.direction === "forward" && !reference.isForward) continue
+        if (state.direction === "inverse" && reference.isForward) continue
+        const referenceTypeId =
+          reference.referenceTypeId ??
+          standardReferenceTypeIds.get(reference.referenceType)
+        if (
+          !matchesAll &&
+          (referenceTypeId === undefined ||
+            !referenceTypes.has(referenceTypeId))
+        ) {
+          continue
+        }
+        if (state.nodeClasses) {
+          const target = yield* graph.getNode(reference.nodeId)
+          if (
+            Option.isNone(target) ||
+            !state.nodeClasses.includes(target.value.node.nodeClass)
+          ) {
+            continue
+          }
+        }
+        matching.push(reference)
+      }
+
+      const end =
+        state.maxReferences > 0
+          ? state.offset + state.maxReferences
+          : matching.length
+      const references = yield* Effect.forEach(
+        matching.slice(state.offset, end),
+        describeReference,
+      )
+
+      yield* Effect.annotateCurrentSpan({
+        nodeId: state.nodeId,
+        matching: matching.length,
+        offset: state.offset,
+      })
+
+      return new BrowseResult(
+        {
+          nodeId: state.nodeId,
+          references,
+          continuationPoint:
+            end < matching.length
+              ? Encoding.encodeBase64Url(encodeState({ ...state, offset: end }))
+              : undefined,
+        },
+        true,
+      )
+    })
+
+    return { resolveReferenceType, browse } as const
+  }),
+  dependencies: [NodeGraph.Default, NamespaceTable.Default],
+}) {}
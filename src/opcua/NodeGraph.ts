@@ -1,5 +1,8 @@
-import { Effect, HashMap, Option, Ref } from "effect"
-import { ParsedUANode } from "./types.js"
+import { Effect, HashMap, Option, Schema, SynchronizedRef } from "effect"
+import { CORE_NAMESPACE_URI, ParsedUANode } from "./types.js"
+import { ObjectIds, ReferenceTypeIds } from "./StandardNodes.js"
+import { NamespaceTable } from "./NamespaceTable.js"
+import { formatRelativePathName } from "./RelativePath.js"
 
 export interface ReferenceGroup {
   readonly referenceType: string
@@ -8,169 +11,636 @@ export interface ReferenceGroup {
 
 export interface NodeGraphEntry {
   readonly node: ParsedUANode
+  readonly source: string // NodeSet that defines the node, the latest if several do
   readonly forwardReferences: ReadonlyArray<ReferenceGroup>
   readonly inverseReferences: ReadonlyArray<ReferenceGroup>
-  readonly browsePath: string
+  // RelativePaths from the Root folder over hierarchical references, e.g.
+  // `/0:Objects/1:DeviceSet`, shortest first. Empty if the node is not
+  // reachable from Root
+  readonly browsePaths: ReadonlyArray<string>
 }
 
-export class NodeGraph extends Effect.Service<NodeGraph>()("NodeGraph", {
-  scoped: Effect.gen(function* () {
-    const nodeMapRef = yield* Ref.make(HashMap.empty<string, NodeGraphEntry>())
-    const initializedRef = yield* Ref.make(false)
-
-    const buildGraph = Effect.fn("NodeGraph.buildGraph")(function* (
-      nodes: ReadonlyArray<ParsedUANode>,
-    ) {
-      yield* Effect.logInfo(`Building node graph with ${nodes.length} nodes`)
-      yield* Effect.annotateCurrentSpan({ nodeCount: nodes.length })
+// Aggregated child of a node (HasComponent, HasProperty, ...)
+export interface NodeGraphChild {
+  readonly referenceType: string
+  readonly nodeId: string
+}
 
-      let forwardGroups =
-        HashMap.empty<string, HashMap.HashMap<string, ReadonlyArray<string>>>()
-      let inverseGroups =
-        HashMap.empty<string, HashMap.HashMap<string, ReadonlyArray<string>>>()
+// Reference of a node, recorded on both ends regardless of which node declares
+// it in the NodeSet
+export interface NodeGraphReference {
+  readonly referenceType: string
+  readonly referenceTypeId: string | undefined // Undefined if the alias is not defined
+  readonly isForward: boolean
+  readonly nodeId: string
+}
 
-      for (const node of nodes) {
-        const nodeId = node.nodeId.toString()
+// Node ids affected by an update. `updated` nodes existed before and got new
+// references, browse paths or a definition from another NodeSet
+export interface NodeGraphChange {
+  readonly added: ReadonlyArray<string>
+  readonly removed: ReadonlyArray<string>
+  readonly updated: ReadonlyArray<string>
+}
 
-        let nodeForward = Option.getOrElse(
-          HashMap.get(forwardGroups, nodeId),
-          () => HashMap.empty<string, ReadonlyArray<string>>(),
-        )
+export interface NodeGraphSource {
+  readonly source: string // Usually the catalog slug
+  readonly nodes: ReadonlyArray<ParsedUANode>
+}
 
-        for (const ref of node.references) {
-          if (!ref.isForward) {
-            continue
-          }
+interface SourcedReference extends NodeGraphReference {
+  readonly source: string
+}
 
-          const targetId = ref.targetNodeId.toString()
+interface SourcedNode {
+  readonly node: ParsedUANode
+  readonly source: string
+}
 
-          const currentForwardTargets = Option.getOrElse(
-            HashMap.get(nodeForward, ref.referenceType),
-            () => [] as ReadonlyArray<string>,
-          )
+interface GraphState {
+  readonly sources: ReadonlyArray<NodeGraphSource> // Later sources win
+  readonly nodes: HashMap.HashMap<string, SourcedNode>
+  readonly references: HashMap.HashMap<string, ReadonlyArray<SourcedReference>>
+  readonly browsePaths: HashMap.HashMap<string, ReadonlyArray<string>>
+  readonly revision: number // Counts updates and restores
+}
 
-          nodeForward = HashMap.set(nodeForward, ref.referenceType, [
-            ...currentForwardTargets,
-            targetId,
-          ])
+const SnapshotReference = Schema.Struct({
+  referenceType: Schema.String,
+  referenceTypeId: Schema.UndefinedOr(Schema.String),
+  isForward: Schema.Boolean,
+  nodeId: Schema.String,
+  source: Schema.String,
+})
+
+// Serialized graph state: the NodeSets in load order with the adjacency and
+// browse paths computed from them
+export const NodeGraphSnapshot = Schema.Struct({
+  sources: Schema.Array(
+    Schema.Struct({
+      source: Schema.String,
+      nodes: Schema.Array(ParsedUANode),
+    }),
+  ),
+  references: Schema.Record({
+    key: Schema.String,
+    value: Schema.Array(SnapshotReference),
+  }),
+  browsePaths: Schema.Record({
+    key: Schema.String,
+    value: Schema.Array(Schema.String),
+  }),
+})
+export type NodeGraphSnapshot = Schema.Schema.Type<typeof NodeGraphSnapshot>
+
+const emptyState: GraphState = {
+  sources: [],
+  nodes: HashMap.empty(),
+  references: HashMap.empty(),
+  browsePaths: HashMap.empty(),
+  revision: 0,
+}
 
-          const currentInverseMap = Option.getOrElse(
-            HashMap.get(inverseGroups, targetId),
-            () => HashMap.empty<string, ReadonlyArray<string>>(),
-          )
+const aggregateReferenceTypes: ReadonlyArray<
+  readonly [id: string, name: string]
+> = [
+  [ReferenceTypeIds.HasComponent, "HasComponent"],
+  [ReferenceTypeIds.HasProperty, "HasProperty"],
+  [ReferenceTypeIds.HasOrderedComponent, "HasOrderedComponent"],
+  [ReferenceTypeIds.HasAddIn, "HasAddIn"],
+]
+
+const isReferenceOfType = (
+  ref: NodeGraphReference,
+  typeId: string,
+  name: string,
+) =>
+  ref.referenceTypeId
+    ? ref.referenceTypeId === typeId
+    : ref.referenceType === name
+
+const isAggregate = (ref: NodeGraphReference) =>
+  aggregateReferenceTypes.some(([id, name]) => isReferenceOfType(ref, id, name))
+
+const isSubtypeReference = (ref: NodeGraphReference) =>
+  isReferenceOfType(ref, ReferenceTypeIds.HasSubtype, "HasSubtype")
+
+// Nodes reachable through many parents (e.g. shared Organizes targets) keep
+// only their shortest paths
+const MAX_BROWSE_PATHS = 10
+
+// The same reference is often declared by both ends, or by several NodeSets
+const uniqueReferences = (
+  references: ReadonlyArray<SourcedReference>,
+): ReadonlyArray<NodeGraphReference> => {
+  const unique = new Map<string, NodeGraphReference>()
+  for (const { source: _, ...reference } of references) {
+    const key = `${reference.referenceTypeId ?? reference.referenceType}|${reference.isForward}|${reference.nodeId}`
+    if (!unique.has(key)) unique.set(key, reference)
+  }
+  return Array.from(unique.values())
+}
 
-          const currentInverseTargets = Option.getOrElse(
-            HashMap.get(currentInverseMap, ref.referenceType),
-            () => [] as ReadonlyArray<string>,
-          )
+const groupReferences = (
+  references: ReadonlyArray<NodeGraphReference>,
+  isForward: boolean,
+): ReadonlyArray<ReferenceGroup> => {
+  const groups = new Map<string, string[]>()
+  for (const reference of references) {
+    if (reference.isForward !== isForward) continue
+    const targets = groups.get(reference.referenceType) ?? []
+    targets.push(reference.nodeId)
+    groups.set(reference.referenceType, targets)
+  }
+  return Array.from(groups, ([referenceType, targets]) => ({
+    referenceType,
+    targets,
+  }))
+}
 
-          const updatedInverseMap = HashMap.set(
-            currentInverseMap,
-            ref.referenceType,
-            [...currentInverseTargets, nodeId],
-          )
+const referencesOf = (state: GraphState, nodeId: string) =>
+  uniqueReferences(
+    Option.getOrElse(HashMap.get(state.references, nodeId), () => []),
+  )
+
+const toEntry = (
+  state: GraphState,
+  nodeId: string,
+  { node, source }: SourcedNode,
+): NodeGraphEntry => {
+  const references = referencesOf(state, nodeId)
+  return {
+    node,
+    source,
+    forwardReferences: groupReferences(references, true),
+    inverseReferences: groupReferences(references, false),
+    browsePaths: Option.getOrElse(
+      HashMap.get(state.browsePaths, nodeId),
+      () => [],
+    ),
+  }
+}
 
-          inverseGroups = HashMap.set(inverseGroups, targetId, updatedInverseMap)
-        }
+// References declared by the nodes of a NodeSet, keyed by both ends
+const sourcedReferences = ({ source, nodes }: NodeGraphSource) => {
+  const references = new Map<string, SourcedReference[]>()
+  const add = (nodeId: string, reference: SourcedReference) => {
+    const existing = references.get(nodeId) ?? []
+    existing.push(reference)
+    references.set(nodeId, existing)
+  }
+  for (const node of nodes) {
+    const nodeId = node.nodeId.toString()
+    for (const ref of node.references) {
+      const targetId = ref.targetNodeId.toString()
+      const referenceTypeId = ref.referenceTypeId?.toString()
+      add(nodeId, {
+        referenceType: ref.referenceType,
+        referenceTypeId,
+        isForward: ref.isForward,
+        nodeId: targetId,
+        source,
+      })
+      add(targetId, {
+        referenceType: ref.referenceType,
+        referenceTypeId,
+        isForward: !ref.isForward,
+        nodeId,
+        source,
+      })
+    }
+  }
+  return references
+}
 
-        forwardGroups = HashMap.set(forwardGroups, nodeId, nodeForward)
+const addSource = (
+  state: GraphState,
+  added: NodeGraphSource,
+  touched: Set<string>,
+): GraphState => {
+  const references = sourcedReferences(added)
+  for (const nodeId of references.keys()) touched.add(nodeId)
+  for (const node of added.nodes) touched.add(node.nodeId.toString())
+
+  return {
+    ...state,
+    sources: [...state.sources, added],
+    nodes: HashMap.mutate(state.nodes, (nodes) => {
+      for (const node of added.nodes) {
+        HashMap.set(nodes, node.nodeId.toString(), {
+          node,
+          source: added.source,
+        })
       }
+    }),
+    references: HashMap.mutate(state.references, (map) => {
+      for (const [nodeId, additions] of references) {
+        const existing = Option.getOrElse(HashMap.get(map, nodeId), () => [])
+        HashMap.set(map, nodeId, [...existing, ...additions])
+      }
+    }),
+  }
+}
 
-      let graphMap = HashMap.empty<string, NodeGraphEntry>()
-
-      for (const node of nodes) {
-        const nodeId = node.nodeId.toString()
-        const forwardMap = Option.getOrElse(
-          HashMap.get(forwardGroups, nodeId),
-          () => HashMap.empty<string, ReadonlyArray<string>>(),
-        )
-
-        const forwardReferences = Array.from(HashMap.entries(forwardMap)).map(
-          ([referenceType, targets]) => ({
-            referenceType,
-            targets,
-          }),
+const removeSource = (
+  state: GraphState,
+  source: string,
+  touched: Set<string>,
+): GraphState => {
+  const removed = state.sources.find((entry) => entry.source === source)
+  if (removed === undefined) return state
+  const sources = state.sources.filter((entry) => entry !== removed)
+
+  const removedIds = new Set(
+    removed.nodes.map((node) => node.nodeId.toString()),
+  )
+  // Nodes also defined by a remaining NodeSet fall back to the latest of them
+  const restored = new Map<string, SourcedNode>()
+  for (const { source, nodes } of sources) {
+    for (const node of nodes) {
+      const nodeId = node.nodeId.toString()
+      if (removedIds.has(nodeId)) restored.set(nodeId, { node, source })
+    }
+  }
+  const references = sourcedReferences(removed)
+  for (const nodeId of removedIds) touched.add(nodeId)
+  for (const nodeId of references.keys()) touched.add(nodeId)
+
+  return {
+    ...state,
+    sources,
+    nodes: HashMap.mutate(state.nodes, (nodes) => {
+      for (const nodeId of removedIds) {
+        const node = restored.get(nodeId)
+        if (node) HashMap.set(nodes, nodeId, node)
+        else HashMap.remove(nodes, nodeId)
+      }
+    }),
+    references: HashMap.mutate(state.references, (map) => {
+      for (const nodeId of references.keys()) {
+        const existing = HashMap.get(map, nodeId)
+        if (Option.isNone(existing)) continue
+        const remaining = existing.value.filter(
+          (reference) => reference.source !== source,
         )
-
-        graphMap = HashMap.set(graphMap, nodeId, {
-          node,
-          forwardReferences,
-          inverseReferences: [],
-          browsePath: node.browseName,
-        })
+        if (remaining.length > 0) HashMap.set(map, nodeId, remaining)
+        else HashMap.remove(map, nodeId)
       }
+    }),
+  }
+}
 
-      for (const node of nodes) {
-        const nodeId = node.nodeId.toString()
-        const entry = HashMap.get(graphMap, nodeId)
-        if (Option.isNone(entry)) {
-          continue
+const samePaths = (a: ReadonlyArray<string>, b: ReadonlyArray<string>) =>
+  a.length === b.length && a.every((path, index) => b[index] === path)
+
+const changeBetween = (
+  before: GraphState,
+  after: GraphState,
+  touched: ReadonlySet<string>,
+): NodeGraphChange => {
+  const added: string[] = []
+  const removed: string[] = []
+  const updated = new Set<string>()
+  for (const nodeId of touched) {
+    const existed = HashMap.has(before.nodes, nodeId)
+    const exists = HashMap.has(after.nodes, nodeId)
+    if (!existed && exists) added.push(nodeId)
+    else if (existed && !exists) removed.push(nodeId)
+    else if (existed && exists) updated.add(nodeId)
+  }
+  const pathsOf = (state: GraphState, nodeId: string) =>
+    Option.getOrElse(HashMap.get(state.browsePaths, nodeId), () => [])
+  for (const nodeId of new Set([
+    ...HashMap.keys(before.browsePaths),
+    ...HashMap.keys(after.browsePaths),
+  ])) {
+    if (
+      HashMap.has(before.nodes, nodeId) &&
+      HashMap.has(after.nodes, nodeId) &&
+      !samePaths(pathsOf(before, nodeId), pathsOf(after, nodeId))
+    ) {
+      updated.add(nodeId)
+    }
+  }
+  return { added, removed, updated: Array.from(updated) }
+}
+
+export class NodeGraph extends Effect.Service<NodeGraph>()("NodeGraph", {
+  scoped: Effect.gen(function* () {
+    const namespaceTable = yield* NamespaceTable
+    // Updates run one at a time and replace the whole state, so readers never
+    // see a NodeSet half applied
+    const stateRef = yield* SynchronizedRef.make(emptyState)
+
+    // Breadth-first walk from Root over forward references whose type is
+    // HierarchicalReferences or one of its loaded subtypes. A path never
+    // visits a node twice, which keeps cycles out
+    const computeBrowsePaths = Effect.fn("NodeGraph.computeBrowsePaths")(
+      function* (state: GraphState) {
+        const hierarchical = new Set<string>([
+          ReferenceTypeIds.HierarchicalReferences,
+        ])
+        for (const referenceTypeId of hierarchical) {
+          for (const reference of referencesOf(state, referenceTypeId)) {
+            if (reference.isForward && isSubtypeReference(reference)) {
+              hierarchical.add(reference.nodeId)
+            }
+          }
         }
 
-        const inverseMap = Option.getOrElse(
-          HashMap.get(inverseGroups, nodeId),
-          () => HashMap.empty<string, ReadonlyArray<string>>(),
+        const nodes = Array.from(
+          HashMap.values(state.nodes),
+          ({ node }) => node,
         )
-
-        const inverseReferences = Array.from(HashMap.entries(inverseMap)).map(
-          ([referenceType, targets]) => ({
-            referenceType,
-            targets,
-          }),
+        const namespaceUris = yield* namespaceTable.registerAll(
+          Array.from(
+            new Set(
+              nodes.map(
+                (node) => node.browseNameNamespaceUri ?? CORE_NAMESPACE_URI,
+              ),
+            ),
+          ),
         )
+        const segments = new Map<string, string>()
+        for (const node of nodes) {
+          segments.set(
+            node.nodeId.toString(),
+            formatRelativePathName(
+              namespaceUris.indexOf(
+                node.browseNameNamespaceUri ?? CORE_NAMESPACE_URI,
+              ),
+              node.browseName,
+            ),
+          )
+        }
 
-        let browsePath = entry.value.node.browseName
-        const parentRefs = entry.value.node.references.filter(
-          (ref) =>
-            !ref.isForward &&
-            (ref.referenceType.includes("HasComponent") ||
-              ref.referenceType.includes("Organizes") ||
-              ref.referenceType.includes("HasProperty")),
-        )
+        const paths = new Map<string, string[]>()
+        const queue: Array<{
+          readonly nodeId: string
+          readonly path: string
+          readonly ancestors: ReadonlyArray<string>
+        }> = []
+        if (segments.has(ObjectIds.Root)) {
+          paths.set(ObjectIds.Root, ["/"])
+          queue.push({
+            nodeId: ObjectIds.Root,
+            path: "",
+            ancestors: [ObjectIds.Root],
+          })
+        }
 
-        if (parentRefs.length > 0) {
-          const parentId = parentRefs[0].targetNodeId.toString()
-          const parentEntry = HashMap.get(graphMap, parentId)
-          if (Option.isSome(parentEntry)) {
-            browsePath = `${parentEntry.value.browsePath}/${browsePath}`
+        for (let index = 0; index < queue.length; index++) {
+          const { nodeId, path, ancestors } = queue[index]
+          for (const reference of referencesOf(state, nodeId)) {
+            if (
+              !reference.isForward ||
+              reference.referenceTypeId === undefined ||
+              !hierarchical.has(reference.referenceTypeId) ||
+              ancestors.includes(reference.nodeId)
+            ) {
+              continue
+            }
+            const segment = segments.get(reference.nodeId)
+            if (segment === undefined) continue
+            const targetPath = `${path}/${segment}`
+            const targetPaths = paths.get(reference.nodeId) ?? []
+            if (
+              targetPaths.length >= MAX_BROWSE_PATHS ||
+              targetPaths.includes(targetPath)
+            ) {
+              continue
+            }
+            targetPaths.push(targetPath)
+            paths.set(reference.nodeId, targetPaths)
+            queue.push({
+              nodeId: reference.nodeId,
+              path: targetPath,
+              ancestors: [...ancestors, reference.nodeId],
+            })
           }
         }
 
-        graphMap = HashMap.set(graphMap, nodeId, {
-          ...entry.value,
-          inverseReferences,
-          browsePath,
-        })
-      }
+        return HashMap.fromIterable(paths) as HashMap.HashMap<
+          string,
+          ReadonlyArray<string>
+        >
+      },
+    )
+
+    // Applies removals and additions as one update. Browse paths are
+    // recomputed for the whole graph since a new parent can add paths to
+    // existing nodes
+    const update = (
+      removals: ReadonlyArray<string>,
+      additions: ReadonlyArray<NodeGraphSource>,
+    ) =>
+      SynchronizedRef.modifyEffect(stateRef, (before) =>
+        Effect.gen(function* () {
+          const touched = new Set<string>()
+          let state = before
+          for (const source of removals) {
+            state = removeSource(state, source, touched)
+          }
+          for (const source of additions) {
+            state = addSource(state, source, touched)
+          }
+          state = {
+            ...state,
+            browsePaths: yield* computeBrowsePaths(state),
+            revision: before.revision + 1,
+          }
+          const change = changeBetween(before, state, touched)
 
-      yield* Ref.set(nodeMapRef, graphMap)
-      yield* Ref.set(initializedRef, true)
+          yield* Effect.logInfo(
+            `Node graph updated: ${change.added.length} added, ${change.removed.length} removed, ${change.updated.length} updated, ${HashMap.size(state.nodes)} nodes`,
+          )
+          return [change, state] as const
+        }),
+      )
 
-      yield* Effect.logInfo(
-        `Node graph built with ${HashMap.size(graphMap)} entries`,
+    // Adds NodeSets, replacing NodeSets already loaded under the same source
+    const addNodeSets = Effect.fn("NodeGraph.addNodeSets")(function* (
+      nodeSets: ReadonlyArray<NodeGraphSource>,
+    ) {
+      yield* Effect.annotateCurrentSpan({
+        sources: nodeSets.map(({ source }) => source).join(","),
+        nodeCount: nodeSets.reduce((sum, { nodes }) => sum + nodes.length, 0),
+      })
+      return yield* update(
+        nodeSets.map(({ source }) => source),
+        nodeSets,
       )
-      yield* Effect.annotateCurrentSpan({ graphSize: HashMap.size(graphMap) })
     })
 
-    const getNode = (nodeId: string) =>
-      Effect.gen(function* () {
-        const map = yield* Ref.get(nodeMapRef)
-        return HashMap.get(map, nodeId)
+    const addNodeSet = (source: string, nodes: ReadonlyArray<ParsedUANode>) =>
+      addNodeSets([{ source, nodes }])
+
+    const removeNodeSet = Effect.fn("NodeGraph.removeNodeSet")(function* (
+      source: string,
+    ) {
+      yield* Effect.annotateCurrentSpan({ source })
+      return yield* update([source], [])
+    })
+
+    const snapshot = () =>
+      SynchronizedRef.get(stateRef).pipe(
+        Effect.map(
+          (state): NodeGraphSnapshot => ({
+            sources: state.sources,
+            references: Object.fromEntries(state.references),
+            browsePaths: Object.fromEntries(state.browsePaths),
+          }),
+        ),
+      )
+
+    // Replaces the whole graph with a snapshot. Nothing is recomputed, the
+    // snapshot must come from the same namespace table layout
+    const restore = Effect.fn("NodeGraph.restore")(function* (
+      snapshot: NodeGraphSnapshot,
+    ) {
+      yield* Effect.annotateCurrentSpan({
+        sources: snapshot.sources.map(({ source }) => source).join(","),
       })
+      return yield* SynchronizedRef.modifyEffect(stateRef, (before) =>
+        Effect.gen(function* () {
+          const state: GraphState = {
+            sources: snapshot.sources,
+            nodes: HashMap.mutate(HashMap.empty(), (nodes) => {
+              for (const { source, nodes: sourceNodes } of snapshot.sources) {
+                for (const node of sourceNodes) {
+                  HashMap.set(nodes, node.nodeId.toString(), { node, source })
+                }
+              }
+            }),
+            references: HashMap.fromIterable(
+              Object.entries(snapshot.references),
+            ),
+            browsePaths: HashMap.fromIterable(
+              Object.entries(snapshot.browsePaths),
+            ),
+            revision: before.revision + 1,
+          }
+          const change = changeBetween(
+            before,
+            state,
+            new Set([
+              ...HashMap.keys(before.nodes),
+              ...HashMap.keys(state.nodes),
+            ]),
+          )
+
+          yield* Effect.logInfo(
+            `Node graph restored: ${change.added.length} added, ${change.removed.length} removed, ${change.updated.length} updated, ${HashMap.size(state.nodes)} nodes`,
+          )
+          return [change, state] as const
+        }),
+      )
+    })
+
+    const listNodeSets = () =>
+      SynchronizedRef.get(stateRef).pipe(
+        Effect.map((state) =>
+          state.sources.map(({ source, nodes }) => ({
+            source,
+            nodeCount: nodes.length,
+          })),
+        ),
+      )
+
+    const getNode = (nodeId: string) =>
+      SynchronizedRef.get(stateRef).pipe(
+        Effect.map((state) =>
+          HashMap.get(state.nodes, nodeId).pipe(
+            Option.map((node) => toEntry(state, nodeId, node)),
+          ),
+        ),
+      )
 
     const getAllNodes = () =>
-      Effect.gen(function* () {
-        const map = yield* Ref.get(nodeMapRef)
-        return Array.from(HashMap.values(map))
-      })
+      SynchronizedRef.get(stateRef).pipe(
+        Effect.map((state) =>
+          Array.from(state.nodes, ([nodeId, node]) =>
+            toEntry(state, nodeId, node),
+          ),
+        ),
+      )
+
+    const getReferences = (nodeId: string) =>
+      SynchronizedRef.get(stateRef).pipe(
+        Effect.map((state) => referencesOf(state, nodeId)),
+      )
+
+    // Type and aggregation structure, taken from references declared in
+    // either direction (subtypes usually only declare the inverse HasSubtype)
+    const getSupertype = (nodeId: string) =>
+      getReferences(nodeId).pipe(
+        Effect.map((references) =>
+          Option.fromNullable(
+            references.find(
+              (reference) =>
+                !reference.isForward && isSubtypeReference(reference),
+            )?.nodeId,
+          ),
+        ),
+      )
+
+    const getSubtypes = (nodeId: string) =>
+      getReferences(nodeId).pipe(
+        Effect.map((references) =>
+          references
+            .filter(
+              (reference) =>
+                reference.isForward && isSubtypeReference(reference),
+            )
+            .map((reference) => reference.nodeId),
+        ),
+      )
+
+    const getChildren = (nodeId: string) =>
+      getReferences(nodeId).pipe(
+        Effect.map((references) => {
+          const children = new Map<string, NodeGraphChild>()
+          for (const reference of references) {
+            if (
+              reference.isForward &&
+              isAggregate(reference) &&
+              !children.has(reference.nodeId)
+            ) {
+              children.set(reference.nodeId, {
+                referenceType: reference.referenceType,
+                nodeId: reference.nodeId,
+              })
+            }
+          }
+          return Array.from(children.values()) as ReadonlyArray<NodeGraphChild>
+        }),
+      )
+
+    // Changes with every update, so derived data can tell it is outdated
+    const revision = () =>
+      SynchronizedRef.get(stateRef).pipe(Effect.map((state) => state.revision))
 
-    const isInitialized = () => Ref.get(initializedRef)
+    const isInitialized = () =>
+      SynchronizedRef.get(stateRef).pipe(
+        Effect.map((state) => state.sources.length > 0),
+      )
 
     return {
-      buildGraph,
+      addNodeSet,
+      addNodeSets,
+      removeNodeSet,
+      snapshot,
+      restore,
+      listNodeSets,
       getNode,
       getAllNodes,
+      getSupertype,
+      getSubtypes,
+      getChildren,
+      getReferences,
       isInitialized,
+      revision,
     } as const
   }),
+  dependencies: [NamespaceTable.Default],
 }) {}
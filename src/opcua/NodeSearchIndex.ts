@@ -0,0 +1,555 @@
+import { Data, Effect, Option, Schema, SynchronizedRef } from "effect"
+import Minisearch, { type Options } from "minisearch"
+import {
+  NodeClass,
+  type LocalizedText,
+  type NodeDocumentEntry,
+  type ParsedUANode,
+  type SearchMode,
+} from "./types.js"
+import {
+  NodeGraph,
+  NodeGraphSnapshot,
+  type NodeGraphChange,
+  type NodeGraphEntry,
+  type NodeGraphSource,
+} from "./NodeGraph.js"
+import { BrowsePathResolver } from "./BrowsePathResolver.js"
+import { NamespaceTable } from "./NamespaceTable.js"
+import { TypeHierarchy, TypeHierarchyError } from "./TypeHierarchy.js"
+import { SearchVocabulary, tokenize } from "./SearchText.js"
+import { VectorIndex } from "./VectorIndex.js"
+import { NODE_ID_PATTERN } from "./NodeSetParser.js"
+import { summarizeValue } from "./ValueFormat.js"
+
+export class DocumentNotFoundError extends Data.TaggedError(
+  "DocumentNotFoundError",
+)<{
+  readonly message: string
+}> {}
+
+export class IndexSnapshotError extends Data.TaggedError("IndexSnapshotError")<{
+  readonly message: string
+  readonly cause?: unknown
+}> {}
+
+// Documents are stored without their nodes, which the graph snapshot holds
+const StoredDocument = Schema.Struct({
+  id: Schema.String,
+  nodeId: Schema.String,
+  source: Schema.String,
+  handle: Schema.optional(Schema.String),
+  browsePath: Schema.optional(Schema.String),
+  title: Schema.String,
+  description: Schema.optional(Schema.String),
+  nodeClass: NodeClass,
+  namespace: Schema.optional(Schema.String),
+})
+
+export const NodeSearchIndexSnapshot = Schema.Struct({
+  graph: NodeGraphSnapshot,
+  documents: Schema.Array(StoredDocument),
+  index: Schema.String, // MiniSearch JSON
+})
+export type NodeSearchIndexSnapshot = Schema.Schema.Type<
+  typeof NodeSearchIndexSnapshot
+>
+
+export interface SearchOptions {
+  readonly nodeClasses?: ReadonlyArray<NodeClass>
+  readonly namespaceUri?: string
+  readonly slug?: string
+  readonly isAbstract?: boolean
+  readonly dataType?: string // NodeId or BrowseName, includes subtypes
+  readonly subtypeOf?: string // NodeId or BrowseName of a type
+  readonly mode?: SearchMode // Defaults to lexical
+  readonly limit?: number
+  readonly offset?: number
+}
+
+export interface SearchResults {
+  readonly results: ReadonlyArray<NodeDocumentEntry>
+  readonly total: number
+}
+
+const DEFAULT_LIMIT = 50
+const MAX_LISTED = 20
+// Nearest neighbours considered by semantic and hybrid searches
+const SEMANTIC_CANDIDATES = 200
+// Reciprocal rank fusion constant, dampens the weight of the top ranks
+const RRF_K = 60
+
+const TYPE_NODE_CLASSES = new Set<ParsedUANode["nodeClass"]>([
+  "ObjectType",
+  "VariableType",
+  "DataType",
+  "ReferenceType",
+])
+
+const INDEX_OPTIONS: Options<NodeDocumentEntry> = {
+  fields: ["title", "description", "nodeClass", "browsePath"],
+  tokenize,
+  searchOptions: {
+    boost: { title: 3, browsePath: 2 },
+    fuzzy: 0.2,
+    // Lets `temp` find `Temperature` without matching on one or two letters
+    prefix: (term) => term.length >= 3,
+  },
+  storeFields: ["nodeId", "title", "description", "nodeClass", "namespace"],
+}
+
+// Documents by NodeId
+type IndexState = ReadonlyMap<string, NodeDocumentEntry>
+
+// Search text of a node with its graph context
+const toDocument = (graphEntry: NodeGraphEntry): NodeDocumentEntry => {
+  const node = graphEntry.node
+  const description = Option.match(node.description, {
+    onNone: () => undefined,
+    onSome: (desc: LocalizedText) => desc.text,
+  })
+
+  const forwardRefSummary = graphEntry.forwardReferences
+    .map((ref) => `${ref.referenceType}: ${ref.targets.slice(0, 3).join(", ")}`)
+    .join(" | ")
+
+  const searchDescription = [
+    description,
+    `Browse Path: ${graphEntry.browsePaths.slice(0, 3).join(", ")}`,
+    node.value !== undefined
+      ? `Value: ${summarizeValue(node.value)}`
+      : undefined,
+    forwardRefSummary,
+  ]
+    .filter(Boolean)
+    .join(" | ")
+
+  const nodeId = node.nodeId.toString()
+  return {
+    id: nodeId,
+    nodeId,
+    source: graphEntry.source,
+    handle: TYPE_NODE_CLASSES.has(node.nodeClass)
+      ? `${graphEntry.source}:${node.browseName}`
+      : undefined,
+    browsePath: graphEntry.browsePaths[0],
+    title: `${node.browseName} (${node.nodeClass})`,
+    description: searchDescription,
+    nodeClass: node.nodeClass,
+    namespace: node.namespaceUri,
+    node,
+  }
+}
+
+// Embedded text of a document: what the node is, without the reference
+// summary that dominates the lexical description
+const semanticText = (document: NodeDocumentEntry) =>
+  [
+    document.node.browseName,
+    Option.match(document.node.description, {
+      onNone: () => undefined,
+      onSome: (desc: LocalizedText) => desc.text,
+    }),
+    document.browsePath,
+  ]
+    .filter(Boolean)
+    .join(". ")
+
+// Reciprocal rank fusion of ranked id lists
+const fuseRankings = (rankings: ReadonlyArray<ReadonlyArray<string>>) => {
+  const scores = new Map<string, number>()
+  for (const ranking of rankings) {
+    ranking.forEach((id, rank) =>
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (RRF_K + rank + 1)),
+    )
+  }
+  return Array.from(scores)
+    .sort(([, a], [, b]) => b - a)
+    .map(([id]) => id)
+}
+
+const normalizeUri = (uri: string) => uri.trim().replace(/\/+$/, "")
+
+const listed = (values: ReadonlyArray<string>) =>
+  values.length > MAX_LISTED
+    ? `${values.slice(0, MAX_LISTED).join(", ")} and ${values.length - MAX_LISTED} more`
+    : values.join(", ")
+
+// Full-text index over the nodes of the NodeGraph. NodeSets are added and
+// removed through the index so that the affected documents are re-indexed in
+// the same update as the graph
+export class NodeSearchIndex extends Effect.Service<NodeSearchIndex>()(
+  "NodeSearchIndex",
+  {
+    effect: Effect.gen(function* () {
+      const graph = yield* NodeGraph
+      const browsePaths = yield* BrowsePathResolver
+      const namespaceTable = yield* NamespaceTable
+      const hierarchy = yield* TypeHierarchy
+      const vocabulary = yield* SearchVocabulary
+      const vectors = yield* VectorIndex
+      // Replaced as a whole when a snapshot is restored
+      let minisearch = new Minisearch<NodeDocumentEntry>(INDEX_OPTIONS)
+      const stateRef = yield* SynchronizedRef.make<IndexState>(new Map())
+
+      // Without vectors the documents are still found lexically
+      const updateVectors = (
+        indexed: ReadonlyArray<NodeDocumentEntry>,
+        discarded: ReadonlyArray<string>,
+      ) =>
+        vectors
+          .update(
+            indexed.map((document) => ({
+              id: document.id,
+              text: semanticText(document),
+            })),
+            discarded,
+          )
+          .pipe(
+            Effect.catchAll((error) =>
+              Effect.logWarning("Failed to embed search documents", error),
+            ),
+          )
+
+      // Re-indexes the nodes of a graph change
+      const applyChange = (state: IndexState, change: NodeGraphChange) =>
+        Effect.gen(function* () {
+          const documents = new Map(state)
+
+          const discarded: string[] = []
+          for (const nodeId of [...change.removed, ...change.updated]) {
+            if (documents.delete(nodeId)) discarded.push(nodeId)
+          }
+
+          const indexed: NodeDocumentEntry[] = []
+          for (const nodeId of [...change.added, ...change.updated]) {
+            const graphEntry = yield* graph.getNode(nodeId)
+            if (Option.isNone(graphEntry)) continue
+            const document = toDocument(graphEntry.value)
+            indexed.push(document)
+            documents.set(document.id, document)
+          }
+
+          // Applied in one step so searches never see a partial update
+          yield* Effect.sync(() => {
+            minisearch.discardAll(discarded)
+            minisearch.addAll(indexed)
+          })
+          yield* updateVectors(indexed, discarded)
+          yield* Effect.logInfo(
+            `Search index updated: ${indexed.length} indexed, ${discarded.length} discarded, ${documents.size} documents`,
+          )
+          return [change, documents as IndexState] as const
+        })
+
+      const addNodeSets = Effect.fn("NodeSearchIndex.addNodeSets")(function* (
+        nodeSets: ReadonlyArray<NodeGraphSource>,
+      ) {
+        return yield* SynchronizedRef.modifyEffect(stateRef, (state) =>
+          graph
+            .addNodeSets(nodeSets)
+            .pipe(Effect.flatMap((change) => applyChange(state, change))),
+        )
+      })
+
+      const addNodeSet = (source: string, nodes: ReadonlyArray<ParsedUANode>) =>
+        addNodeSets([{ source, nodes }])
+
+      const removeNodeSet = Effect.fn("NodeSearchIndex.removeNodeSet")(
+        function* (source: string) {
+          return yield* SynchronizedRef.modifyEffect(stateRef, (state) =>
+            graph
+              .removeNodeSet(source)
+              .pipe(Effect.flatMap((change) => applyChange(state, change))),
+          )
+        },
+      )
+
+      // Graph, documents and full-text index as of the latest update
+      const snapshot = Effect.fn("NodeSearchIndex.snapshot")(function* () {
+        // Taken under the lock so no update lands between the parts
+        return yield* SynchronizedRef.modifyEffect(stateRef, (documents) =>
+          graph.snapshot().pipe(
+            Effect.map((graphSnapshot) => {
+              const result: NodeSearchIndexSnapshot = {
+                graph: graphSnapshot,
+                documents: Array.from(
+                  documents.values(),
+                  ({ node: _, ...document }) => document,
+                ),
+                index: JSON.stringify(minisearch),
+              }
+              return [result, documents] as const
+            }),
+          ),
+        )
+      })
+
+      // Replaces graph and index with a snapshot instead of re-indexing
+      const restore = Effect.fn("NodeSearchIndex.restore")(function* (
+        snapshot: NodeSearchIndexSnapshot,
+      ) {
+        const restored = yield* Effect.try({
+          try: () =>
+            Minisearch.loadJSON<NodeDocumentEntry>(
+              snapshot.index,
+              INDEX_OPTIONS,
+            ),
+          catch: (cause) =>
+            new IndexSnapshotError({
+              message: "Failed to load the full-text index snapshot",
+              cause,
+            }),
+        })
+        return yield* SynchronizedRef.modifyEffect(stateRef, (state) =>
+          Effect.gen(function* () {
+            const change = yield* graph.restore(snapshot.graph)
+            const nodes = new Map<string, ParsedUANode>()
+            for (const { nodes: sourceNodes } of snapshot.graph.sources) {
+              for (const node of sourceNodes) {
+                nodes.set(node.nodeId.toString(), node)
+              }
+            }
+            const documents = new Map<string, NodeDocumentEntry>()
+            for (const document of snapshot.documents) {
+              const node = nodes.get(document.id)
+              if (node) documents.set(document.id, { ...document, node })
+            }
+
+            minisearch = restored
+            yield* updateVectors(
+              Array.from(documents.values()),
+              Array.from(state.keys()).filter((id) => !documents.has(id)),
+            )
+            yield* Effect.logInfo(
+              `Search index restored: ${documents.size} documents`,
+            )
+            return [change, documents as IndexState] as const
+          }),
+        )
+      })
+
+      // The type and all its loaded subtypes
+      const subtypeClosure = Effect.fn("NodeSearchIndex.subtypeClosure")(
+        function* (typeId: string) {
+          const closure = new Set([typeId])
+          const queue = [typeId]
+          while (queue.length > 0) {
+            for (const subtype of yield* graph.getSubtypes(queue.shift()!)) {
+              if (closure.has(subtype)) continue
+              closure.add(subtype)
+              queue.push(subtype)
+            }
+          }
+          return closure
+        },
+      )
+
+      const resolveTypeClosure = Effect.fn(
+        "NodeSearchIndex.resolveTypeClosure",
+      )(function* (type: string, nodeClass?: NodeClass) {
+        const node = yield* hierarchy.resolveType(type)
+        if (nodeClass !== undefined && node.nodeClass !== nodeClass) {
+          return yield* Effect.fail(
+            new TypeHierarchyError({
+              message: `${type} is not a ${nodeClass} but a node of class ${node.nodeClass}`,
+            }),
+          )
+        }
+        const typeId = node.nodeId.toString()
+        return { typeId, closure: yield* subtypeClosure(typeId) }
+      })
+
+      // Filters run on the documents inside Minisearch and the vector index;
+      // an empty query lists every document that passes them
+      const search = Effect.fn("NodeSearchIndex.search")(function* (
+        query: string,
+        options: SearchOptions = {},
+      ) {
+        const dataTypes =
+          options.dataType === undefined
+            ? undefined
+            : yield* resolveTypeClosure(options.dataType, "DataType")
+        const subtypes =
+          options.subtypeOf === undefined
+            ? undefined
+            : yield* resolveTypeClosure(options.subtypeOf)
+        const namespaceUri =
+          options.namespaceUri === undefined
+            ? undefined
+            : normalizeUri(options.namespaceUri)
+        const slug = options.slug?.trim().toLowerCase()
+
+        const matches = (document: NodeDocumentEntry) =>
+          (options.nodeClasses === undefined ||
+            options.nodeClasses.length === 0 ||
+            options.nodeClasses.includes(document.nodeClass)) &&
+          (namespaceUri === undefined ||
+            normalizeUri(document.namespace ?? "") === namespaceUri) &&
+          (slug === undefined || document.source.toLowerCase() === slug) &&
+          (options.isAbstract === undefined ||
+            (document.node.isAbstract ?? false) === options.isAbstract) &&
+          (dataTypes === undefined ||
+            (document.node.dataTypeId !== undefined &&
+              dataTypes.closure.has(document.node.dataTypeId.toString()))) &&
+          // "Subtypes of X" excludes X itself
+          (subtypes === undefined ||
+            (document.id !== subtypes.typeId &&
+              subtypes.closure.has(document.id)))
+
+        const documents = yield* SynchronizedRef.get(stateRef)
+        const accepts = (id: string) => {
+          const document = documents.get(id)
+          return document !== undefined && matches(document)
+        }
+        const lexical = (text: string | typeof Minisearch.wildcard) =>
+          minisearch
+            .search(typeof text === "string" ? vocabulary.expand(text) : text, {
+              filter: (result) => accepts(result.id),
+            })
+            .map((result) => result.id as string)
+        const semantic = (text: string) =>
+          vectors
+            .search(text, SEMANTIC_CANDIDATES, accepts)
+            .pipe(Effect.map((matches) => matches.map(({ id }) => id)))
+
+        const mode = options.mode ?? "lexical"
+        const ids =
+          query.trim() === ""
+            ? lexical(Minisearch.wildcard)
+            : mode === "lexical"
+              ? lexical(query)
+              : mode === "semantic"
+                ? yield* semantic(query)
+                : fuseRankings([lexical(query), yield* semantic(query)])
+        const hits = ids.map((id) => documents.get(id)!)
+
+        const offset = Math.max(0, options.offset ?? 0)
+        const limit = Math.max(0, options.limit ?? DEFAULT_LIMIT)
+        yield* Effect.annotateCurrentSpan({ query, mode, total: hits.length })
+        return {
+          results: hits.slice(offset, offset + limit),
+          total: hits.length,
+        } satisfies SearchResults
+      })
+
+      const getDocument = (nodeId: string) =>
+        SynchronizedRef.get(stateRef).pipe(
+          Effect.map((documents) => Option.fromNullable(documents.get(nodeId))),
+        )
+
+      const notFound = (message: string) =>
+        Effect.fail(new DocumentNotFoundError({ message }))
+
+      const resolveNodeId = Effect.fn("NodeSearchIndex.resolveNodeId")(
+        function* (nodeId: string) {
+          const document = yield* getDocument(
+            yield* namespaceTable.normalizeNodeId(nodeId),
+          )
+          if (Option.isNone(document)) {
+            return yield* notFound(`No node with NodeId ${nodeId} is loaded`)
+          }
+          return document.value
+        },
+      )
+
+      const resolveBrowsePath = Effect.fn("NodeSearchIndex.resolveBrowsePath")(
+        function* (path: string) {
+          const { targets } = yield* browsePaths
+            .translate(undefined, path)
+            .pipe(Effect.catchAll(({ message }) => notFound(message)))
+          if (targets.length > 1) {
+            return yield* notFound(
+              `Browse path ${path} matches several nodes, use one of the NodeIds: ${listed(targets.map((target) => target.nodeId))}`,
+            )
+          }
+          return yield* resolveNodeId(targets[0].nodeId)
+        },
+      )
+
+      // `slug:BrowseName` among the nodes defined by that NodeSet. Types win
+      // over InstanceDeclarations of the same name
+      const resolveHandle = Effect.fn("NodeSearchIndex.resolveHandle")(
+        function* (handle: string) {
+          const separator = handle.indexOf(":")
+          const slug = handle.slice(0, separator).trim().toLowerCase()
+          const browseName = handle.slice(separator + 1).trim()
+          const sources = yield* graph.listNodeSets()
+          const source = sources.find(
+            (entry) => entry.source.toLowerCase() === slug,
+          )
+          if (source === undefined) {
+            return yield* notFound(
+              `NodeSet ${slug} is not loaded, loaded NodeSets are ${sources
+                .map((entry) => entry.source)
+                .join(", ")}`,
+            )
+          }
+
+          const matches = (yield* graph.getAllNodes()).filter(
+            (entry) =>
+              entry.source === source.source &&
+              entry.node.browseName === browseName,
+          )
+          const types = matches.filter((entry) =>
+            TYPE_NODE_CLASSES.has(entry.node.nodeClass),
+          )
+          const candidates = types.length > 0 ? types : matches
+          if (candidates.length === 0) {
+            return yield* notFound(
+              `NodeSet ${source.source} has no node with BrowseName ${browseName}`,
+            )
+          }
+          if (candidates.length > 1) {
+            return yield* notFound(
+              `${handle} matches several nodes, use one of the NodeIds: ${listed(
+                candidates.map((entry) => entry.node.nodeId.toString()),
+              )}`,
+            )
+          }
+          return yield* resolveNodeId(candidates[0].node.nodeId.toString())
+        },
+      )
+
+      // Resolves a document reference: a NodeId, a browse path from the Root
+      // folder or a `slug:BrowseName` handle
+      const resolve = Effect.fn("NodeSearchIndex.resolve")(function* (
+        documentId: string,
+      ) {
+        const query = documentId.trim()
+        yield* Effect.annotateCurrentSpan({ documentId: query })
+        if (NODE_ID_PATTERN.test(query)) {
+          return yield* resolveNodeId(query)
+        }
+        if (/^[/.<]/.test(query)) {
+          return yield* resolveBrowsePath(query)
+        }
+        if (query.includes(":")) {
+          return yield* resolveHandle(query)
+        }
+        return yield* notFound(
+          `${query} is neither a NodeId, a browse path nor a slug:BrowseName handle`,
+        )
+      })
+
+      return {
+        addNodeSet,
+        addNodeSets,
+        removeNodeSet,
+        snapshot,
+        restore,
+        search,
+        getDocument,
+        resolve,
+      } as const
+    }),
+    dependencies: [
+      NodeGraph.Default,
+      BrowsePathResolver.Default,
+      NamespaceTable.Default,
+      TypeHierarchy.Default,
+      SearchVocabulary.Default,
+      VectorIndex.Default,
+    ],
+  },
+) {}
@@ -14,14 +14,25 @@ import {
   HttpClientResponse,
   KeyValueStore,
 } from "@effect/platform"
-import { NodeHttpClient } from "@effect/platform-node"
+import { FileSystem } from "@effect/platform/FileSystem"
+import { NodeFileSystem, NodeHttpClient } from "@effect/platform-node"
+import * as path from "node:path"
 import type { NodeSetSlug } from "./types.js"
-import { NodeSetCatalogEntry } from "./types.js"
-
-const GITHUB_OWNER = "OPCFoundation"
-const GITHUB_REPO = "UA-Nodeset"
-const GITHUB_REF = "latest"
-const GITHUB_API_ROOT = `https://api.github.com/repos/${GITHUB_OWNER}/${GITHUB_REPO}`
+import { NodeSetCatalogEntry, NodeSetRevision } from "./types.js"
+import {
+  NODESET_FILE_PATTERN,
+  isLocalLocation,
+  slugFromFileName,
+  toFilePath,
+} from "./NodeSetLocation.js"
+import { PersistentStore, ServerConfig } from "./ServerConfig.js"
+import { NodeSetLock, lockedRevision } from "./NodeSetLock.js"
+import { NodeSetReader } from "./NodeSetReader.js"
+import type { NodeSetLockFile } from "./NodeSetLock.js"
+
+// `https://raw.githubusercontent.com/<owner>/<repo>/<ref>/<path>`
+const GITHUB_RAW_URL =
+  /^https:\/\/raw\.githubusercontent\.com\/([^/]+\/[^/]+)\/([^/]+)(\/.*)$/
 
 export class NodeSetCatalogNotFound extends Data.TaggedError(
   "NodeSetCatalogNotFound",
@@ -31,14 +42,30 @@ export class NodeSetCatalogFetchError extends Data.TaggedError(
   "NodeSetCatalogFetchError",
 )<{ readonly cause: unknown; readonly message: string }> {}
 
+export class NodeSetDirectoryError extends Data.TaggedError(
+  "NodeSetDirectoryError",
+)<{ readonly cause?: unknown; readonly message: string }> {}
+
 const normalize = (value: string): string => value.trim().toLowerCase()
 
 const catalogKey = "catalog"
 const catalogSchema = Schema.Array(NodeSetCatalogEntry)
 
+// Namespace URIs read from the headers of loaded NodeSet files, by the blob
+// SHA of the file or, for files without a revision, by their location
+const namespacesKey = "catalog-namespaces"
+const namespacesSchema = Schema.Record({
+  key: Schema.String,
+  value: Schema.Array(Schema.String),
+})
+
+const headerKey = (entry: NodeSetCatalogEntry): string =>
+  entry.revision?.blobSha ?? entry.nodeSetUrl
+
 const GitHubTreeEntry = Schema.Struct({
   path: Schema.String,
   type: Schema.String,
+  sha: Schema.String,
 })
 
 const GitHubTreeResponse = Schema.Struct({
@@ -46,7 +73,13 @@ const GitHubTreeResponse = Schema.Struct({
   truncated: Schema.optional(Schema.Boolean),
 })
 
-const NODESET_FILE_PATTERN = /\.NodeSet2\.xml$/i
+const GitHubCommitResponse = Schema.Struct({ sha: Schema.String })
+
+// Catalog entries discovered at one commit of the GitHub repository
+export interface NodeSetCatalogSnapshot {
+  readonly commit: string
+  readonly entries: ReadonlyArray<NodeSetCatalogEntry>
+}
 
 const builtinEntries: ReadonlyArray<NodeSetCatalogEntry> = [
   new NodeSetCatalogEntry({
@@ -198,25 +231,110 @@ const humanizeSegment = (segment: string): string => {
     .join(" ")
 }
 
+const rawRootAt = (repository: string, ref: string): string =>
+  `https://raw.githubusercontent.com/${repository}/${encodeURIComponent(ref)}/`
+
+// NodeSet file of the GitHub tree and the catalog slug it was assigned
+interface NodeSetFileAssignment {
+  readonly slug: string
+  readonly folderSlug: string
+  readonly segment: string // Display name of the top-level folder
+  readonly path: string
+  readonly blobSha: string
+}
+
 const createEntry = (
-  slug: string,
-  displaySegment: string,
-  nodeSetPath: string,
+  rawRoot: string,
+  {
+    slug,
+    folderSlug,
+    segment,
+    path: nodeSetPath,
+    blobSha,
+  }: NodeSetFileAssignment,
+  commit: string,
 ): NodeSetCatalogEntry => {
   const metadata = Option.getOrNull(HashMap.get(builtinMetadata, slug))
-  const defaultTags = [slug]
+  const folder = Option.getOrNull(HashMap.get(builtinMetadata, folderSlug))
+  const subSlug = slug === folderSlug ? undefined : slug.split("/")[1]
 
   return new NodeSetCatalogEntry({
     slug,
-    name: metadata?.name ?? humanizeSegment(displaySegment),
+    name:
+      metadata?.name ??
+      (subSlug === undefined
+        ? humanizeSegment(segment)
+        : // `Opc.Ua.Machinery.Result.NodeSet2.xml` -> `Machinery Result`
+          humanizeSegment(
+            path.posix
+              .basename(nodeSetPath)
+              .replace(NODESET_FILE_PATTERN, "")
+              .replace(/^opc\.ua\./i, "")
+              .replace(/\./g, " "),
+          )),
     description: metadata?.description,
-    category: metadata?.category,
+    category: metadata?.category ?? folder?.category,
     documentationUrl: metadata?.documentationUrl,
-    tags: metadata?.tags ?? defaultTags,
+    tags:
+      metadata?.tags ??
+      (subSlug === undefined ? [slug] : [folderSlug, subSlug]),
     namespaceUris: metadata?.namespaceUris ?? [],
-    nodeSetUrl: `https://raw.githubusercontent.com/${GITHUB_OWNER}/${GITHUB_REPO}/${GITHUB_REF}/${encodeURI(
-      nodeSetPath,
-    )}`,
+    nodeSetUrl: `${rawRoot}${encodeURI(nodeSetPath)}`,
+    dependencies: metadata?.dependencies ?? [],
+    defaultSelection: metadata?.defaultSelection ?? false,
+    revision: new NodeSetRevision({ commit, path: nodeSetPath, blobSha }),
+  })
+}
+
+// URL of a catalog NodeSet at another ref (tag, branch or commit) of its
+// GitHub repository. Undefined for NodeSets hosted anywhere else.
+export const nodeSetUrlAtRef = (
+  entry: NodeSetCatalogEntry,
+  ref: string,
+): string | undefined => {
+  const match = GITHUB_RAW_URL.exec(entry.nodeSetUrl)
+  if (!match) {
+    return undefined
+  }
+  const [, repository, , filePath] = match
+  return `${rawRootAt(repository, ref)}${filePath.slice(1)}`
+}
+
+// Built-in entries point at the OPC Foundation repository; a configured
+// repository or ref is expected to keep its folder layout
+const atRepository = (
+  entry: NodeSetCatalogEntry,
+  rawRoot: string,
+  revision?: NodeSetRevision,
+): NodeSetCatalogEntry => {
+  const match = GITHUB_RAW_URL.exec(entry.nodeSetUrl)
+  return match
+    ? new NodeSetCatalogEntry({
+        ...entry,
+        nodeSetUrl: `${rawRoot}${match[3].slice(1)}`,
+        revision,
+      })
+    : entry
+}
+
+// Local files keep the built-in metadata of the spec they mirror, so a local
+// `Opc.Ua.Di.NodeSet2.xml` transparently replaces the remote `di` entry
+const createLocalEntry = (
+  slug: string,
+  filePath: string,
+): NodeSetCatalogEntry => {
+  const fileSlug = slugFromFileName(filePath)
+  const metadata = Option.getOrNull(HashMap.get(builtinMetadata, fileSlug))
+
+  return new NodeSetCatalogEntry({
+    slug,
+    name: metadata?.name ?? humanizeSegment(fileSlug),
+    description: metadata?.description ?? `Local NodeSet file ${filePath}`,
+    category: metadata?.category ?? "Local",
+    documentationUrl: metadata?.documentationUrl,
+    tags: [...(metadata?.tags ?? [fileSlug]), "local"],
+    namespaceUris: metadata?.namespaceUris ?? [],
+    nodeSetUrl: filePath,
     dependencies: metadata?.dependencies ?? [],
     defaultSelection: metadata?.defaultSelection ?? false,
   })
@@ -237,6 +355,121 @@ const slugFromPath = (
   return Option.some({ slug: normalize(segment), segment })
 }
 
+// `http://opcfoundation.org/UA/Machinery/Result/` -> machinery/result, machinery-result, result
+const slugCandidatesForModelUri = (modelUri: string): ReadonlyArray<string> => {
+  const pathname = modelUri.replace(/^[a-z]+:\/\/[^/]+/i, "")
+  const segments = pathname
+    .split("/")
+    .map(normalize)
+    .filter((segment) => segment.length > 0)
+  const specSegments = segments[0] === "ua" ? segments.slice(1) : segments
+
+  if (specSegments.length === 0) {
+    return ["core"]
+  }
+
+  return [
+    specSegments.join("/"),
+    specSegments.join("-"),
+    specSegments[specSegments.length - 1],
+  ]
+}
+
+// Files closer to the scanned root win slug collisions with nested copies
+const byDepthThenPath = (a: string, b: string): number =>
+  a.split(/[\\/]/).length - b.split(/[\\/]/).length ||
+  (a < b ? -1 : a > b ? 1 : 0)
+
+const slugify = (value: string): string =>
+  value
+    .replace(/[^a-z0-9]+/gi, "-")
+    .replace(/^-+|-+$/g, "")
+    .toLowerCase()
+
+// Assigns every NodeSet file of the GitHub tree a slug. Files are grouped by
+// their top-level folder: the file named after the folder, or the only file
+// of the folder, gets the folder slug (`machinery`) and every other file a
+// sub-slug (`machinery/result`). Files whose names collide fall back to a
+// sub-slug of their directories. The outcome only depends on the set of
+// paths, not on the order the tree lists them
+const assignSlugs = (
+  files: ReadonlyArray<{ readonly path: string; readonly sha: string }>,
+) => {
+  const folders = new Map<
+    string,
+    { segment: string; files: Array<{ path: string; sha: string }> }
+  >()
+  for (const file of files) {
+    const slugInfo = slugFromPath(file.path)
+    if (Option.isNone(slugInfo)) {
+      continue
+    }
+    const { slug, segment } = slugInfo.value
+    const folder = folders.get(slug) ?? { segment, files: [] }
+    folder.files.push(file)
+    folders.set(slug, folder)
+  }
+
+  const assigned = new Map<string, NodeSetFileAssignment>()
+  const skipped: string[] = []
+  const assign = (
+    candidates: ReadonlyArray<string>,
+    folderSlug: string,
+    segment: string,
+    file: { readonly path: string; readonly sha: string },
+  ) => {
+    const slug = candidates.find((candidate) => !assigned.has(candidate))
+    if (slug === undefined) {
+      skipped.push(file.path)
+      return
+    }
+    assigned.set(slug, {
+      slug,
+      folderSlug,
+      segment,
+      path: file.path,
+      blobSha: file.sha,
+    })
+  }
+
+  for (const folderSlug of Array.from(folders.keys()).sort()) {
+    const { segment, files } = folders.get(folderSlug)!
+    const sorted = files.sort((a, b) => byDepthThenPath(a.path, b.path))
+    const primary =
+      sorted.length === 1
+        ? sorted[0]
+        : sorted.find((file) => slugFromFileName(file.path) === folderSlug)
+    if (primary !== undefined) {
+      assign([folderSlug], folderSlug, segment, primary)
+    }
+
+    for (const file of sorted) {
+      if (file === primary) {
+        continue
+      }
+      const fileSlug = slugFromFileName(file.path)
+      const subSlug = fileSlug.startsWith(`${folderSlug}-`)
+        ? fileSlug.slice(folderSlug.length + 1)
+        : fileSlug
+      // `Machinery/Result/v2/Opc.Ua.Machinery.Result.NodeSet2.xml` -> `result-v2`
+      const directories = file.path.split("/").slice(1, -1).join("-")
+      const directorySlug = slugify(directories)
+      assign(
+        [
+          `${folderSlug}/${subSlug}`,
+          `${folderSlug}/${directorySlug}`,
+          `${folderSlug}/${directorySlug}-${subSlug}`,
+        ].filter((candidate) => !candidate.endsWith("/")),
+        folderSlug,
+        segment,
+        file,
+      )
+    }
+  }
+
+  return { assigned: Array.from(assigned.values()), skipped } as const
+}
+
 const matchesQuery = (query: string, entry: NodeSetCatalogEntry): boolean => {
   if (query.length === 0) {
     return true
@@ -262,6 +495,11 @@ export class NodeSetCatalog extends Effect.Service<NodeSetCatalog>()(
   {
     scoped: Effect.gen(function* () {
       const keyValueStore = yield* KeyValueStore.KeyValueStore
+      const fs = yield* FileSystem
+      const config = yield* ServerConfig
+      const lock = yield* NodeSetLock
+      const reader = yield* NodeSetReader
+      const scope = yield* Effect.scope
       const httpClient = (yield* HttpClient.HttpClient).pipe(
         HttpClient.filterStatusOk,
         HttpClient.mapRequest(
@@ -280,9 +518,65 @@ export class NodeSetCatalog extends Effect.Service<NodeSetCatalog>()(
       const persistedRef =
         yield* Ref.make<ReadonlyArray<NodeSetCatalogEntry>>(persistedEntries)
 
-      const fetchRemoteEntries = Effect.fn("NodeSetCatalog.fetchRemoteEntries")(
+      const namespacesStore = keyValueStore.forSchema(namespacesSchema)
+      const namespacesRef = yield* Ref.make<
+        Readonly<Record<string, ReadonlyArray<string>>>
+      >(
+        yield* namespacesStore
+          .get(namespacesKey)
+          .pipe(Effect.map(Option.getOrElse(() => ({})))),
+      )
+      const localRef = yield* Ref.make<ReadonlyArray<NodeSetCatalogEntry>>([])
+
+      // Built-in entries, at the locked commit once there is a lock file
+      const builtinAt = (locked: Option.Option<NodeSetLockFile>) =>
+        Option.match(locked, {
+          onNone: () => {
+            const rawRoot = rawRootAt(config.githubRepo, config.githubRef)
+            return builtinEntries.map((entry) => atRepository(entry, rawRoot))
+          },
+          onSome: (locked) => {
+            const rawRoot = rawRootAt(config.githubRepo, locked.commit)
+            return builtinEntries.map((entry) =>
+              atRepository(
+                entry,
+                rawRoot,
+                Option.getOrUndefined(lockedRevision(locked, entry.slug)),
+              ),
+            )
+          },
+        })
+
+      // Commit the configured tag or branch currently points at
+      const resolveCommit = Effect.fn("NodeSetCatalog.resolveCommit")(
         function* () {
-          const url = `${GITHUB_API_ROOT}/git/trees/${GITHUB_REF}?recursive=1`
+          const url = `https://api.github.com/repos/${config.githubRepo}/commits/${encodeURIComponent(config.githubRef)}`
+          const response = yield* httpClient.get(url).pipe(
+            Effect.andThen(
+              HttpClientResponse.schemaBodyJson(GitHubCommitResponse),
+            ),
+            Effect.tapErrorCause((cause) =>
+              Effect.logError(
+                `Failed to resolve ${config.githubRepo}@${config.githubRef}`,
+                cause,
+              ),
+            ),
+            Effect.mapError(
+              (cause) =>
+                new NodeSetCatalogFetchError({
+                  cause,
+                  message: `Failed to resolve ${config.githubRepo}@${config.githubRef} to a commit`,
+                }),
+            ),
+          )
+          return response.sha
+        },
+      )
+
+      const fetchRemoteEntries = Effect.fn("NodeSetCatalog.fetchRemoteEntries")(
+        function* (commit: string) {
+          const url = `https://api.github.com/repos/${config.githubRepo}/git/trees/${commit}?recursive=1`
+          const rawRoot = rawRootAt(config.githubRepo, commit)
 
           const response = yield* httpClient.get(url).pipe(
             Effect.andThen((res) =>
@@ -300,26 +594,16 @@ export class NodeSetCatalog extends Effect.Service<NodeSetCatalog>()(
             ),
           )
 
-          const entries = new Map<string, NodeSetCatalogEntry>()
-
-          for (const item of response.tree) {
-            if (item.type !== "blob" || !NODESET_FILE_PATTERN.test(item.path)) {
-              continue
-            }
-
-            const slugInfo = slugFromPath(item.path)
-            if (Option.isNone(slugInfo)) {
-              continue
-            }
-
-            const { slug, segment } = slugInfo.value
-
-            if (entries.has(slug)) {
-              continue
-            }
-
-            const entry = createEntry(slug, segment, item.path)
-            entries.set(slug, entry)
+          const { assigned, skipped } = assignSlugs(
+            response.tree.filter(
+              (item) =>
+                item.type === "blob" && NODESET_FILE_PATTERN.test(item.path),
+            ),
+          )
+          for (const file of skipped) {
+            yield* Effect.logWarning(
+              `Skipping ${file}: no free catalog slug for it in the GitHub tree`,
+            )
           }
 
           if (response.truncated === true) {
@@ -328,22 +612,115 @@ export class NodeSetCatalog extends Effect.Service<NodeSetCatalog>()(
             )
           }
 
-          return Array.from(entries.values())
+          const snapshot: NodeSetCatalogSnapshot = {
+            commit,
+            entries: assigned.map((file) => createEntry(rawRoot, file, commit)),
+          }
+          return snapshot
+        },
+      )
+
+      // Reads the headers of the files whose model URIs are not known yet, so
+      // discovered entries list their namespaces before they are loaded.
+      // URIs are kept by blob SHA, so only new or changed files are read. Runs
+      // in the background, one read at a time, so listing never waits for it
+      const headerReads = yield* Effect.makeSemaphore(1)
+      const readNamespaces = Effect.fn("NodeSetCatalog.readNamespaces")(
+        function* (entries: ReadonlyArray<NodeSetCatalogEntry>) {
+          const known = yield* Ref.get(namespacesRef)
+          const unread = entries.filter(
+            (entry) => known[headerKey(entry)] === undefined,
+          )
+          if (unread.length === 0) {
+            return
+          }
+
+          const read = yield* Effect.forEach(
+            unread,
+            (entry) =>
+              reader.fetchHeader(entry).pipe(
+                Effect.map(
+                  Option.map(
+                    ({ models }) =>
+                      [
+                        headerKey(entry),
+                        models
+                          .map((model) => model.modelUri)
+                          .filter((uri) => uri !== ""),
+                      ] as const,
+                  ),
+                ),
+                Effect.catchAll((error) =>
+                  Effect.as(
+                    Effect.logWarning(
+                      `Failed to read the header of NodeSet ${entry.slug}: ${error.message}`,
+                    ),
+                    Option.none(),
+                  ),
+                ),
+              ),
+            { concurrency: config.concurrency },
+          ).pipe(
+            Effect.map((results) =>
+              results
+                .flatMap(Option.toArray)
+                .filter(([, uris]) => uris.length > 0),
+            ),
+          )
+          if (read.length === 0) {
+            return
+          }
+
+          const next = yield* Ref.updateAndGet(namespacesRef, (current) => ({
+            ...current,
+            ...Object.fromEntries(read),
+          }))
+          yield* namespacesStore.set(namespacesKey, next).pipe(
+            Effect.tapErrorCause((cause) =>
+              Effect.logWarning(
+                "Failed to persist the namespace URIs of the NodeSet catalog",
+                cause,
+              ),
+            ),
+            Effect.ignore,
+          )
+          yield* Effect.logInfo(
+            `Read the namespace URIs of ${read.length} of ${unread.length} new NodeSet files`,
+          )
         },
       )
 
+      // Entries at the commit the ref points at now, regardless of the lock
+      const upstream = Effect.fn("NodeSetCatalog.upstream")(function* () {
+        const commit = yield* resolveCommit()
+        return yield* fetchRemoteEntries(commit)
+      })
+
+      // Entries at the locked commit, or at the latest one without a lock
       const remoteCache = yield* Cache.make<
         string,
-        ReadonlyArray<NodeSetCatalogEntry>,
+        NodeSetCatalogSnapshot,
         NodeSetCatalogFetchError
       >({
         capacity: 1,
         timeToLive: Duration.hours(6),
         lookup: () =>
-          fetchRemoteEntries().pipe(
-            Effect.tap((entries) =>
+          Effect.gen(function* () {
+            const locked = yield* lock.read()
+            const commit = Option.isSome(locked)
+              ? locked.value.commit
+              : yield* resolveCommit()
+            return yield* fetchRemoteEntries(commit)
+          }).pipe(
+            Effect.tap(({ commit, entries }) =>
               Effect.logInfo(
-                `Discovered ${entries.length} NodeSets from GitHub repository`,
+                `Discovered ${entries.length} NodeSets from GitHub repository at ${commit}`,
+              ),
+            ),
+            Effect.tap(({ entries }) =>
+              Effect.forkIn(
+                headerReads.withPermits(1)(readNamespaces(entries)),
+                scope,
               ),
             ),
           ),
@@ -352,21 +729,34 @@ export class NodeSetCatalog extends Effect.Service<NodeSetCatalog>()(
       const computeEntries = Effect.fn("NodeSetCatalog.computeEntries")(
         function* () {
           const persisted = yield* Ref.get(persistedRef)
+          const builtin = builtinAt(yield* lock.read())
 
           const remote = yield* remoteCache.get("catalog").pipe(
+            Effect.map(({ entries }) => entries),
             Effect.catchAll((cause) =>
               Effect.gen(function* () {
                 yield* Effect.logWarning(
                   "Falling back to built-in NodeSet catalog due to fetch failure",
                   cause,
                 )
-                return builtinEntries
+                return builtin
               }),
             ),
           )
 
-          const mergedRemote = mergeEntries(remote, builtinEntries, [])
-          return mergeEntries(mergedRemote, [], persisted)
+          const local = yield* Ref.get(localRef)
+          const namespaces = yield* Ref.get(namespacesRef)
+
+          const mergedRemote = mergeEntries(remote, builtin, [])
+          const mergedLocal = mergeEntries(mergedRemote, [], local).map(
+            (entry) => {
+              const uris = namespaces[headerKey(entry)]
+              return uris === undefined
+                ? entry
+                : new NodeSetCatalogEntry({ ...entry, namespaceUris: uris })
+            },
+          )
+          return mergeEntries(mergedLocal, [], persisted)
         },
       )
 
@@ -374,11 +764,32 @@ export class NodeSetCatalog extends Effect.Service<NodeSetCatalog>()(
         return yield* computeEntries()
       })
 
+      // The configured preload slugs in their order, or else the entries
+      // selected by default
       const defaults = Effect.fn("NodeSetCatalog.defaults")(function* () {
         const entries = yield* computeEntries()
-        return entries.filter((entry) => entry.defaultSelection)
+        return Option.match(config.preload, {
+          onNone: () => entries.filter((entry) => entry.defaultSelection),
+          onSome: (slugs) =>
+            slugs.flatMap((slug) =>
+              entries.filter(
+                (entry) => normalize(entry.slug) === normalize(slug),
+              ),
+            ),
+        })
       })
 
+      // Slugs loaded at startup. Configured slugs are kept even when the
+      // catalog has no such entry, so they are reported as failed to load
+      const defaultSlugs = Effect.fn("NodeSetCatalog.defaultSlugs")(
+        function* () {
+          if (Option.isSome(config.preload)) {
+            return config.preload.value.map(normalize)
+          }
+          return (yield* defaults()).map((entry) => entry.slug)
+        },
+      )
+
       const resolve = Effect.fn("NodeSetCatalog.resolve")(function* (
         slug: NodeSetSlug,
       ) {
@@ -398,6 +809,40 @@ export class NodeSetCatalog extends Effect.Service<NodeSetCatalog>()(
         return entry
       })
 
+      // Finds the entry providing a `<RequiredModel>`: first by declared
+      // namespace URI, then by the slug conventions of the UA-Nodeset repository
+      const findByModelUri = Effect.fn("NodeSetCatalog.findByModelUri")(
+        function* (modelUri: string) {
+          const entries = yield* computeEntries()
+          const normalizedUri = normalize(modelUri).replace(/\/+$/, "")
+
+          const declaring = entries.filter((entry) =>
+            entry.namespaceUris.some(
+              (uri) => normalize(uri).replace(/\/+$/, "") === normalizedUri,
+            ),
+          )
+          // A local file providing the model wins over a remote entry, so
+          // NodeSets ingested side by side resolve to each other offline
+          const declared =
+            declaring.find((entry) => isLocalLocation(entry.nodeSetUrl)) ??
+            declaring[0]
+          if (declared) {
+            return Option.some(declared)
+          }
+
+          for (const candidate of slugCandidatesForModelUri(modelUri)) {
+            const entry = entries.find(
+              (current) => normalize(current.slug) === candidate,
+            )
+            if (entry) {
+              return Option.some(entry)
+            }
+          }
+
+          return Option.none<NodeSetCatalogEntry>()
+        },
+      )
+
       const search = Effect.fn("NodeSetCatalog.search")(function* (
         query: string,
       ) {
@@ -435,8 +880,136 @@ export class NodeSetCatalog extends Effect.Service<NodeSetCatalog>()(
         )
       })
 
-      return { list, defaults, resolve, search, addNodeSet } as const
+      // Keeps the model URIs from the header of a loaded file, so the entry
+      // lists them and `findByModelUri` finds it on later runs
+      const recordNamespaces = Effect.fn("NodeSetCatalog.recordNamespaces")(
+        function* (
+          entry: NodeSetCatalogEntry,
+          namespaceUris: ReadonlyArray<string>,
+        ) {
+          const key = headerKey(entry)
+          const current = yield* Ref.get(namespacesRef)
+          if (
+            namespaceUris.length === 0 ||
+            current[key]?.join("\n") === namespaceUris.join("\n")
+          ) {
+            return
+          }
+
+          const next = yield* Ref.updateAndGet(namespacesRef, (current) => ({
+            ...current,
+            [key]: namespaceUris,
+          }))
+          yield* namespacesStore.set(namespacesKey, next).pipe(
+            Effect.tapErrorCause((cause) =>
+              Effect.logWarning(
+                `Failed to persist the namespace URIs of NodeSet ${entry.slug}`,
+                cause,
+              ),
+            ),
+            Effect.ignore,
+          )
+        },
+      )
+
+      const scanDirectory = Effect.fn("NodeSetCatalog.scanDirectory")(
+        function* (
+          directory: string,
+          options?: { readonly slugPrefix?: string },
+        ) {
+          const root = toFilePath(directory)
+          yield* Effect.annotateCurrentSpan({ directory: root })
+
+          const files = yield* fs.readDirectory(root, { recursive: true }).pipe(
+            Effect.mapError(
+              (cause) =>
+                new NodeSetDirectoryError({
+                  cause,
+                  message: `Failed to read NodeSet directory ${root}`,
+                }),
+            ),
+          )
+
+          const entries = new Map<string, NodeSetCatalogEntry>()
+
+          for (const file of files
+            .filter((f) => NODESET_FILE_PATTERN.test(f))
+            .sort(byDepthThenPath)) {
+            const fileSlug = slugFromFileName(file)
+            const slug = options?.slugPrefix
+              ? `${normalize(options.slugPrefix)}/${fileSlug}`
+              : fileSlug
+
+            if (entries.has(slug)) {
+              yield* Effect.logWarning(
+                `Skipping ${file}: slug ${slug} already provided by another file in ${root}`,
+              )
+              continue
+            }
+
+            entries.set(slug, createLocalEntry(slug, path.join(root, file)))
+          }
+
+          yield* Effect.logInfo(
+            `Found ${entries.size} NodeSet files in directory ${root}`,
+          )
+
+          return Array.from(entries.values())
+        },
+      )
+
+      // Adds local entries, replacing those of the same slug
+      const registerEntries = Effect.fn("NodeSetCatalog.registerEntries")(
+        function* (entries: ReadonlyArray<NodeSetCatalogEntry>) {
+          yield* Ref.update(localRef, (current) =>
+            mergeEntries(current, [], entries),
+          )
+        },
+      )
+
+      const registerDirectory = Effect.fn("NodeSetCatalog.registerDirectory")(
+        function* (
+          directory: string,
+          options?: { readonly slugPrefix?: string },
+        ) {
+          const entries = yield* scanDirectory(directory, options)
+          yield* registerEntries(entries)
+          return entries
+        },
+      )
+
+      // Drops the discovered entries, e.g. after the lock moved to another commit
+      const invalidate = Effect.fn("NodeSetCatalog.invalidate")(function* () {
+        yield* remoteCache.invalidateAll
+      })
+
+      for (const directory of config.nodesetDirs) {
+        yield* registerDirectory(directory)
+      }
+
+      return {
+        list,
+        defaults,
+        defaultSlugs,
+        resolve,
+        findByModelUri,
+        search,
+        addNodeSet,
+        recordNamespaces,
+        scanDirectory,
+        registerEntries,
+        registerDirectory,
+        upstream,
+        invalidate,
+      } as const
     }),
-    dependencies: [NodeHttpClient.layerUndici],
+    dependencies: [
+      ServerConfig.Default,
+      NodeSetLock.Default,
+      NodeSetReader.Default,
+      NodeHttpClient.layerUndici,
+      NodeFileSystem.layer,
+      PersistentStore,
+    ],
   },
 ) {}
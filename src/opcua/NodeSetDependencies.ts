@@ -0,0 +1,197 @@
+import { Data, Either } from "effect"
+import type { ModelInfo, NodeSet, NodeSetCatalogEntry } from "./types.js"
+
+export class NodeSetDependencyCycle extends Data.TaggedError(
+  "NodeSetDependencyCycle",
+)<{ readonly cycle: ReadonlyArray<string>; readonly message: string }> {}
+
+export class NodeSetRequiredModelMissing extends Data.TaggedError(
+  "NodeSetRequiredModelMissing",
+)<{
+  readonly slug: string
+  readonly modelUri: string
+  readonly version?: string
+  readonly message: string
+}> {}
+
+export class NodeSetRequiredModelIncompatible extends Data.TaggedError(
+  "NodeSetRequiredModelIncompatible",
+)<{
+  readonly slug: string
+  readonly modelUri: string
+  readonly requiredVersion?: string
+  readonly requiredPublicationDate?: string
+  readonly availableVersion?: string
+  readonly availablePublicationDate?: string
+  readonly message: string
+}> {}
+
+export interface LoadedNodeSet {
+  readonly entry: NodeSetCatalogEntry
+  readonly nodeSet: NodeSet
+}
+
+const normalizeUri = (uri: string): string =>
+  uri.trim().replace(/\/+$/, "").toLowerCase()
+
+export const sameModelUri = (a: string, b: string): boolean =>
+  normalizeUri(a) === normalizeUri(b)
+
+// Orders slugs so every slug comes after its dependencies. `dependenciesOf`
+// returns the direct dependencies of a slug; the first cycle found fails.
+export const topologicalOrder = (
+  roots: ReadonlyArray<string>,
+  dependenciesOf: (slug: string) => ReadonlyArray<string>,
+): Either.Either<ReadonlyArray<string>, NodeSetDependencyCycle> => {
+  const ordered: string[] = []
+  const done = new Set<string>()
+  const stack: string[] = []
+
+  const visit = (slug: string): NodeSetDependencyCycle | undefined => {
+    if (done.has(slug)) return undefined
+
+    const cycleStart = stack.indexOf(slug)
+    if (cycleStart >= 0) {
+      const cycle = [...stack.slice(cycleStart), slug]
+      return new NodeSetDependencyCycle({
+        cycle,
+        message: `NodeSet dependency cycle detected: ${cycle.join(" -> ")}`,
+      })
+    }
+
+    stack.push(slug)
+    for (const dependency of dependenciesOf(slug)) {
+      const error = visit(dependency)
+      if (error) return error
+    }
+    stack.pop()
+
+    done.add(slug)
+    ordered.push(slug)
+    return undefined
+  }
+
+  for (const root of roots) {
+    const error = visit(root)
+    if (error) return Either.left(error)
+  }
+
+  return Either.right(ordered)
+}
+
+// Compares dotted version strings numerically (`1.04.6` < `1.05`). Returns
+// undefined when either side is not a dotted number.
+export const compareVersions = (a: string, b: string): number | undefined => {
+  const parse = (version: string) => {
+    const parts = version.trim().split(/[.\-]/)
+    return parts.every((part) => /^\d+$/.test(part))
+      ? parts.map(Number)
+      : undefined
+  }
+  const left = parse(a)
+  const right = parse(b)
+  if (!left || !right) return undefined
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0)
+    if (diff !== 0) return Math.sign(diff)
+  }
+  return 0
+}
+
+// Models provided by a NodeSet; files without a `<Models>` header provide their namespaces
+export const providedModels = (
+  nodeSet: NodeSet,
+): ReadonlyArray<
+  Pick<ModelInfo, "modelUri" | "version" | "publicationDate">
+> =>
+  nodeSet.models.length > 0
+    ? nodeSet.models
+    : nodeSet.namespaces.map((ns) => ({
+        modelUri: ns.uri,
+        version: ns.version,
+        publicationDate: ns.publicationDate,
+      }))
+
+export const findProvider = (
+  loaded: ReadonlyArray<LoadedNodeSet>,
+  modelUri: string,
+) => {
+  for (const candidate of loaded) {
+    const model = providedModels(candidate.nodeSet).find((provided) =>
+      sameModelUri(provided.modelUri, modelUri),
+    )
+    if (model) return { loaded: candidate, model } as const
+  }
+  return undefined
+}
+
+// ModelUris required by the loaded NodeSets that none of them provides
+export const missingRequiredModels = (loaded: ReadonlyArray<LoadedNodeSet>) =>
+  loaded.flatMap(({ entry, nodeSet }) =>
+    nodeSet.models.flatMap((model) =>
+      model.requiredModels
+        .filter((required) => !findProvider(loaded, required.modelUri))
+        .map((required) => ({ slug: entry.slug, required }) as const),
+    ),
+  )
+
+export type RequiredModelProblem =
+  | NodeSetRequiredModelMissing
+  | NodeSetRequiredModelIncompatible
+
+// Checks every `<RequiredModel>` against the loaded models: the model must be
+// present and at least the required version (or publication date)
+export const checkRequiredModels = (
+  loaded: ReadonlyArray<LoadedNodeSet>,
+): ReadonlyArray<RequiredModelProblem> =>
+  loaded.flatMap(({ entry, nodeSet }) =>
+    nodeSet.models.flatMap((model) =>
+      model.requiredModels.flatMap((required): Array<RequiredModelProblem> => {
+        const provider = findProvider(loaded, required.modelUri)
+        if (!provider) {
+          return [
+            new NodeSetRequiredModelMissing({
+              slug: entry.slug,
+              modelUri: required.modelUri,
+              version: required.version,
+              message: `NodeSet ${entry.slug} requires model ${required.modelUri}${
+                required.version ? ` ${required.version}` : ""
+              }, which is not loaded or available in the catalog`,
+            }),
+          ]
+        }
+
+        const available = provider.model
+        const versionOrder =
+          required.version && available.version
+            ? compareVersions(available.version, required.version)
+            : undefined
+        const tooOld =
+          versionOrder !== undefined
+            ? versionOrder < 0
+            : required.publicationDate !== undefined &&
+              available.publicationDate !== undefined &&
+              Date.parse(available.publicationDate) <
+                Date.parse(required.publicationDate)
+
+        if (!tooOld) return []
+
+        return [
+          new NodeSetRequiredModelIncompatible({
+            slug: entry.slug,
+            modelUri: required.modelUri,
+            requiredVersion: required.version,
+            requiredPublicationDate: required.publicationDate,
+            availableVersion: available.version,
+            availablePublicationDate: available.publicationDate,
+            message: `NodeSet ${entry.slug} requires ${required.modelUri} ${
+              required.version ?? required.publicationDate
+            } but ${provider.loaded.entry.slug} provides ${
+              available.version ?? available.publicationDate
+            }`,
+          }),
+        ]
+      }),
+    ),
+  )
@@ -0,0 +1,677 @@
+import { Effect, Option } from "effect"
+import {
+  AttributeChange,
+  DataTypeDefinition,
+  DataTypeField,
+  FieldChange,
+  LocalizedText,
+  NodeChange,
+  type NodeId,
+  NodeSet,
+  NodeSetDiffFinding,
+  NodeSetDiffReport,
+  NodeSummary,
+  type ParsedUANode,
+  type Reference,
+  ReferenceChange,
+} from "./types.js"
+import {
+  NodeSetCatalog,
+  NodeSetCatalogNotFound,
+  nodeSetUrlAtRef,
+} from "./NodeSetCatalog.js"
+import { NodeSetLoader, NodeSetLoaderError } from "./NodeSetLoader.js"
+import type { LoadedNodeSet } from "./NodeSetDependencies.js"
+import { isRemoteLocation } from "./NodeSetLocation.js"
+import { ObjectIds, ReferenceTypeIds } from "./StandardNodes.js"
+import {
+  formatAccessLevel,
+  formatEventNotifier,
+  summarizeValue,
+} from "./ValueFormat.js"
+
+export const DiffRules = {
+  // Breaking
+  RemovedType: "removed-type",
+  RemovedMandatory: "removed-mandatory",
+  NodeClassChanged: "node-class-changed",
+  BrowseNameChanged: "browse-name-changed",
+  DataTypeChanged: "data-type-changed",
+  ValueRankChanged: "value-rank-changed",
+  TypeDefinitionChanged: "type-definition-changed",
+  SupertypeChanged: "supertype-changed",
+  ModellingRuleChanged: "modelling-rule-changed",
+  MadeAbstract: "made-abstract",
+  DefinitionKindChanged: "definition-kind-changed",
+  FieldRemoved: "field-removed",
+  FieldTypeChanged: "field-type-changed",
+  RequiredFieldAdded: "required-field-added",
+  EnumValueRemoved: "enum-value-removed",
+  EnumValueChanged: "enum-value-changed",
+  // Additive
+  TypeAdded: "type-added",
+  ComponentAdded: "component-added",
+  FieldAdded: "field-added",
+  EnumValueAdded: "enum-value-added",
+} as const
+
+const TYPE_NODE_CLASSES = new Set<ParsedUANode["nodeClass"]>([
+  "ObjectType",
+  "VariableType",
+  "DataType",
+  "ReferenceType",
+])
+
+const MANDATORY_RULES = new Set<string>([
+  ObjectIds.ModellingRule_Mandatory,
+  ObjectIds.ModellingRule_MandatoryPlaceholder,
+])
+
+const aggregateReferenceTypes: ReadonlyArray<
+  readonly [id: string, name: string]
+> = [
+  [ReferenceTypeIds.HasComponent, "HasComponent"],
+  [ReferenceTypeIds.HasProperty, "HasProperty"],
+  [ReferenceTypeIds.HasOrderedComponent, "HasOrderedComponent"],
+  [ReferenceTypeIds.HasAddIn, "HasAddIn"],
+]
+
+const isReferenceOfType = (ref: Reference, typeId: string, name: string) =>
+  ref.referenceTypeId
+    ? ref.referenceTypeId.toString() === typeId
+    : ref.referenceType === name
+
+const isAggregate = (ref: Reference) =>
+  aggregateReferenceTypes.some(([id, name]) => isReferenceOfType(ref, id, name))
+
+const referenceTarget = (
+  node: ParsedUANode,
+  typeId: string,
+  name: string,
+  isForward: boolean,
+): string | undefined =>
+  node.references
+    .find(
+      (ref) =>
+        ref.isForward === isForward && isReferenceOfType(ref, typeId, name),
+    )
+    ?.targetNodeId.toString()
+
+const modellingRule = (node: ParsedUANode) =>
+  referenceTarget(
+    node,
+    ReferenceTypeIds.HasModellingRule,
+    "HasModellingRule",
+    true,
+  )
+
+const typeDefinition = (node: ParsedUANode) =>
+  referenceTarget(
+    node,
+    ReferenceTypeIds.HasTypeDefinition,
+    "HasTypeDefinition",
+    true,
+  )
+
+const supertype = (node: ParsedUANode) =>
+  referenceTarget(node, ReferenceTypeIds.HasSubtype, "HasSubtype", false)
+
+const formatText = (text: LocalizedText | undefined) =>
+  text && (text.locale ? `${text.locale}: ${text.text}` : text.text)
+
+const formatType = (name: string | undefined, id: NodeId | undefined) =>
+  id ? `${name} (${id.toString()})` : name
+
+const formatDimensions = (dimensions: ReadonlyArray<number> | undefined) =>
+  dimensions?.join(",")
+
+const formatOptional = <A>(
+  value: A | undefined,
+  format: (value: A) => string = String,
+) => (value === undefined ? undefined : format(value))
+
+// Attributes compared between versions, in their display form
+const nodeAttributes: ReadonlyArray<
+  readonly [string, (node: ParsedUANode) => string | undefined]
+> = [
+  [
+    "BrowseName",
+    (node) =>
+      node.browseNameNamespaceUri
+        ? `${node.browseNameNamespaceUri}:${node.browseName}`
+        : node.browseName,
+  ],
+  ["NodeClass", (node) => node.nodeClass],
+  ["DisplayName", (node) => formatText(node.displayName)],
+  [
+    "Description",
+    (node) => formatText(Option.getOrUndefined(node.description)),
+  ],
+  ["DataType", (node) => formatType(node.dataType, node.dataTypeId)],
+  ["ValueRank", (node) => formatOptional(node.valueRank)],
+  ["ArrayDimensions", (node) => formatDimensions(node.arrayDimensions)],
+  [
+    "AccessLevel",
+    (node) => formatOptional(node.accessLevel, formatAccessLevel),
+  ],
+  [
+    "UserAccessLevel",
+    (node) => formatOptional(node.userAccessLevel, formatAccessLevel),
+  ],
+  ["Historizing", (node) => formatOptional(node.historizing)],
+  [
+    "MinimumSamplingInterval",
+    (node) => formatOptional(node.minimumSamplingInterval),
+  ],
+  [
+    "Value",
+    (node) => formatOptional(node.value, (value) => summarizeValue(value, 500)),
+  ],
+  [
+    "EventNotifier",
+    (node) => formatOptional(node.eventNotifier, formatEventNotifier),
+  ],
+  ["IsAbstract", (node) => formatOptional(node.isAbstract)],
+  ["Symmetric", (node) => formatOptional(node.symmetric)],
+  ["InverseName", (node) => formatText(node.inverseName)],
+  ["ParentNodeId", (node) => node.parentNodeId?.toString()],
+  ["MethodDeclarationId", (node) => node.methodDeclarationId?.toString()],
+  ["SymbolicName", (node) => node.symbolicName],
+  ["ReleaseStatus", (node) => node.releaseStatus],
+  ["DefinitionKind", (node) => node.definition?.kind],
+]
+
+const referenceKey = (ref: Reference) =>
+  `${ref.referenceTypeId?.toString() ?? ref.referenceType}|${ref.isForward}|${ref.targetNodeId.toString()}`
+
+const describeField = (field: DataTypeField): string =>
+  [
+    field.dataType !== undefined
+      ? `DataType=${formatType(field.dataType, field.dataTypeId)}`
+      : undefined,
+    field.valueRank !== undefined ? `ValueRank=${field.valueRank}` : undefined,
+    field.arrayDimensions
+      ? `ArrayDimensions=${formatDimensions(field.arrayDimensions)}`
+      : undefined,
+    field.maxStringLength !== undefined
+      ? `MaxStringLength=${field.maxStringLength}`
+      : undefined,
+    field.isOptional ? "Optional" : undefined,
+    field.allowSubTypes ? "AllowSubTypes" : undefined,
+    field.value !== undefined ? `Value=${field.value}` : undefined,
+  ]
+    .filter((part) => part !== undefined)
+    .join(", ")
+
+const fieldTypeKey = (field: DataTypeField) =>
+  `${field.dataTypeId?.toString() ?? field.dataType}|${field.valueRank ?? -1}`
+
+const isEnumerated = (definition: DataTypeDefinition | undefined) =>
+  definition?.kind === "Enumeration" || definition?.kind === "OptionSet"
+
+const summarize = (node: ParsedUANode) =>
+  new NodeSummary(
+    {
+      nodeId: node.nodeId.toString(),
+      browseName: node.browseName,
+      nodeClass: node.nodeClass,
+    },
+    true,
+  )
+
+const standardRuleName = (nodeId: string) =>
+  Object.entries(ObjectIds)
+    .find(([, id]) => id === nodeId)?.[0]
+    .replace(/^ModellingRule_/, "")
+
+const describeTarget = (
+  nodeId: string | undefined,
+  nodes: ReadonlyMap<string, ParsedUANode>,
+) => {
+  if (nodeId === undefined) return "none"
+  const name = nodes.get(nodeId)?.browseName ?? standardRuleName(nodeId)
+  return name ? `${name} (${nodeId})` : nodeId
+}
+
+const diffFields = (
+  before: DataTypeDefinition | undefined,
+  after: DataTypeDefinition | undefined,
+): ReadonlyArray<FieldChange> => {
+  const beforeFields = before?.fields ?? []
+  const afterFields = after?.fields ?? []
+  const afterByName = new Map(
+    afterFields.map((field) => [field.name, field] as const),
+  )
+  const beforeNames = new Set(beforeFields.map((field) => field.name))
+
+  return [
+    ...beforeFields.flatMap((field) => {
+      const match = afterByName.get(field.name)
+      if (!match) {
+        return [
+          new FieldChange(
+            {
+              field: field.name,
+              change: "removed",
+              before: describeField(field),
+            },
+            true,
+          ),
+        ]
+      }
+      const [was, is] = [describeField(field), describeField(match)]
+      return was === is
+        ? []
+        : [
+            new FieldChange(
+              { field: field.name, change: "changed", before: was, after: is },
+              true,
+            ),
+          ]
+    }),
+    ...afterFields
+      .filter((field) => !beforeNames.has(field.name))
+      .map(
+        (field) =>
+          new FieldChange(
+            { field: field.name, change: "added", after: describeField(field) },
+            true,
+          ),
+      ),
+  ]
+}
+
+// Compares two versions of a NodeSet. Nodes are matched by namespace URI and
+// identifier, so the namespace indexes of the two files do not matter.
+export const diffNodeSets = (
+  base: NodeSet,
+  target: NodeSet,
+): NodeSetDiffReport => {
+  const baseNodes = new Map(
+    base.nodes.map((node) => [node.nodeId.toString(), node] as const),
+  )
+  const targetNodes = new Map(
+    target.nodes.map((node) => [node.nodeId.toString(), node] as const),
+  )
+  const breaking: NodeSetDiffFinding[] = []
+  const additive: NodeSetDiffFinding[] = []
+  const report = (
+    findings: NodeSetDiffFinding[],
+    rule: string,
+    nodeId: string,
+    message: string,
+  ) => findings.push(new NodeSetDiffFinding({ rule, nodeId, message }, true))
+
+  // Parent of an instance declaration, for messages and component checks
+  const parentOf = (
+    node: ParsedUANode,
+    nodes: ReadonlyMap<string, ParsedUANode>,
+  ) => {
+    const ref = node.references.find(
+      (ref) => !ref.isForward && isAggregate(ref),
+    )
+    return ref && nodes.get(ref.targetNodeId.toString())
+  }
+  const label = (
+    node: ParsedUANode,
+    nodes: ReadonlyMap<string, ParsedUANode>,
+  ) => {
+    const parent = parentOf(node, nodes)
+    return parent ? `${parent.browseName}.${node.browseName}` : node.browseName
+  }
+
+  const removed = base.nodes.filter(
+    (node) => !targetNodes.has(node.nodeId.toString()),
+  )
+  for (const node of removed) {
+    const nodeId = node.nodeId.toString()
+    if (TYPE_NODE_CLASSES.has(node.nodeClass)) {
+      report(
+        breaking,
+        DiffRules.RemovedType,
+        nodeId,
+        `${node.nodeClass} ${node.browseName} was removed`,
+      )
+    } else if (MANDATORY_RULES.has(modellingRule(node) ?? "")) {
+      report(
+        breaking,
+        DiffRules.RemovedMandatory,
+        nodeId,
+        `Mandatory ${node.nodeClass} ${label(node, baseNodes)} was removed`,
+      )
+    }
+  }
+
+  const added = target.nodes.filter(
+    (node) => !baseNodes.has(node.nodeId.toString()),
+  )
+  for (const node of added) {
+    const nodeId = node.nodeId.toString()
+    const parent = parentOf(node, targetNodes)
+    if (TYPE_NODE_CLASSES.has(node.nodeClass)) {
+      report(
+        additive,
+        DiffRules.TypeAdded,
+        nodeId,
+        `${node.nodeClass} ${node.browseName} was added`,
+      )
+    } else if (parent && baseNodes.has(parent.nodeId.toString())) {
+      const rule = modellingRule(node)
+      report(
+        additive,
+        DiffRules.ComponentAdded,
+        nodeId,
+        `${node.nodeClass} ${label(node, targetNodes)} was added${
+          rule ? ` (${standardRuleName(rule) ?? rule})` : ""
+        }`,
+      )
+    }
+  }
+
+  const reportFieldChanges = (
+    name: string,
+    nodeId: string,
+    before: DataTypeDefinition | undefined,
+    after: DataTypeDefinition | undefined,
+    fields: ReadonlyArray<FieldChange>,
+  ) => {
+    const enumerated = isEnumerated(after ?? before)
+    const beforeFields = new Map(
+      before?.fields.map((field) => [field.name, field] as const),
+    )
+    const afterFields = new Map(
+      after?.fields.map((field) => [field.name, field] as const),
+    )
+
+    for (const change of fields) {
+      const was = beforeFields.get(change.field)
+      const is = afterFields.get(change.field)
+      if (enumerated) {
+        if (change.change === "removed") {
+          report(
+            breaking,
+            DiffRules.EnumValueRemoved,
+            nodeId,
+            `${name}: value ${change.field} (${was?.value}) was removed`,
+          )
+        } else if (change.change === "added") {
+          report(
+            additive,
+            DiffRules.EnumValueAdded,
+            nodeId,
+            `${name}: value ${change.field} (${is?.value}) was added`,
+          )
+        } else if (was?.value !== is?.value) {
+          report(
+            breaking,
+            DiffRules.EnumValueChanged,
+            nodeId,
+            `${name}: value of ${change.field} changed from ${was?.value} to ${is?.value}`,
+          )
+        }
+        continue
+      }
+
+      if (change.change === "removed") {
+        report(
+          breaking,
+          DiffRules.FieldRemoved,
+          nodeId,
+          `${name}: field ${change.field} was removed`,
+        )
+      } else if (change.change === "added") {
+        // New optional fields and union alternatives keep existing encodings valid
+        if (is?.isOptional || after?.kind === "Union") {
+          report(
+            additive,
+            DiffRules.FieldAdded,
+            nodeId,
+            `${name}: field ${change.field} was added`,
+          )
+        } else {
+          report(
+            breaking,
+            DiffRules.RequiredFieldAdded,
+            nodeId,
+            `${name}: required field ${change.field} was added`,
+          )
+        }
+      } else if (was && is && fieldTypeKey(was) !== fieldTypeKey(is)) {
+        report(
+          breaking,
+          DiffRules.FieldTypeChanged,
+          nodeId,
+          `${name}: field ${change.field} changed from ${change.before} to ${change.after}`,
+        )
+      }
+    }
+  }
+
+  const changed: NodeChange[] = []
+  for (const before of base.nodes) {
+    const nodeId = before.nodeId.toString()
+    const after = targetNodes.get(nodeId)
+    if (!after) continue
+
+    const name = label(after, targetNodes)
+    const attributes = nodeAttributes.flatMap(([attribute, format]) => {
+      const [was, is] = [format(before), format(after)]
+      return was === is
+        ? []
+        : [new AttributeChange({ attribute, before: was, after: is }, true)]
+    })
+
+    const beforeRefs = new Map(
+      before.references.map((ref) => [referenceKey(ref), ref] as const),
+    )
+    const afterRefs = new Map(
+      after.references.map((ref) => [referenceKey(ref), ref] as const),
+    )
+    const referenceChange = (change: "added" | "removed", ref: Reference) =>
+      new ReferenceChange(
+        {
+          change,
+          referenceType: ref.referenceType,
+          isForward: ref.isForward,
+          targetNodeId: ref.targetNodeId.toString(),
+        },
+        true,
+      )
+    const references = [
+      ...[...beforeRefs]
+        .filter(([key]) => !afterRefs.has(key))
+        .map(([, ref]) => referenceChange("removed", ref)),
+      ...[...afterRefs]
+        .filter(([key]) => !beforeRefs.has(key))
+        .map(([, ref]) => referenceChange("added", ref)),
+    ]
+
+    const fields = diffFields(before.definition, after.definition)
+
+    if (
+      attributes.length === 0 &&
+      references.length === 0 &&
+      fields.length === 0
+    ) {
+      continue
+    }
+    changed.push(
+      new NodeChange(
+        {
+          nodeId,
+          browseName: after.browseName,
+          nodeClass: after.nodeClass,
+          attributes,
+          references,
+          fields,
+        },
+        true,
+      ),
+    )
+
+    if (before.nodeClass !== after.nodeClass) {
+      report(
+        breaking,
+        DiffRules.NodeClassChanged,
+        nodeId,
+        `${name} changed from ${before.nodeClass} to ${after.nodeClass}`,
+      )
+    }
+    if (
+      before.browseName !== after.browseName ||
+      before.browseNameNamespaceUri !== after.browseNameNamespaceUri
+    ) {
+      report(
+        breaking,
+        DiffRules.BrowseNameChanged,
+        nodeId,
+        `BrowseName changed from ${before.browseName} to ${after.browseName}`,
+      )
+    }
+    const dataTypeKey = (node: ParsedUANode) =>
+      node.dataTypeId?.toString() ?? node.dataType
+    if (dataTypeKey(before) !== dataTypeKey(after)) {
+      report(
+        breaking,
+        DiffRules.DataTypeChanged,
+        nodeId,
+        `DataType of ${name} changed from ${before.dataType} to ${after.dataType}`,
+      )
+    }
+    if ((before.valueRank ?? -1) !== (after.valueRank ?? -1)) {
+      report(
+        breaking,
+        DiffRules.ValueRankChanged,
+        nodeId,
+        `ValueRank of ${name} changed from ${before.valueRank ?? -1} to ${after.valueRank ?? -1}`,
+      )
+    }
+    const typeChecks = [
+      [DiffRules.TypeDefinitionChanged, "TypeDefinition", typeDefinition],
+      [DiffRules.SupertypeChanged, "Supertype", supertype],
+      [DiffRules.ModellingRuleChanged, "ModellingRule", modellingRule],
+    ] as const
+    for (const [rule, what, find] of typeChecks) {
+      const [was, is] = [find(before), find(after)]
+      if (was !== is) {
+        report(
+          breaking,
+          rule,
+          nodeId,
+          `${what} of ${name} changed from ${describeTarget(was, baseNodes)} to ${describeTarget(is, targetNodes)}`,
+        )
+      }
+    }
+    if (!before.isAbstract && after.isAbstract) {
+      report(
+        breaking,
+        DiffRules.MadeAbstract,
+        nodeId,
+        `${name} became abstract`,
+      )
+    }
+    if (
+      before.definition &&
+      after.definition &&
+      before.definition.kind !== after.definition.kind
+    ) {
+      report(
+        breaking,
+        DiffRules.DefinitionKindChanged,
+        nodeId,
+        `${name} changed from ${before.definition.kind} to ${after.definition.kind}`,
+      )
+    }
+    reportFieldChanges(
+      name,
+      nodeId,
+      before.definition,
+      after.definition,
+      fields,
+    )
+  }
+
+  return new NodeSetDiffReport(
+    {
+      added: added.map(summarize),
+      removed: removed.map(summarize),
+      changed,
+      breaking,
+      additive,
+    },
+    true,
+  )
+}
+
+export class NodeSetDiff extends Effect.Service<NodeSetDiff>()("NodeSetDiff", {
+  effect: Effect.gen(function* () {
+    const catalog = yield* NodeSetCatalog
+    const loader = yield* NodeSetLoader
+
+    const findEntry = (slug: string) =>
+      catalog.resolve(slug).pipe(
+        Effect.map(Option.some),
+        Effect.catchAll((error) =>
+          error instanceof NodeSetCatalogNotFound
+            ? Effect.succeed(Option.none())
+            : Effect.fail(error),
+        ),
+      )
+
+    // A source is a catalog slug, `slug@ref` for the NodeSet at another tag or
+    // commit of the UA-Nodeset repository, or a file path or URL
+    const loadSource = Effect.fn("NodeSetDiff.loadSource")(function* (
+      source: string,
+    ) {
+      const trimmed = source.trim()
+      const entry = yield* findEntry(trimmed)
+      if (Option.isSome(entry)) {
+        const nodeSet = yield* loader.loadNodeSet(entry.value)
+        const loaded: LoadedNodeSet = { entry: entry.value, nodeSet }
+        return loaded
+      }
+
+      const at = trimmed.lastIndexOf("@")
+      if (at > 0 && !isRemoteLocation(trimmed)) {
+        const versioned = yield* findEntry(trimmed.slice(0, at))
+        if (Option.isSome(versioned)) {
+          const ref = trimmed.slice(at + 1)
+          const url = nodeSetUrlAtRef(versioned.value, ref)
+          if (url === undefined) {
+            return yield* Effect.fail(
+              new NodeSetLoaderError({
+                message: `NodeSet ${versioned.value.slug} is not published in the UA-Nodeset repository, so version ${ref} cannot be loaded`,
+              }),
+            )
+          }
+          return yield* loader.loadLocation(url)
+        }
+      }
+
+      return yield* loader.loadLocation(trimmed)
+    })
+
+    const diffSources = Effect.fn("NodeSetDiff.diffSources")(function* (
+      baseSource: string,
+      targetSource: string,
+    ) {
+      const [base, target] = yield* Effect.all(
+        [loadSource(baseSource), loadSource(targetSource)],
+        { concurrency: 2 },
+      )
+      const report = diffNodeSets(base.nodeSet, target.nodeSet)
+
+      yield* Effect.annotateCurrentSpan({
+        added: report.added.length,
+        removed: report.removed.length,
+        changed: report.changed.length,
+        breaking: report.breaking.length,
+      })
+
+      return { base, target, report } as const
+    })
+
+    return { diff: diffNodeSets, diffSources } as const
+  }),
+  dependencies: [NodeSetCatalog.Default, NodeSetLoader.Default],
+}) {}
@@ -0,0 +1,43 @@
+import { Duration, Effect, Layer, Schedule } from "effect"
+
+export interface FetchPolicy {
+  // Time to wait for the response headers of one request
+  readonly requestTimeout: Duration.DurationInput
+  // Longest pause between two chunks of a NodeSet body
+  readonly idleTimeout: Duration.DurationInput
+  // Retries after the first attempt, for timeouts, connection errors and
+  // 429 or 5xx responses
+  readonly retries: number
+  // First retry delay, doubled on every further retry
+  readonly retryDelay: Duration.DurationInput
+  // NodeSets larger than this are rejected, Opc.Ua.NodeSet2.xml is about 15 MB
+  readonly maxBytes: number
+}
+
+export const DEFAULT_FETCH_POLICY: FetchPolicy = {
+  requestTimeout: Duration.seconds(30),
+  idleTimeout: Duration.seconds(30),
+  retries: 4,
+  retryDelay: Duration.millis(500),
+  maxBytes: 64 * 1024 * 1024,
+}
+
+// Exponential backoff with jitter, bounded by the number of retries
+export const retrySchedule = (policy: FetchPolicy) =>
+  Schedule.exponential(policy.retryDelay).pipe(
+    Schedule.jittered,
+    Schedule.intersect(Schedule.recurs(policy.retries)),
+  )
+
+// Timeouts, retries and size limit of NodeSet downloads. Provide
+// `NodeSetFetchPolicy.withPolicy` to override them
+export class NodeSetFetchPolicy extends Effect.Service<NodeSetFetchPolicy>()(
+  "NodeSetFetchPolicy",
+  { succeed: DEFAULT_FETCH_POLICY },
+) {
+  static readonly withPolicy = (policy: Partial<FetchPolicy>) =>
+    Layer.succeed(
+      NodeSetFetchPolicy,
+      NodeSetFetchPolicy.make({ ...DEFAULT_FETCH_POLICY, ...policy }),
+    )
+}
@@ -0,0 +1,351 @@
+import { Cause, Data, Effect, Option, Ref } from "effect"
+import { NodeSetStatus, ServerStatus } from "./types.js"
+import { NodeSetCatalog, NodeSetCatalogNotFound } from "./NodeSetCatalog.js"
+import { NodeSetLoader } from "./NodeSetLoader.js"
+import { NodeGraph } from "./NodeGraph.js"
+import { NodeSearchIndex } from "./NodeSearchIndex.js"
+import { SearchSnapshot } from "./SearchSnapshot.js"
+
+export class WarmingUpError extends Data.TaggedError("WarmingUpError")<{
+  readonly message: string
+}> {}
+
+export class NodeSetsUnavailableError extends Data.TaggedError(
+  "NodeSetsUnavailableError",
+)<{
+  readonly message: string
+}> {}
+
+interface IndexerState {
+  readonly startedAt: number
+  readonly finishedAt?: number
+  readonly restoredFromSnapshot: boolean
+  readonly error?: string
+  readonly nodeSets: ReadonlyMap<string, NodeSetStatus> // By slug, in load order
+}
+
+const messageOf = (error: unknown): string =>
+  error instanceof Error && error.message !== ""
+    ? error.message
+    : typeof error === "object" && error !== null && "_tag" in error
+      ? String(error._tag)
+      : String(error)
+
+// Loads the default NodeSets into the graph and search index in a background
+// fiber, so the server answers right away. Each default NodeSet is loaded on
+// its own; one that fails is reported and the others are indexed anyway
+export class NodeSetIndexer extends Effect.Service<NodeSetIndexer>()(
+  "NodeSetIndexer",
+  {
+    scoped: Effect.gen(function* () {
+      const catalog = yield* NodeSetCatalog
+      const loader = yield* NodeSetLoader
+      const graph = yield* NodeGraph
+      const index = yield* NodeSearchIndex
+      const snapshots = yield* SearchSnapshot
+      const stateRef = yield* Ref.make<IndexerState>({
+        startedAt: Date.now(),
+        restoredFromSnapshot: false,
+        nodeSets: new Map(),
+      })
+      // Content version of every indexed NodeSet, by slug, so one ingested
+      // again under the same slug is replaced on its next load
+      const versionsRef = yield* Ref.make<ReadonlyMap<string, string>>(
+        new Map(),
+      )
+      // Index updates run one at a time so concurrent loads never index a
+      // shared dependency twice
+      const indexing = yield* Effect.makeSemaphore(1)
+
+      const contentVersions = (slugs: ReadonlyArray<string>) =>
+        Effect.forEach(slugs, (slug) =>
+          loader
+            .contentVersion(slug)
+            .pipe(
+              Effect.map(
+                (version) => [slug, Option.getOrUndefined(version)] as const,
+              ),
+            ),
+        )
+
+      const recordVersions = (
+        versions: ReadonlyArray<readonly [string, string | undefined]>,
+      ) =>
+        Ref.update(versionsRef, (current) => {
+          const next = new Map(current)
+          for (const [slug, version] of versions) {
+            if (version === undefined) next.delete(slug)
+            else next.set(slug, version)
+          }
+          return next
+        })
+
+      const setStatus = (
+        slugs: ReadonlyArray<string>,
+        status: (slug: string) => NodeSetStatus,
+      ) =>
+        Ref.update(stateRef, (state) => {
+          const nodeSets = new Map(state.nodeSets)
+          for (const slug of slugs) nodeSets.set(slug, status(slug))
+          return { ...state, nodeSets }
+        })
+
+      // Loads a catalog NodeSet with its dependencies and indexes those that
+      // are not in the graph yet or whose content changed since
+      const load = Effect.fn("NodeSetIndexer.load")(function* (slug: string) {
+        const entry = yield* catalog.resolve(slug)
+        const startedAt = Date.now()
+        const current = (yield* Ref.get(stateRef)).nodeSets.get(entry.slug)
+        if (current?.state !== "indexed") {
+          yield* setStatus(
+            [entry.slug],
+            (slug) => new NodeSetStatus({ slug, state: "loading" }),
+          )
+        }
+
+        return yield* Effect.gen(function* () {
+          const resolved = yield* loader.loadWithDependencies([entry.slug])
+          return yield* indexing.withPermits(1)(
+            Effect.gen(function* () {
+              const present = new Map(
+                (yield* graph.listNodeSets()).map(({ source, nodeCount }) => [
+                  source,
+                  nodeCount,
+                ]),
+              )
+              const indexed = yield* Ref.get(versionsRef)
+              const versions = new Map(
+                yield* contentVersions(resolved.map(({ entry }) => entry.slug)),
+              )
+              // Without a known version on either side the graph copy is kept
+              const isCurrent = (slug: string) => {
+                const version = versions.get(slug)
+                const previous = indexed.get(slug)
+                return (
+                  present.has(slug) &&
+                  (version === undefined ||
+                    previous === undefined ||
+                    version === previous)
+                )
+              }
+              // Replaces the NodeSets already in the graph under the same slug
+              const added = resolved.filter(
+                ({ entry }) => !isCurrent(entry.slug),
+              )
+              if (added.length > 0) {
+                yield* setStatus(
+                  added.map(({ entry }) => entry.slug),
+                  (slug) => new NodeSetStatus({ slug, state: "loading" }),
+                )
+                yield* index.addNodeSets(
+                  added.map(({ entry, nodeSet }) => ({
+                    source: entry.slug,
+                    nodes: nodeSet.nodes,
+                  })),
+                )
+                yield* recordVersions(
+                  added.map(({ entry }) => [
+                    entry.slug,
+                    versions.get(entry.slug),
+                  ]),
+                )
+                const durationMs = Date.now() - startedAt
+                yield* Ref.update(stateRef, (state) => {
+                  const nodeSets = new Map(state.nodeSets)
+                  for (const { entry, nodeSet } of added) {
+                    nodeSets.set(
+                      entry.slug,
+                      new NodeSetStatus({
+                        slug: entry.slug,
+                        state: "indexed",
+                        nodeCount: nodeSet.nodes.length,
+                        durationMs,
+                      }),
+                    )
+                  }
+                  return { ...state, nodeSets }
+                })
+              }
+
+              return {
+                loaded: added.map(({ entry, nodeSet }) => ({
+                  slug: entry.slug,
+                  nodeCount: nodeSet.nodes.length,
+                })),
+                alreadyLoaded: resolved.flatMap(({ entry }) => {
+                  const nodeCount = present.get(entry.slug)
+                  return nodeCount === undefined || !isCurrent(entry.slug)
+                    ? []
+                    : [{ slug: entry.slug, nodeCount }]
+                }),
+              }
+            }),
+          )
+        }).pipe(
+          Effect.tapError((error) =>
+            setStatus(
+              [entry.slug],
+              (slug) =>
+                new NodeSetStatus({
+                  slug,
+                  state: "failed",
+                  durationMs: Date.now() - startedAt,
+                  error: messageOf(error),
+                }),
+            ),
+          ),
+        )
+      })
+
+      const warmUp = Effect.gen(function* () {
+        const slugs = yield* catalog.defaultSlugs()
+        yield* setStatus(
+          slugs,
+          (slug) => new NodeSetStatus({ slug, state: "pending" }),
+        )
+
+        if (yield* snapshots.restore(slugs)) {
+          const durationMs = Date.now() - (yield* Ref.get(stateRef)).startedAt
+          const restored = yield* graph.listNodeSets()
+          // The snapshot is only restored while these versions are unchanged
+          yield* recordVersions(
+            yield* contentVersions(restored.map(({ source }) => source)),
+          )
+          yield* setStatus(
+            restored.map(({ source }) => source),
+            (slug) =>
+              new NodeSetStatus({
+                slug,
+                state: "indexed",
+                nodeCount: restored.find(({ source }) => source === slug)
+                  ?.nodeCount,
+                durationMs,
+              }),
+          )
+          yield* Ref.update(stateRef, (state) => ({
+            ...state,
+            restoredFromSnapshot: true,
+          }))
+          return
+        }
+
+        const results = yield* Effect.forEach(
+          slugs,
+          (slug) =>
+            load(slug).pipe(
+              // A preloaded slug missing from the catalog
+              Effect.tapError((error) =>
+                error instanceof NodeSetCatalogNotFound
+                  ? setStatus(
+                      [slug],
+                      (slug) =>
+                        new NodeSetStatus({
+                          slug,
+                          state: "failed",
+                          error: `NodeSet ${slug} is not in the catalog`,
+                        }),
+                    )
+                  : Effect.void,
+              ),
+              Effect.tapErrorCause((cause) =>
+                Effect.logError(
+                  `Failed to load default NodeSet ${slug}`,
+                  cause,
+                ),
+              ),
+              Effect.either,
+            ),
+          { concurrency: "unbounded" },
+        )
+        // A snapshot missing a failed NodeSet would hide it on later starts
+        if (results.every((result) => result._tag === "Right")) {
+          yield* snapshots.save(slugs)
+        }
+      }).pipe(
+        Effect.catchAllCause((cause) =>
+          Effect.logError("NodeSet startup indexing failed", cause).pipe(
+            Effect.zipRight(
+              Ref.update(stateRef, (state) => ({
+                ...state,
+                error: messageOf(Cause.squash(cause)),
+              })),
+            ),
+          ),
+        ),
+        Effect.ensuring(
+          Ref.update(stateRef, (state) => ({
+            ...state,
+            finishedAt: Date.now(),
+          })),
+        ),
+        Effect.withSpan("NodeSetIndexer.warmUp"),
+      )
+
+      const status = () =>
+        Ref.get(stateRef).pipe(
+          Effect.zip(graph.listNodeSets()),
+          Effect.map(([state, loaded]) => {
+            const nodeSets = Array.from(state.nodeSets.values())
+            const ready = state.finishedAt !== undefined
+            return new ServerStatus({
+              ready,
+              healthy:
+                ready &&
+                state.error === undefined &&
+                nodeSets.every(({ state }) => state !== "failed"),
+              restoredFromSnapshot: state.restoredFromSnapshot,
+              indexedNodeSets: nodeSets.filter(
+                ({ state }) => state === "indexed",
+              ).length,
+              totalNodeSets: nodeSets.length,
+              nodeCount: loaded.reduce(
+                (sum, { nodeCount }) => sum + nodeCount,
+                0,
+              ),
+              elapsedMs: (state.finishedAt ?? Date.now()) - state.startedAt,
+              error: state.error,
+              nodeSets,
+            })
+          }),
+        )
+
+      // Fails with the startup progress until startup indexing finished
+      const ensureWarmedUp = Effect.gen(function* () {
+        const current = yield* status()
+        if (current.ready) return current
+        return yield* new WarmingUpError({
+          message: `Warming up, ${current.indexedNodeSets} of ${current.totalNodeSets} NodeSets indexed. See opcua_server_status for progress`,
+        })
+      })
+
+      // Like `ensureWarmedUp`, and also fails with what went wrong when
+      // startup left nothing indexed, instead of answering from an empty index
+      const ensureReady = Effect.gen(function* () {
+        const current = yield* ensureWarmedUp
+        if (current.indexedNodeSets > 0) return
+        const failed = current.nodeSets.filter(
+          ({ state }) => state === "failed",
+        )
+        if (failed.length === 0 && current.error === undefined) return
+        const reasons = [
+          ...(current.error === undefined ? [] : [current.error]),
+          ...failed.map(({ slug, error }) => `${slug}: ${error ?? "failed"}`),
+        ]
+        return yield* new NodeSetsUnavailableError({
+          message: `No NodeSet is indexed, startup indexing failed (${reasons.join("; ")}). Load one with load_opcua_nodeset or opcua_nodeset_ingest`,
+        })
+      })
+
+      yield* Effect.forkScoped(warmUp)
+
+      return { load, status, ensureWarmedUp, ensureReady } as const
+    }),
+    dependencies: [
+      NodeSetCatalog.Default,
+      NodeSetLoader.Default,
+      NodeGraph.Default,
+      NodeSearchIndex.Default,
+      SearchSnapshot.Default,
+    ],
+  },
+) {}
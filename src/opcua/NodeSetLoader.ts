@@ -1,232 +1,145 @@
-import { Cache, Data, Duration, Effect, Option, Schedule } from "effect"
-import { HttpClient, HttpClientRequest, KeyValueStore } from "@effect/platform"
-import { NodeHttpClient, NodeKeyValueStore } from "@effect/platform-node"
-import { XMLParser } from "fast-xml-parser"
 import {
-  LocalizedText,
-  NamespaceMetadata,
-  NodeClass,
-  NodeId,
-  NodeSet,
-  NodeSetCatalogEntry,
-  ParsedUANode,
-  Reference,
-} from "./types.js"
+  Cache,
+  Data,
+  Duration,
+  Effect,
+  Either,
+  Exit,
+  Option,
+  Schema,
+} from "effect"
+import { HttpClientResponse, KeyValueStore } from "@effect/platform"
+import { FileSystem } from "@effect/platform/FileSystem"
+import { NodeFileSystem } from "@effect/platform-node"
+import { NodeSet, NodeSetCatalogEntry } from "./types.js"
 import { NodeSetCatalog, NodeSetCatalogNotFound } from "./NodeSetCatalog.js"
+import {
+  isLocalLocation,
+  slugFromFileName,
+  toFilePath,
+} from "./NodeSetLocation.js"
+import { NamespaceTable } from "./NamespaceTable.js"
+import { collectNodeSet, parseNodeSetStream } from "./NodeSetStream.js"
+import { NodeSetLock } from "./NodeSetLock.js"
+import { NodeSetReader } from "./NodeSetReader.js"
+import { PersistentStore, ServerConfig } from "./ServerConfig.js"
+import {
+  checkRequiredModels,
+  findProvider,
+  missingRequiredModels,
+  providedModels,
+  topologicalOrder,
+  type LoadedNodeSet,
+} from "./NodeSetDependencies.js"
 import { Console } from "effect/Console"
-
-const retryPolicy = Schedule.spaced(Duration.seconds(3))
+import { createHash } from "node:crypto"
 
 export class NodeSetLoaderError extends Data.TaggedError("NodeSetLoaderError")<{
   readonly cause?: unknown
   readonly message: string
 }> {}
 
+export interface NodeSetLoadFailure<E = unknown> {
+  readonly entry: NodeSetCatalogEntry
+  readonly error: E
+}
+
+// Outcome of loading several NodeSets: the merged NodeSets that loaded and
+// a report of those that failed
+export interface NodeSetBatch<E = unknown> {
+  readonly nodeSet: NodeSet
+  readonly loaded: ReadonlyArray<NodeSetCatalogEntry>
+  readonly failures: ReadonlyArray<NodeSetLoadFailure<E>>
+}
+
 const mergeNodeSets = (nodeSets: ReadonlyArray<NodeSet>): NodeSet =>
   new NodeSet({
-    namespaces: nodeSets.flatMap((ns) => ns.namespaces),
+    namespaces: nodeSets
+      .flatMap((ns) => ns.namespaces)
+      .filter(
+        (namespace, index, all) =>
+          all.findIndex((other) => other.uri === namespace.uri) === index,
+      ),
     nodes: nodeSets.flatMap((ns) => ns.nodes),
   })
 
-const cacheKey = (slug: string): string => `nodesets/${slug}`
+// Loads every entry on its own, so one failing NodeSet does not fail the batch
+const loadBatch = <E, R>(
+  entries: ReadonlyArray<NodeSetCatalogEntry>,
+  load: (entry: NodeSetCatalogEntry) => Effect.Effect<NodeSet, E, R>,
+  concurrency: number,
+): Effect.Effect<NodeSetBatch<E>, never, R> =>
+  Effect.forEach(entries, (entry) => Effect.either(load(entry)), {
+    concurrency,
+  }).pipe(
+    Effect.map((results) => {
+      const nodeSets: NodeSet[] = []
+      const loaded: NodeSetCatalogEntry[] = []
+      const failures: NodeSetLoadFailure<E>[] = []
+      results.forEach((result, position) => {
+        const entry = entries[position]
+        if (Either.isRight(result)) {
+          nodeSets.push(result.right)
+          loaded.push(entry)
+        } else {
+          failures.push({ entry, error: result.left })
+        }
+      })
+      return { nodeSet: mergeNodeSets(nodeSets), loaded, failures }
+    }),
+  )
+
+const emptyBatch: NodeSetBatch<never> = {
+  nodeSet: new NodeSet({ namespaces: [], nodes: [] }),
+  loaded: [],
+  failures: [],
+}
+
+const failureMessage = (error: unknown): string =>
+  error instanceof Error && error.message !== "" ? error.message : String(error)
+
+// Bump whenever the shape of the persisted NodeSet model changes
+const NODESET_CACHE_VERSION = "v5"
+
+const cacheKey = (slug: string): string =>
+  `nodesets/${NODESET_CACHE_VERSION}/${slug}`
+
+const versionKey = (slug: string): string =>
+  `nodeset-versions/${NODESET_CACHE_VERSION}/${slug}`
+
+// Blob SHA of the upstream file a persisted NodeSet was read from
+const revisionKey = (slug: string): string =>
+  `nodeset-revisions/${NODESET_CACHE_VERSION}/${slug}`
+
+// Digest of the persisted NodeSet, identifies its content across restarts
+const contentDigest = (nodeSet: NodeSet): string =>
+  createHash("sha256")
+    .update(JSON.stringify(Schema.encodeSync(NodeSet)(nodeSet)))
+    .digest("base64url")
+
+const slugKey = (slug: string): string => slug.trim().toLowerCase()
+
+export interface NodeSetIngestOptions {
+  readonly url: string
+  readonly slug?: string
+  readonly name?: string
+  readonly description?: string
+  readonly category?: string
+  readonly documentationUrl?: string
+  readonly tags?: ReadonlyArray<string>
+  readonly namespaceUris?: ReadonlyArray<string>
+  readonly dependencies?: ReadonlyArray<string>
+  readonly defaultSelection?: boolean
+}
 
 export class NodeSetLoaderSource extends Effect.Service<NodeSetLoaderSource>()(
   "NodeSetLoaderSource",
   {
     scoped: Effect.gen(function* () {
       const catalog = yield* NodeSetCatalog
-      const client = (yield* HttpClient.HttpClient).pipe(
-        HttpClient.filterStatusOk,
-        HttpClient.retry(retryPolicy),
-        HttpClient.mapRequest(
-          HttpClientRequest.setHeaders({
-            Accept: "application/xml",
-            "User-Agent": "https://github.com/opcua-org/node-opcua",
-          }),
-        ),
-      )
-
-      const xmlParser = new XMLParser({
-        ignoreAttributes: false,
-        attributeNamePrefix: "@_",
-        textNodeName: "#text",
-        parseAttributeValue: true,
-      })
-
-      const parseNodeId = (nodeIdStr: string): NodeId => {
-        const parts = nodeIdStr.split(";")
-        let namespaceIndex = 0
-        let identifierType: "Numeric" | "String" | "Guid" | "Opaque" = "Numeric"
-        let identifier = ""
-
-        for (const part of parts) {
-          if (part.startsWith("ns=")) {
-            namespaceIndex = Number.parseInt(part.substring(3), 10)
-          } else if (part.startsWith("i=")) {
-            identifierType = "Numeric"
-            identifier = part.substring(2)
-          } else if (part.startsWith("s=")) {
-            identifierType = "String"
-            identifier = part.substring(2)
-          } else if (part.startsWith("g=")) {
-            identifierType = "Guid"
-            identifier = part.substring(2)
-          } else if (part.startsWith("b=")) {
-            identifierType = "Opaque"
-            identifier = part.substring(2)
-          }
-        }
-
-        return new NodeId({ namespaceIndex, identifierType, identifier })
-      }
-      const parseLocalizedText = (text: any): LocalizedText | undefined => {
-        if (!text) return undefined
-
-        if (typeof text === "string") {
-          return new LocalizedText({ text })
-        }
-
-        if (typeof text === "object") {
-          const locale = text["@_Locale"]
-          const body = text["#text"] ?? text["Text"] ?? ""
-          return new LocalizedText({ locale, text: body })
-        }
-
-        return new LocalizedText({ text: String(text) })
-      }
-
-      const parseReferences = (refs: any): Reference[] => {
-        if (!refs || !refs.Reference) return []
-        const refArray = Array.isArray(refs.Reference)
-          ? refs.Reference
-          : [refs.Reference]
-        return refArray.map(
-          (ref: any) =>
-            new Reference({
-              referenceType: ref["@_ReferenceType"] || "References",
-              isForward: ref["@_IsForward"] !== false,
-              targetNodeId: parseNodeId(ref["#text"] || ref),
-            }),
-        )
-      }
-
-      const getNodeClass = (tagName: string): NodeClass => {
-        if (tagName.includes("ObjectType")) return "ObjectType"
-        if (tagName.includes("VariableType")) return "VariableType"
-        if (tagName.includes("ReferenceType")) return "ReferenceType"
-        if (tagName.includes("DataType")) return "DataType"
-        if (tagName.includes("Method")) return "Method"
-        if (tagName.includes("Variable")) return "Variable"
-        if (tagName.includes("View")) return "View"
-        return "Object"
-      }
-
-      const parseNode = (
-        nodeData: any,
-        tagName: string,
-        resolveNamespaceUri: (index: number) => string | undefined,
-      ): ParsedUANode => {
-        const nodeClass = getNodeClass(tagName)
-        const displayName =
-          parseLocalizedText(nodeData.DisplayName) ||
-          new LocalizedText({ text: nodeData["@_BrowseName"] || "" })
-        const description =
-          nodeData.Description !== undefined
-            ? parseLocalizedText(nodeData.Description)
-            : undefined
-
-        const nodeId = parseNodeId(nodeData["@_NodeId"])
-        const namespaceUri = resolveNamespaceUri(nodeId.namespaceIndex)
-
-        return new ParsedUANode({
-          nodeId,
-          nodeClass,
-          browseName: nodeData["@_BrowseName"] || "",
-          displayName,
-          description: description ? Option.some(description) : Option.none(),
-          references: parseReferences(nodeData.References),
-          namespaceUri: namespaceUri ?? undefined,
-          dataType: nodeData["@_DataType"],
-          valueRank: nodeData["@_ValueRank"],
-          isAbstract: nodeData["@_IsAbstract"],
-          symmetric: nodeData["@_Symmetric"],
-        })
-      }
-
-      const parseNodeSetXml = (
-        xmlContent: string,
-        entry: NodeSetCatalogEntry,
-      ): NodeSet => {
-        const parsed = xmlParser.parse(xmlContent)
-        const nodeSet = parsed.UANodeSet || parsed
-
-        const publicationDate = nodeSet["@_PublicationDate"]
-        const version = nodeSet["@_Version"]
-
-        const namespaces: NamespaceMetadata[] = []
-        const namespaceLookup: string[] = []
-
-        const registerNamespace = (uri: string | undefined, index: number) => {
-          if (!uri) return
-          namespaceLookup[index] = uri
-          if (!namespaces.some((ns) => ns.uri === uri)) {
-            namespaces.push(
-              new NamespaceMetadata({
-                uri,
-                publicationDate,
-                version,
-              }),
-            )
-          }
-        }
-
-        if (entry.namespaceUris.length > 0) {
-          registerNamespace(entry.namespaceUris[0], 0)
-        }
-
-        const nsUris = nodeSet.NamespaceUris?.Uri
-        if (nsUris) {
-          const uriArray = Array.isArray(nsUris) ? nsUris : [nsUris]
-          uriArray.forEach((uri: string, index: number) => {
-            registerNamespace(uri, index + 1)
-          })
-        }
-
-        entry.namespaceUris.forEach((uri, index) => {
-          if (!namespaceLookup[index]) {
-            registerNamespace(uri, index)
-          }
-        })
-
-        const resolveNamespaceUri = (namespaceIndex: number) =>
-          namespaceLookup[namespaceIndex] ??
-          entry.namespaceUris[namespaceIndex] ??
-          entry.namespaceUris[0]
-
-        const nodes: ParsedUANode[] = []
-        const nodeTypes = [
-          "UAObject",
-          "UAVariable",
-          "UAMethod",
-          "UAObjectType",
-          "UAVariableType",
-          "UAReferenceType",
-          "UADataType",
-          "UAView",
-        ]
-
-        for (const nodeType of nodeTypes) {
-          const nodeData = nodeSet[nodeType]
-          if (nodeData) {
-            const nodeArray = Array.isArray(nodeData) ? nodeData : [nodeData]
-            for (const node of nodeArray) {
-              nodes.push(parseNode(node, nodeType, resolveNamespaceUri))
-            }
-          }
-        }
-
-        return new NodeSet({ namespaces, nodes })
-      }
+      const { concurrency } = yield* ServerConfig
+      const namespaceTable = yield* NamespaceTable
+      const reader = yield* NodeSetReader
 
       const fetchNodeSet = Effect.fn("NodeSetLoaderSource.fetchNodeSet")(
         function* (entry: NodeSetCatalogEntry) {
@@ -238,38 +151,16 @@ export class NodeSetLoaderSource extends Effect.Service<NodeSetLoaderSource>()(
             url: entry.nodeSetUrl,
           })
 
-          const response = yield* client
-            .get(entry.nodeSetUrl)
-            .pipe(
-              Effect.tapErrorCause((cause) =>
-                Effect.logError(
-                  `HTTP request failed for ${entry.nodeSetUrl}`,
-                  cause,
-                ),
-              ),
-            )
-
-          const xmlContent = yield* response.text
-
-          const nodeSet = yield* Effect.try({
-            try: () => parseNodeSetXml(xmlContent, entry),
-            catch: (cause) =>
-              new NodeSetLoaderError({
-                cause,
-                message: `Failed to parse NodeSet XML from ${entry.nodeSetUrl}`,
-              }),
-          }).pipe(
-            Effect.tap((nodeSet) =>
-              Effect.log(`Parsed NodeSet XML from ${xmlContent}`),
-            ),
-            Effect.tapErrorCause((cause) =>
-              Effect.logError(
-                `XML parsing failed for ${entry.nodeSetUrl}`,
-                cause,
-              ),
+          const parsedNodeSet = yield* collectNodeSet(
+            parseNodeSetStream(reader.readNodeSetBytes(entry), entry),
+          ).pipe(
+            Effect.tapErrorTag("NodeSetParseError", (error) =>
+              Effect.logError(error.message),
             ),
           )
 
+          const nodeSet = yield* namespaceTable.remapNodeSet(parsedNodeSet)
+
           yield* Effect.logInfo(
             `Loaded ${nodeSet.nodes.length} nodes for catalog slug ${entry.slug}`,
           )
@@ -288,38 +179,37 @@ export class NodeSetLoaderSource extends Effect.Service<NodeSetLoaderSource>()(
         },
       )
 
+      // Loads the NodeSets that can be loaded and reports the others
       const loadNodeSets = Effect.fn("NodeSetLoaderSource.loadNodeSets")(
         function* (entries: ReadonlyArray<NodeSetCatalogEntry>) {
           if (entries.length === 0) {
             yield* Effect.logInfo(
               "No NodeSet entries provided; returning empty set",
             )
-            return new NodeSet({ namespaces: [], nodes: [] })
+            return emptyBatch
           }
 
           yield* Effect.logInfo(
-            `Loading ${entries.length} NodeSet entries with concurrency 2`,
+            `Loading ${entries.length} NodeSet entries with concurrency ${concurrency}`,
           )
           yield* Effect.annotateCurrentSpan({ nodeSetCount: entries.length })
 
-          const nodeSets = yield* Effect.forEach(
-            entries,
-            (entry) => fetchNodeSet(entry),
-            { concurrency: 2 },
-          ).pipe(
-            Effect.tapErrorCause((cause) =>
-              Effect.logError("Failed to load one or more NodeSets", cause),
-            ),
-          )
-
-          const merged = mergeNodeSets(nodeSets)
+          const batch = yield* loadBatch(entries, fetchNodeSet, concurrency)
+          for (const { entry, error } of batch.failures) {
+            yield* Effect.logError(
+              `Failed to load NodeSet ${entry.slug}: ${error.message}`,
+            )
+          }
 
           yield* Effect.logInfo(
-            `Loaded total of ${merged.nodes.length} nodes from ${entries.length} NodeSets`,
+            `Loaded total of ${batch.nodeSet.nodes.length} nodes from ${batch.loaded.length} of ${entries.length} NodeSets`,
           )
-          yield* Effect.annotateCurrentSpan({ totalNodes: merged.nodes.length })
+          yield* Effect.annotateCurrentSpan({
+            totalNodes: batch.nodeSet.nodes.length,
+            failedNodeSets: batch.failures.length,
+          })
 
-          return merged
+          return batch
         },
       )
 
@@ -339,6 +229,7 @@ export class NodeSetLoaderSource extends Effect.Service<NodeSetLoaderSource>()(
 
       return {
         fetchNodeSet,
+        fetchHeader: reader.fetchHeader,
         loadNodeSet,
         loadNodeSets,
         loadNodeSetBySlug,
@@ -346,9 +237,11 @@ export class NodeSetLoaderSource extends Effect.Service<NodeSetLoaderSource>()(
       } as const
     }),
     dependencies: [
+      ServerConfig.Default,
       NodeSetCatalog.Default,
-      NodeHttpClient.layerUndici,
-      NodeKeyValueStore.layerFileSystem("/tmp/opcua-mcp-cache"),
+      NamespaceTable.Default,
+      NodeSetReader.Default,
+      PersistentStore,
     ],
   },
 ) {}
@@ -358,27 +251,98 @@ export class NodeSetLoader extends Effect.Service<NodeSetLoader>()(
   {
     scoped: Effect.gen(function* () {
       const catalog = yield* NodeSetCatalog
+      const { concurrency } = yield* ServerConfig
       const source = yield* NodeSetLoaderSource
+      const lock = yield* NodeSetLock
+      const namespaceTable = yield* NamespaceTable
+      const fs = yield* FileSystem
       const keyValueStore = yield* KeyValueStore.KeyValueStore
       const nodeSetStore = keyValueStore.forSchema(NodeSet)
 
-      const nodeSetCache = yield* Cache.make<string, NodeSet, unknown>({
+      // Written next to every persisted NodeSet, so the version is known
+      // without loading the NodeSet itself
+      const persistVersion = (slug: string, nodeSet: NodeSet) =>
+        Effect.suspend(() =>
+          keyValueStore.set(versionKey(slug), contentDigest(nodeSet)),
+        ).pipe(
+          Effect.tapErrorCause((cause) =>
+            Effect.logWarning(
+              `Failed to persist the content version of NodeSet ${slug}`,
+              cause,
+            ),
+          ),
+          Effect.ignore,
+        )
+
+      const persistRevision = (slug: string, entry: NodeSetCatalogEntry) =>
+        Effect.suspend(() =>
+          entry.revision
+            ? keyValueStore.set(revisionKey(slug), entry.revision.blobSha)
+            : keyValueStore.remove(revisionKey(slug)),
+        ).pipe(
+          Effect.tapErrorCause((cause) =>
+            Effect.logWarning(
+              `Failed to persist the revision of NodeSet ${slug}`,
+              cause,
+            ),
+          ),
+          Effect.ignore,
+        )
+
+      // Pins the loaded upstream file in the lock file and keeps the model
+      // URIs of its header in the catalog
+      const recordHeader = (entry: NodeSetCatalogEntry, nodeSet: NodeSet) => {
+        const models = providedModels(nodeSet)
+        return Effect.zipRight(
+          lock.record(entry, models[0]),
+          catalog.recordNamespaces(
+            entry,
+            models.map((model) => model.modelUri).filter((uri) => uri !== ""),
+          ),
+        )
+      }
+
+      // Failures are not cached, so a NodeSet that could not be fetched is
+      // requested again on the next load
+      const nodeSetCache = yield* Cache.makeWith<string, NodeSet, unknown>({
         capacity: 64,
-        timeToLive: Duration.days(7),
+        timeToLive: Exit.match({
+          onFailure: () => Duration.zero,
+          onSuccess: () => Duration.days(7),
+        }),
         lookup: (slug) =>
           Effect.gen(function* () {
             yield* Effect.annotateCurrentSpan({ slug })
 
-            const persisted = yield* nodeSetStore.get(cacheKey(slug))
+            const maybeEntry = yield* catalog.resolve(slug).pipe(
+              Effect.map(Option.some),
+              Effect.catchAll((error) =>
+                error instanceof NodeSetCatalogNotFound
+                  ? Effect.succeed(Option.none())
+                  : Effect.fail(error),
+              ),
+            )
+            const revision = Option.flatMapNullable(
+              maybeEntry,
+              (entry) => entry.revision,
+            )
+
+            let persisted = yield* nodeSetStore.get(cacheKey(slug))
+            // A pinned NodeSet is only recovered if it was read from the same file
+            if (Option.isSome(persisted) && Option.isSome(revision)) {
+              const persistedBlob = yield* keyValueStore
+                .get(revisionKey(slug))
+                .pipe(Effect.orElseSucceed(() => Option.none<string>()))
+              if (
+                Option.getOrUndefined(persistedBlob) !== revision.value.blobSha
+              ) {
+                yield* Effect.logInfo(
+                  `Persisted NodeSet ${slug} is not from ${revision.value.path} at ${revision.value.blobSha}`,
+                )
+                persisted = Option.none()
+              }
+            }
             if (Option.isSome(persisted)) {
-              const maybeEntry = yield* catalog.resolve(slug).pipe(
-                Effect.map(Option.some),
-                Effect.catchAll((error) =>
-                  error instanceof NodeSetCatalogNotFound
-                    ? Effect.succeed(Option.none())
-                    : Effect.fail(error),
-                ),
-              )
               const entryName = Option.match(maybeEntry, {
                 onNone: () => slug,
                 onSome: (entry) => entry.name,
@@ -391,7 +355,18 @@ export class NodeSetLoader extends Effect.Service<NodeSetLoader>()(
                 cacheSource: "persistent",
                 nodeCount: persisted.value.nodes.length,
               })
-              return persisted.value
+              // NodeSets persisted before versions were recorded
+              const hasVersion = yield* keyValueStore
+                .has(versionKey(slug))
+                .pipe(Effect.orElseSucceed(() => false))
+              if (!hasVersion) {
+                yield* persistVersion(slug, persisted.value)
+              }
+              if (Option.isSome(maybeEntry)) {
+                yield* recordHeader(maybeEntry.value, persisted.value)
+              }
+              // Namespace indexes of a previous run do not survive a restart
+              return yield* namespaceTable.remapNodeSet(persisted.value)
             }
 
             yield* Effect.logInfo(
@@ -399,7 +374,10 @@ export class NodeSetLoader extends Effect.Service<NodeSetLoader>()(
             )
             yield* Effect.annotateCurrentSpan({ cacheSource: "miss" })
 
-            const nodeSet = yield* source.loadNodeSetBySlug(slug)
+            const nodeSet = yield* Option.match(maybeEntry, {
+              onNone: () => source.loadNodeSetBySlug(slug),
+              onSome: (entry) => source.fetchNodeSet(entry),
+            })
 
             yield* nodeSetStore.set(cacheKey(slug), nodeSet).pipe(
               Effect.tap(() =>
@@ -414,6 +392,11 @@ export class NodeSetLoader extends Effect.Service<NodeSetLoader>()(
                 ),
               ),
             )
+            yield* persistVersion(slug, nodeSet)
+            if (Option.isSome(maybeEntry)) {
+              yield* persistRevision(slug, maybeEntry.value)
+              yield* recordHeader(maybeEntry.value, nodeSet)
+            }
 
             return nodeSet
           }).pipe(Effect.withSpan("NodeSetLoader.cacheLookup")),
@@ -436,6 +419,7 @@ export class NodeSetLoader extends Effect.Service<NodeSetLoader>()(
         return nodeSet
       })
 
+      // Loads the NodeSets that can be loaded and reports the others
       const loadNodeSets = Effect.fn("NodeSetLoader.loadNodeSets")(function* (
         entries: ReadonlyArray<NodeSetCatalogEntry>,
       ) {
@@ -443,7 +427,7 @@ export class NodeSetLoader extends Effect.Service<NodeSetLoader>()(
           yield* Effect.logInfo(
             "No NodeSet entries provided; returning empty set",
           )
-          return new NodeSet({ namespaces: [], nodes: [] })
+          return emptyBatch
         }
 
         yield* Effect.logInfo(
@@ -451,20 +435,22 @@ export class NodeSetLoader extends Effect.Service<NodeSetLoader>()(
         )
         yield* Effect.annotateCurrentSpan({ nodeSetCount: entries.length })
 
-        const nodeSets = yield* Effect.forEach(
-          entries,
-          (entry) => loadNodeSet(entry),
-          { concurrency: 2 },
-        )
-
-        const merged = mergeNodeSets(nodeSets)
+        const batch = yield* loadBatch(entries, loadNodeSet, concurrency)
+        for (const { entry, error } of batch.failures) {
+          yield* Effect.logError(
+            `Failed to load NodeSet ${entry.slug}: ${failureMessage(error)}`,
+          )
+        }
 
         yield* Effect.logInfo(
-          `Loaded total of ${merged.nodes.length} nodes from ${entries.length} NodeSets`,
+          `Loaded total of ${batch.nodeSet.nodes.length} nodes from ${batch.loaded.length} of ${entries.length} NodeSets`,
         )
-        yield* Effect.annotateCurrentSpan({ totalNodes: merged.nodes.length })
+        yield* Effect.annotateCurrentSpan({
+          totalNodes: batch.nodeSet.nodes.length,
+          failedNodeSets: batch.failures.length,
+        })
 
-        return merged
+        return batch
       })
 
       const loadNodeSetBySlug = Effect.fn("NodeSetLoader.loadNodeSetBySlug")(
@@ -483,11 +469,149 @@ export class NodeSetLoader extends Effect.Service<NodeSetLoader>()(
         },
       )
 
+      // Digest of the persisted content of a NodeSet. None if the NodeSet was
+      // never loaded; changes whenever it is fetched or ingested again
+      const contentVersion = (slug: string) =>
+        keyValueStore
+          .get(versionKey(slug))
+          .pipe(Effect.orElseSucceed(() => Option.none<string>()))
+
+      // Catalog entries of the given slugs plus all of their transitive catalog dependencies
+      const collectEntries = Effect.fn("NodeSetLoader.collectEntries")(
+        function* (slugs: ReadonlyArray<string>) {
+          const entries = new Map<string, NodeSetCatalogEntry>()
+          const queue = slugs.map(slugKey)
+
+          while (queue.length > 0) {
+            const slug = queue.shift()!
+            if (entries.has(slug)) continue
+
+            const entry = yield* catalog.resolve(slug)
+            entries.set(slug, entry)
+            queue.push(...entry.dependencies.map(slugKey))
+          }
+
+          return entries
+        },
+      )
+
+      // Loads the NodeSets with everything they depend on, through both the
+      // catalog `dependencies` and the `<RequiredModel>` headers of the files.
+      // The result is ordered so dependencies precede their dependents.
+      // Unlike `loadNodeSets` this is all or nothing: a NodeSet is of no use
+      // without its dependencies, so every failed NodeSet is logged and the
+      // first failure fails the call. Callers wanting partial results load
+      // each root on its own, as the indexer does for the default NodeSets
+      const loadWithDependencies = Effect.fn(
+        "NodeSetLoader.loadWithDependencies",
+      )(function* (slugs: ReadonlyArray<string>) {
+        const loaded = new Map<string, LoadedNodeSet>()
+        const attempted = new Set<string>()
+        let pending = slugs.map(slugKey)
+
+        while (pending.length > 0) {
+          const entries = yield* collectEntries(pending)
+          const toLoad = Array.from(entries.entries()).filter(
+            ([slug]) => !loaded.has(slug),
+          )
+
+          const results = yield* Effect.forEach(
+            toLoad,
+            ([, entry]) => Effect.either(loadNodeSet(entry)),
+            { concurrency },
+          )
+          const failures = toLoad.flatMap(([, entry], position) => {
+            const result = results[position]
+            return Either.isLeft(result) ? [{ entry, error: result.left }] : []
+          })
+          if (failures.length > 0) {
+            for (const { entry, error } of failures) {
+              yield* Effect.logError(
+                `Failed to load NodeSet ${entry.slug}: ${failureMessage(error)}`,
+              )
+            }
+            return yield* Effect.fail(failures[0].error)
+          }
+          toLoad.forEach(([slug, entry], position) => {
+            const result = results[position]
+            if (Either.isRight(result)) {
+              loaded.set(slug, { entry, nodeSet: result.right })
+              attempted.add(slug)
+            }
+          })
+
+          pending = []
+          for (const { required } of missingRequiredModels(
+            Array.from(loaded.values()),
+          )) {
+            const provider = yield* catalog.findByModelUri(required.modelUri)
+            if (Option.isNone(provider)) continue
+
+            const providerSlug = slugKey(provider.value.slug)
+            if (!attempted.has(providerSlug)) {
+              attempted.add(providerSlug)
+              pending.push(providerSlug)
+              yield* Effect.logInfo(
+                `Pulling in NodeSet ${providerSlug} for required model ${required.modelUri}`,
+              )
+            }
+          }
+        }
+
+        const all = Array.from(loaded.values())
+        const dependenciesOf = (slug: string) => {
+          const current = loaded.get(slug)
+          if (!current) return []
+
+          const requiredProviders = current.nodeSet.models.flatMap((model) =>
+            model.requiredModels.flatMap((required) => {
+              const provider = findProvider(all, required.modelUri)
+              return provider ? [slugKey(provider.loaded.entry.slug)] : []
+            }),
+          )
+
+          return [
+            ...current.entry.dependencies.map(slugKey),
+            ...requiredProviders,
+          ].filter(
+            (dependency) => dependency !== slug && loaded.has(dependency),
+          )
+        }
+
+        const order = topologicalOrder(
+          Array.from(loaded.keys()),
+          dependenciesOf,
+        )
+        if (Either.isLeft(order)) {
+          return yield* Effect.fail(order.left)
+        }
+
+        const ordered = order.right.map((slug) => loaded.get(slug)!)
+
+        const problems = checkRequiredModels(ordered)
+        if (problems.length > 0) {
+          for (const problem of problems) {
+            yield* Effect.logError(problem.message)
+          }
+          return yield* Effect.fail(problems[0])
+        }
+
+        yield* Effect.logInfo(
+          `Resolved NodeSet load order: ${order.right.join(" -> ")}`,
+        )
+        yield* Effect.annotateCurrentSpan({ loadOrder: order.right.join(",") })
+
+        return ordered
+      })
+
       const loadDefaultNodeSets = Effect.fn(
         "NodeSetLoader.loadDefaultNodeSets",
       )(function* () {
         const defaults = yield* catalog.defaults()
-        return yield* loadNodeSets(defaults)
+        const loaded = yield* loadWithDependencies(
+          defaults.map((entry) => entry.slug),
+        )
+        return mergeNodeSets(loaded.map(({ nodeSet }) => nodeSet))
       })
 
       const ingestNodeSet = Effect.fn("NodeSetLoader.ingestNodeSet")(
@@ -502,18 +626,7 @@ export class NodeSetLoader extends Effect.Service<NodeSetLoader>()(
           namespaceUris = [],
           dependencies = [],
           defaultSelection = false,
-        }: {
-          readonly url: string
-          readonly slug?: string
-          readonly name?: string
-          readonly description?: string
-          readonly category?: string
-          readonly documentationUrl?: string
-          readonly tags?: ReadonlyArray<string>
-          readonly namespaceUris?: ReadonlyArray<string>
-          readonly dependencies?: ReadonlyArray<string>
-          readonly defaultSelection?: boolean
-        }) {
+        }: NodeSetIngestOptions) {
           const slug = providedSlug ?? `custom-${Date.now()}`
 
           const provisionalEntry = new NodeSetCatalogEntry({
@@ -535,11 +648,24 @@ export class NodeSetLoader extends Effect.Service<NodeSetLoader>()(
             { attributes: { slug, url } },
           )
 
-          const derivedNamespaceUris = nodeSet.namespaces
-            .map((ns) => ns.uri)
-            .filter(
-              (uri): uri is string => typeof uri === "string" && uri.length > 0,
-            )
+          const derivedNamespaceUris = providedModels(nodeSet)
+            .map((model) => model.modelUri)
+            .filter((uri) => uri.length > 0)
+
+          // Required models that the catalog can provide become dependencies
+          const requiredSlugs = yield* Effect.forEach(
+            nodeSet.models.flatMap((model) => model.requiredModels),
+            (required) =>
+              catalog
+                .findByModelUri(required.modelUri)
+                .pipe(Effect.map(Option.map((entry) => slugKey(entry.slug)))),
+          )
+          const resolvedDependencies = Array.from(
+            new Set([
+              ...dependencies.map(slugKey),
+              ...requiredSlugs.flatMap(Option.toArray),
+            ]),
+          ).filter((dependency) => dependency !== slugKey(slug))
 
           const finalEntry = new NodeSetCatalogEntry({
             ...provisionalEntry,
@@ -547,8 +673,22 @@ export class NodeSetLoader extends Effect.Service<NodeSetLoader>()(
               provisionalEntry.namespaceUris.length > 0
                 ? provisionalEntry.namespaceUris
                 : derivedNamespaceUris,
+            dependencies: resolvedDependencies,
           })
 
+          const loadedDependencies =
+            yield* loadWithDependencies(resolvedDependencies)
+          const problems = checkRequiredModels([
+            ...loadedDependencies,
+            { entry: finalEntry, nodeSet },
+          ]).filter((problem) => problem.slug === finalEntry.slug)
+          if (problems.length > 0) {
+            for (const problem of problems) {
+              yield* Effect.logError(problem.message)
+            }
+            return yield* Effect.fail(problems[0])
+          }
+
           yield* nodeSetStore.set(cacheKey(slug), nodeSet).pipe(
             Effect.tap(() =>
               Effect.logInfo(
@@ -562,6 +702,8 @@ export class NodeSetLoader extends Effect.Service<NodeSetLoader>()(
               ),
             ),
           )
+          yield* persistVersion(slug, nodeSet)
+          yield* persistRevision(slug, finalEntry)
 
           yield* nodeSetCache
             .set(slug, nodeSet)
@@ -577,18 +719,156 @@ export class NodeSetLoader extends Effect.Service<NodeSetLoader>()(
         },
       )
 
+      // Loads a NodeSet file or URL on its own, without adding it to the
+      // catalog or the persistent cache
+      const loadLocation = Effect.fn("NodeSetLoader.loadLocation")(function* (
+        location: string,
+      ) {
+        const fileName = location.split(/[\\/]/).pop() ?? location
+        const entry = new NodeSetCatalogEntry({
+          slug: slugFromFileName(fileName),
+          name: fileName,
+          tags: [],
+          namespaceUris: [],
+          nodeSetUrl: location,
+          dependencies: [],
+          defaultSelection: false,
+        })
+        const nodeSet = yield* source.fetchNodeSet(entry)
+        const loaded: LoadedNodeSet = { entry, nodeSet }
+        return loaded
+      })
+
+      // Every `*.NodeSet2.xml` below the directory becomes its own catalog entry;
+      // a provided slug is used as the prefix of the generated slugs
+      const ingestDirectory = Effect.fn("NodeSetLoader.ingestDirectory")(
+        function* (options: NodeSetIngestOptions) {
+          const scanned = yield* catalog.scanDirectory(options.url, {
+            slugPrefix: options.slug,
+          })
+
+          // The model URIs of the headers let the files resolve their
+          // `<RequiredModel>`s to each other instead of to remote entries
+          const headers = yield* Effect.forEach(
+            scanned,
+            (entry) =>
+              source.fetchHeader(entry).pipe(
+                Effect.map((header) => {
+                  const models = Option.match(header, {
+                    onNone: () => [],
+                    onSome: ({ models }) => models,
+                  })
+                  const uris = models.map((model) => model.modelUri)
+                  const withUris =
+                    uris.length > 0
+                      ? new NodeSetCatalogEntry({
+                          ...entry,
+                          namespaceUris: uris,
+                        })
+                      : entry
+                  return { entry: withUris, models } as const
+                }),
+              ),
+            { concurrency },
+          )
+          const entries = headers.map(({ entry }) => entry)
+          yield* catalog.registerEntries(entries)
+
+          const bySlug = new Map(
+            headers.map((header) => [header.entry.slug, header] as const),
+          )
+          const order = topologicalOrder(
+            entries.map((entry) => entry.slug),
+            (slug) =>
+              (bySlug.get(slug)?.models ?? []).flatMap((model) =>
+                model.requiredModels.flatMap((required) => {
+                  const provider = entries.find(
+                    (entry) =>
+                      entry.slug !== slug &&
+                      entry.namespaceUris.includes(required.modelUri),
+                  )
+                  return provider ? [provider.slug] : []
+                }),
+              ),
+          )
+          if (Either.isLeft(order)) {
+            return yield* Effect.fail(order.left)
+          }
+
+          // One after the other, so every file finds the ones it requires
+          // already ingested
+          return yield* Effect.forEach(
+            order.right.map((slug) => bySlug.get(slug)!.entry),
+            (entry) =>
+              ingestNodeSet({
+                ...options,
+                url: entry.nodeSetUrl,
+                slug: entry.slug,
+                name: entry.name,
+                description: options.description ?? entry.description,
+                category: options.category ?? entry.category,
+                documentationUrl:
+                  options.documentationUrl ?? entry.documentationUrl,
+                tags: options.tags ?? entry.tags,
+                namespaceUris: entry.namespaceUris,
+                dependencies: options.dependencies ?? entry.dependencies,
+              }),
+          )
+        },
+      )
+
+      // Drops the NodeSets held in memory, e.g. after the lock moved to
+      // another commit; persisted NodeSets are checked against their revision
+      const invalidateCache = Effect.fn("NodeSetLoader.invalidateCache")(
+        function* () {
+          yield* nodeSetCache.invalidateAll
+        },
+      )
+
+      const ingest = Effect.fn("NodeSetLoader.ingest")(function* (
+        options: NodeSetIngestOptions,
+      ) {
+        if (isLocalLocation(options.url)) {
+          const info = yield* fs.stat(toFilePath(options.url)).pipe(
+            Effect.mapError(
+              (cause) =>
+                new NodeSetLoaderError({
+                  cause,
+                  message: `NodeSet location ${options.url} does not exist`,
+                }),
+            ),
+          )
+          if (info.type === "Directory") {
+            return yield* ingestDirectory(options)
+          }
+        }
+
+        const ingested = yield* ingestNodeSet(options)
+        return [ingested]
+      })
+
       return {
         loadNodeSet,
         loadNodeSets,
         loadNodeSetBySlug,
         loadDefaultNodeSets,
+        loadWithDependencies,
+        contentVersion,
+        loadLocation,
         ingestNodeSet,
+        ingestDirectory,
+        ingest,
+        invalidateCache,
       } as const
     }),
     dependencies: [
+      ServerConfig.Default,
       NodeSetCatalog.Default,
       NodeSetLoaderSource.Default,
-      NodeKeyValueStore.layerFileSystem("/tmp/opcua-mcp-cache"),
+      NodeSetLock.Default,
+      NamespaceTable.Default,
+      NodeFileSystem.layer,
+      PersistentStore,
     ],
   },
 ) {}
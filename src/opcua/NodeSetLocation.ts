@@ -0,0 +1,36 @@
+import * as path from "node:path"
+import { fileURLToPath } from "node:url"
+
+export const NODESET_FILE_PATTERN = /\.NodeSet2\.xml$/i
+
+const REMOTE_LOCATION_PATTERN = /^https?:\/\//i
+
+// NodeSet locations are either HTTP(S) URLs, `file://` URLs or plain filesystem paths
+export const isRemoteLocation = (location: string): boolean =>
+  REMOTE_LOCATION_PATTERN.test(location.trim())
+
+export const isLocalLocation = (location: string): boolean =>
+  !isRemoteLocation(location)
+
+export const toFilePath = (location: string): string => {
+  const trimmed = location.trim()
+  if (trimmed.toLowerCase().startsWith("file://")) {
+    return fileURLToPath(trimmed)
+  }
+  return path.resolve(trimmed)
+}
+
+// `Opc.Ua.NodeSet2.xml` -> `core`, `Opc.Ua.Di.NodeSet2.xml` -> `di`,
+// `Opc.Ua.Machinery.Result.NodeSet2.xml` -> `machinery-result`
+export const slugFromFileName = (fileName: string): string => {
+  const stem = path.basename(fileName).replace(NODESET_FILE_PATTERN, "")
+  if (/^opc\.ua$/i.test(stem)) {
+    return "core"
+  }
+
+  return stem
+    .replace(/^opc\.ua\./i, "")
+    .replace(/[^a-z0-9]+/gi, "-")
+    .replace(/^-+|-+$/g, "")
+    .toLowerCase()
+}
@@ -0,0 +1,246 @@
+import {
+  Data,
+  Effect,
+  Option,
+  ParseResult,
+  Schema,
+  SynchronizedRef,
+} from "effect"
+import { FileSystem } from "@effect/platform/FileSystem"
+import { NodeFileSystem } from "@effect/platform-node"
+import { NodeSetRevision } from "./types.js"
+import type { ModelInfo, NodeSetCatalogEntry, NodeSetSlug } from "./types.js"
+import { ServerConfig } from "./ServerConfig.js"
+
+export class NodeSetLockError extends Data.TaggedError("NodeSetLockError")<{
+  readonly file: string
+  readonly cause?: unknown
+  readonly message: string
+}> {}
+
+// Bump when the lock file shape changes
+export const LOCKFILE_VERSION = 1
+
+export class LockedNodeSet extends Schema.Class<LockedNodeSet>("LockedNodeSet")(
+  {
+    path: Schema.String, // Path of the file in the repository
+    blobSha: Schema.String,
+    // From the `<Model>` of the NodeSet header
+    modelUri: Schema.optional(Schema.String),
+    version: Schema.optional(Schema.String),
+    publicationDate: Schema.optional(Schema.String),
+  },
+) {}
+
+// Contents of `opcua-nodesets.lock.json`
+export class NodeSetLockFile extends Schema.Class<NodeSetLockFile>(
+  "NodeSetLockFile",
+)({
+  lockfileVersion: Schema.Literal(LOCKFILE_VERSION),
+  repository: Schema.String, // owner/name
+  ref: Schema.String, // Configured ref the commit was resolved from
+  commit: Schema.String,
+  nodeSets: Schema.Record({ key: Schema.String, value: LockedNodeSet }),
+}) {}
+
+const NodeSetLockJson = Schema.parseJson(NodeSetLockFile)
+const decodeLockFile = Schema.decodeUnknown(NodeSetLockJson)
+
+// Slugs are sorted so the file diffs cleanly in version control
+const encodeLockFile = (lock: NodeSetLockFile): string =>
+  `${JSON.stringify(
+    {
+      ...Schema.encodeSync(NodeSetLockFile)(lock),
+      nodeSets: Object.fromEntries(
+        Object.keys(lock.nodeSets)
+          .sort()
+          .map((slug) => [
+            slug,
+            Schema.encodeSync(LockedNodeSet)(lock.nodeSets[slug]),
+          ]),
+      ),
+    },
+    null,
+    2,
+  )}\n`
+
+// Model a NodeSet provides, as read from its header
+export type NodeSetModelHeader = Pick<
+  ModelInfo,
+  "modelUri" | "version" | "publicationDate"
+>
+
+export const lockedNodeSet = (
+  revision: NodeSetRevision,
+  model: NodeSetModelHeader | undefined,
+): LockedNodeSet =>
+  new LockedNodeSet({
+    path: revision.path,
+    blobSha: revision.blobSha,
+    modelUri: model?.modelUri,
+    version: model?.version,
+    publicationDate: model?.publicationDate,
+  })
+
+export const lockedRevision = (
+  lock: NodeSetLockFile,
+  slug: NodeSetSlug,
+): Option.Option<NodeSetRevision> =>
+  Option.map(
+    Option.fromNullable(lock.nodeSets[slug]),
+    (locked) =>
+      new NodeSetRevision({
+        commit: lock.commit,
+        path: locked.path,
+        blobSha: locked.blobSha,
+      }),
+  )
+
+// The lock file pinning the catalog to one commit of its GitHub repository
+// and every loaded NodeSet to its blob SHA and header version. It is created
+// on the first load and only moved to another commit by `write`, e.g. from
+// `opcua_nodeset_update`
+export class NodeSetLock extends Effect.Service<NodeSetLock>()("NodeSetLock", {
+  effect: Effect.gen(function* () {
+    const fs = yield* FileSystem
+    const config = yield* ServerConfig
+    const file = config.lockFile
+
+    const exists = yield* fs
+      .exists(file)
+      .pipe(Effect.orElseSucceed(() => false))
+    const initial = exists
+      ? yield* fs.readFileString(file).pipe(
+          Effect.flatMap(decodeLockFile),
+          Effect.map(Option.some),
+          Effect.mapError(
+            (cause) =>
+              new NodeSetLockError({
+                file,
+                cause,
+                message: ParseResult.isParseError(cause)
+                  ? `Invalid lock file ${file}: ${ParseResult.ArrayFormatter.formatErrorSync(
+                      cause,
+                    )
+                      .map(({ path, message }) =>
+                        path.length > 0
+                          ? `${path.join(".")}: ${message}`
+                          : message,
+                      )
+                      .join("; ")}`
+                  : `Failed to read lock file ${file}: ${cause.message}`,
+              }),
+          ),
+        )
+      : Option.none<NodeSetLockFile>()
+
+    // A lock of another repository or ref is ignored and replaced on write
+    const current = (lock: Option.Option<NodeSetLockFile>) =>
+      Option.filter(
+        lock,
+        ({ repository, ref }) =>
+          repository === config.githubRepo && ref === config.githubRef,
+      )
+
+    if (Option.isSome(initial)) {
+      const { repository, ref, commit } = initial.value
+      yield* Option.isSome(current(initial))
+        ? Effect.logInfo(
+            `Using lock file ${file}: ${repository}@${ref} pinned to ${commit}`,
+          )
+        : Effect.logWarning(
+            `Ignoring lock file ${file} of ${repository}@${ref}, the configured catalog is ${config.githubRepo}@${config.githubRef}`,
+          )
+    }
+
+    const state = yield* SynchronizedRef.make(initial)
+
+    const persist = (lock: NodeSetLockFile) =>
+      fs.writeFileString(file, encodeLockFile(lock)).pipe(
+        Effect.mapError(
+          (cause) =>
+            new NodeSetLockError({
+              file,
+              cause,
+              message: `Failed to write lock file ${file}: ${cause.message}`,
+            }),
+        ),
+      )
+
+    // None while no lock file exists, or when it was written for another
+    // repository or ref than the configured one
+    const read = Effect.fn("NodeSetLock.read")(function* () {
+      return current(yield* SynchronizedRef.get(state))
+    })
+
+    const write = Effect.fn("NodeSetLock.write")(function* (
+      lock: NodeSetLockFile,
+    ) {
+      yield* SynchronizedRef.updateEffect(state, () =>
+        Effect.as(persist(lock), Option.some(lock)),
+      )
+      yield* Effect.logInfo(
+        `Wrote lock file ${file} pinned to ${lock.commit} with ${Object.keys(lock.nodeSets).length} NodeSets`,
+      )
+    })
+
+    // Adds a loaded catalog NodeSet to the lock. Entries read at another
+    // commit than the locked one are left out, the lock only moves on `write`
+    const record = Effect.fn("NodeSetLock.record")(function* (
+      entry: NodeSetCatalogEntry,
+      model: NodeSetModelHeader | undefined,
+    ) {
+      const revision = entry.revision
+      if (revision === undefined) {
+        return
+      }
+      const locked = lockedNodeSet(revision, model)
+
+      yield* SynchronizedRef.updateEffect(state, (previous) => {
+        const lock = current(previous)
+        if (Option.isSome(lock) && lock.value.commit !== revision.commit) {
+          return Effect.succeed(previous)
+        }
+        const existing = Option.flatMapNullable(
+          lock,
+          (lock) => lock.nodeSets[entry.slug],
+        )
+        if (
+          Option.isSome(existing) &&
+          Schema.equivalence(LockedNodeSet)(existing.value, locked)
+        ) {
+          return Effect.succeed(previous)
+        }
+
+        const next = new NodeSetLockFile({
+          lockfileVersion: LOCKFILE_VERSION,
+          repository: config.githubRepo,
+          ref: config.githubRef,
+          commit: revision.commit,
+          nodeSets: {
+            ...Option.match(lock, {
+              onNone: () => ({}),
+              onSome: (lock) => lock.nodeSets,
+            }),
+            [entry.slug]: locked,
+          },
+        })
+        return persist(next).pipe(
+          Effect.as(Option.some(next)),
+          Effect.tap(() =>
+            Effect.logInfo(
+              `Locked NodeSet ${entry.slug} at ${revision.commit} (${revision.blobSha})`,
+            ),
+          ),
+          // A read-only working directory should not stop NodeSets loading
+          Effect.catchAll((error) =>
+            Effect.as(Effect.logWarning(error.message), previous),
+          ),
+        )
+      })
+    })
+
+    return { file, read, write, record } as const
+  }),
+  dependencies: [ServerConfig.Default, NodeFileSystem.layer],
+}) {}
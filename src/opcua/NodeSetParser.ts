@@ -0,0 +1,778 @@
+import { Option } from "effect"
+import { XMLParser } from "fast-xml-parser"
+import {
+  CORE_NAMESPACE_URI,
+  DataTypeDefinition,
+  type DataTypeDefinitionKind,
+  DataTypeField,
+  LocalizedText,
+  ModelInfo,
+  NamespaceMetadata,
+  NodeClass,
+  NodeId,
+  NodeSet,
+  NodeSetAlias,
+  NodeSetCatalogEntry,
+  ParsedUANode,
+  Reference,
+  RequiredModel,
+  type UAStructureField,
+  type UAValue,
+} from "./types.js"
+import {
+  DataTypeIds,
+  ReferenceTypeIds,
+  standardBrowseNames,
+} from "./StandardNodes.js"
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  textNodeName: "#text",
+  // Values stay strings so versions such as `1.10` and `<String>0010</String>`
+  // survive intact; `uax:` prefixes of `<Value>` payloads are dropped
+  parseAttributeValue: false,
+  parseTagValue: false,
+  removeNSPrefix: true,
+})
+
+const attributeString = (value: unknown): string | undefined =>
+  value === undefined || value === null ? undefined : String(value)
+
+const attributeNumber = (value: unknown): number | undefined => {
+  if (value === undefined || value === "") return undefined
+  const parsed = Number(value)
+  return Number.isNaN(parsed) ? undefined : parsed
+}
+
+const attributeBoolean = (value: unknown): boolean | undefined =>
+  value === undefined ? undefined : String(value).toLowerCase() === "true"
+
+const asArray = <A>(
+  value: A | ReadonlyArray<A> | undefined,
+): ReadonlyArray<A> =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value as A]
+
+// Per-NodeSet namespace context: index 0 is the core namespace, index N is the
+// N-th `<NamespaceUris>` entry of the file
+export interface NodeSetNamespaces {
+  readonly uriAt: (index: number) => string | undefined
+}
+
+// Everything a node needs from the NodeSet header to be parsed on its own
+export interface NodeSetContext extends NodeSetNamespaces {
+  readonly aliases: ReadonlyMap<string, NodeId>
+}
+
+export const NODE_ID_PATTERN = /^(?:(ns|nsu)=([^;]*);)?([isgb])=(.*)$/s
+
+const identifierTypes = {
+  i: "Numeric",
+  s: "String",
+  g: "Guid",
+  b: "Opaque",
+} as const
+
+// Parses `i=85`, `ns=1;i=1001` and `nsu=http://...;s=Name` NodeId strings.
+// Local indexes are resolved to namespace URIs through the given namespaces.
+export const parseNodeId = (
+  nodeIdStr: string,
+  namespaces: NodeSetNamespaces,
+): NodeId => {
+  const match = NODE_ID_PATTERN.exec(String(nodeIdStr).trim())
+  if (!match) {
+    return new NodeId(
+      {
+        namespaceIndex: 0,
+        namespaceUri: CORE_NAMESPACE_URI,
+        identifierType: "String",
+        identifier: String(nodeIdStr),
+      },
+      true,
+    )
+  }
+
+  const [, nsKind, nsValue, idType, identifier] = match
+  const identifierType = identifierTypes[idType as keyof typeof identifierTypes]
+
+  if (nsKind === "nsu") {
+    return new NodeId(
+      {
+        namespaceIndex: 0,
+        namespaceUri: nsValue,
+        identifierType,
+        identifier,
+      },
+      true,
+    )
+  }
+
+  const namespaceIndex = nsKind === "ns" ? Number.parseInt(nsValue, 10) : 0
+  return new NodeId(
+    {
+      namespaceIndex,
+      namespaceUri: namespaces.uriAt(namespaceIndex),
+      identifierType,
+      identifier,
+    },
+    true,
+  )
+}
+
+// Splits `1:DeviceSet` into its namespace URI and name
+export const parseQualifiedName = (
+  qualifiedName: string,
+  namespaces: NodeSetNamespaces,
+): { readonly name: string; readonly namespaceUri: string | undefined } => {
+  const match = /^(\d+):(.*)$/s.exec(qualifiedName)
+  if (!match) {
+    return { name: qualifiedName, namespaceUri: undefined }
+  }
+  const index = Number.parseInt(match[1], 10)
+  return {
+    name: match[2],
+    namespaceUri: index === 0 ? undefined : namespaces.uriAt(index),
+  }
+}
+
+// Resolves a ReferenceType or DataType attribute, which is either an alias or
+// a raw NodeId, to its NodeId and BrowseName. Names of nodes outside the core
+// namespace fall back to the alias or NodeId until `resolveLocalTypeNames` runs.
+export const resolveTypeReference = (
+  value: string,
+  context: NodeSetContext,
+): { readonly nodeId: NodeId | undefined; readonly name: string } => {
+  const alias = context.aliases.get(value)
+  const nodeId =
+    alias ??
+    (NODE_ID_PATTERN.test(value) ? parseNodeId(value, context) : undefined)
+
+  if (!nodeId) {
+    return { nodeId: undefined, name: value }
+  }
+
+  const name =
+    standardBrowseNames.get(nodeId.toString()) ??
+    (alias ? value : nodeId.toString())
+  return { nodeId, name }
+}
+
+const parseLocalizedText = (text: any): LocalizedText | undefined => {
+  if (!text) return undefined
+
+  if (typeof text === "string") {
+    return new LocalizedText({ text }, true)
+  }
+
+  if (typeof text === "object") {
+    const locale = text["@_Locale"]
+    const body = text["#text"] ?? text["Text"] ?? ""
+    return new LocalizedText({ locale, text: String(body) }, true)
+  }
+
+  return new LocalizedText({ text: String(text) }, true)
+}
+
+const parseReferences = (refs: any, context: NodeSetContext): Reference[] => {
+  if (!refs || !refs.Reference) return []
+  const refArray = Array.isArray(refs.Reference)
+    ? refs.Reference
+    : [refs.Reference]
+  return refArray.map((ref: any) => {
+    const referenceType = resolveTypeReference(
+      String(ref["@_ReferenceType"] || "References"),
+      context,
+    )
+    return new Reference(
+      {
+        referenceType: referenceType.name,
+        referenceTypeId: referenceType.nodeId,
+        isForward: attributeBoolean(ref["@_IsForward"]) !== false,
+        targetNodeId: parseNodeId(ref["#text"] || ref, context),
+      },
+      true,
+    )
+  })
+}
+
+const elementText = (value: unknown): string | undefined => {
+  if (value === undefined || value === null) return undefined
+  if (typeof value === "object") {
+    const text = (value as Record<string, unknown>)["#text"]
+    return text === undefined ? "" : String(text)
+  }
+  return String(value)
+}
+
+const childElementNames = (element: unknown): ReadonlyArray<string> =>
+  element !== null && typeof element === "object"
+    ? Object.keys(element).filter(
+        (key) => !key.startsWith("@_") && key !== "#text",
+      )
+    : []
+
+// Field types of the structures NodeSets commonly carry as default values
+const knownStructureFields: Record<string, Record<string, string>> = {
+  Argument: {
+    Name: "String",
+    DataType: "NodeId",
+    ValueRank: "Int32",
+    ArrayDimensions: "ListOfUInt32",
+    Description: "LocalizedText",
+  },
+  EUInformation: {
+    NamespaceUri: "String",
+    UnitId: "Int32",
+    DisplayName: "LocalizedText",
+    Description: "LocalizedText",
+  },
+  Range: { Low: "Double", High: "Double" },
+  EnumValueType: {
+    Value: "Int64",
+    DisplayName: "LocalizedText",
+    Description: "LocalizedText",
+  },
+}
+
+const parseStructureFields = (
+  element: unknown,
+  fieldTypes: Record<string, string> | undefined,
+  context: NodeSetNamespaces,
+): ReadonlyArray<UAStructureField> =>
+  childElementNames(element).flatMap((name) =>
+    asArray((element as Record<string, unknown>)[name]).map((content) => ({
+      name,
+      value: fieldTypes?.[name]
+        ? parseVariant(fieldTypes[name], content, context)
+        : parseUntypedField(content, context),
+    })),
+  )
+
+// Body elements of unknown structures are typed by their shape
+const parseUntypedField = (
+  content: unknown,
+  context: NodeSetNamespaces,
+): UAValue => {
+  const children = childElementNames(content)
+  if (children.length === 0) {
+    return {
+      _tag: "Scalar",
+      dataType: "String",
+      value: elementText(content) ?? "",
+    }
+  }
+  if (children.length === 1 && children[0] === "Identifier") {
+    return parseVariant("NodeId", content, context)
+  }
+  if (children.every((child) => child === "Locale" || child === "Text")) {
+    return parseVariant("LocalizedText", content, context)
+  }
+  if (
+    children.every((child) => child === "NamespaceIndex" || child === "Name")
+  ) {
+    return parseVariant("QualifiedName", content, context)
+  }
+  return {
+    _tag: "Structure",
+    fields: parseStructureFields(content, undefined, context),
+  }
+}
+
+// Parses one variant element, named after its built-in type (`Int32`,
+// `ListOfLocalizedText`, `ExtensionObject`, ...)
+export const parseVariant = (
+  typeName: string,
+  content: unknown,
+  context: NodeSetNamespaces,
+): UAValue => {
+  const element = (content ?? {}) as Record<string, any>
+
+  if (typeName.startsWith("ListOf")) {
+    const itemType = typeName.slice("ListOf".length)
+    return {
+      _tag: "Array",
+      dataType: itemType,
+      items: asArray(element[itemType]).map((item) =>
+        parseVariant(itemType, item, context),
+      ),
+    }
+  }
+
+  switch (typeName) {
+    case "LocalizedText": {
+      const locale = elementText(element.Locale)
+      return {
+        _tag: "LocalizedText",
+        locale: locale ? locale : undefined,
+        text: elementText(element.Text) ?? "",
+      }
+    }
+    case "QualifiedName": {
+      const index = Number(elementText(element.NamespaceIndex) ?? 0)
+      return {
+        _tag: "QualifiedName",
+        namespaceUri: index === 0 ? undefined : context.uriAt(index),
+        name: elementText(element.Name) ?? "",
+      }
+    }
+    case "NodeId":
+    case "ExpandedNodeId":
+      return {
+        _tag: "NodeId",
+        dataType: typeName,
+        nodeId: parseNodeId(
+          elementText(element.Identifier) ?? elementText(content) ?? "",
+          context,
+        ),
+      }
+    case "ExtensionObject": {
+      const body = element.Body
+      const [bodyName] = childElementNames(body)
+      const typeId = elementText(element.TypeId?.Identifier)
+      return {
+        _tag: "Structure",
+        typeName: bodyName,
+        typeId: typeId ? parseNodeId(typeId, context) : undefined,
+        fields: bodyName
+          ? parseStructureFields(
+              body[bodyName],
+              knownStructureFields[bodyName],
+              context,
+            )
+          : [],
+      }
+    }
+    case "Guid":
+      return {
+        _tag: "Scalar",
+        dataType: typeName,
+        value: elementText(element.String) ?? elementText(content) ?? "",
+      }
+    case "StatusCode":
+      return {
+        _tag: "Scalar",
+        dataType: typeName,
+        value: elementText(element.Code) ?? elementText(content) ?? "",
+      }
+  }
+
+  if (childElementNames(content).length > 0) {
+    return {
+      _tag: "Structure",
+      typeName,
+      fields: parseStructureFields(content, undefined, context),
+    }
+  }
+
+  return {
+    _tag: "Scalar",
+    dataType: typeName,
+    value: elementText(content) ?? "",
+  }
+}
+
+export const parseValue = (
+  valueElement: unknown,
+  context: NodeSetNamespaces,
+): UAValue | undefined => {
+  const [typeName] = childElementNames(valueElement)
+  if (!typeName) return undefined
+  return parseVariant(
+    typeName,
+    (valueElement as Record<string, unknown>)[typeName],
+    context,
+  )
+}
+
+const parseArrayDimensions = (
+  value: unknown,
+): ReadonlyArray<number> | undefined => {
+  const text = attributeString(value)
+  if (text === undefined || text.trim() === "") return undefined
+  return text.split(",").map((dimension) => Number(dimension.trim()))
+}
+
+// Supertype of a type node, taken from its inverse HasSubtype reference
+const findSupertype = (references: ReadonlyArray<Reference>) =>
+  references.find(
+    (ref) =>
+      !ref.isForward &&
+      (ref.referenceTypeId
+        ? ref.referenceTypeId.toString() === ReferenceTypeIds.HasSubtype
+        : ref.referenceType === "HasSubtype"),
+  )?.targetNodeId
+
+const parseDefinitionField = (
+  field: any,
+  context: NodeSetContext,
+): DataTypeField => {
+  const dataType =
+    field["@_DataType"] !== undefined
+      ? resolveTypeReference(String(field["@_DataType"]), context)
+      : undefined
+  return new DataTypeField({
+    name: attributeString(field["@_Name"]) ?? "",
+    symbolicName: attributeString(field["@_SymbolicName"]),
+    dataType: dataType?.name,
+    dataTypeId: dataType?.nodeId,
+    valueRank: attributeNumber(field["@_ValueRank"]),
+    arrayDimensions: parseArrayDimensions(field["@_ArrayDimensions"]),
+    maxStringLength: attributeNumber(field["@_MaxStringLength"]),
+    isOptional: attributeBoolean(field["@_IsOptional"]),
+    allowSubTypes: attributeBoolean(field["@_AllowSubTypes"]),
+    value: attributeNumber(field["@_Value"]),
+    displayName:
+      field.DisplayName !== undefined
+        ? parseLocalizedText(field.DisplayName)
+        : undefined,
+    description:
+      field.Description !== undefined
+        ? parseLocalizedText(field.Description)
+        : undefined,
+  })
+}
+
+const definitionKind = (
+  definition: any,
+  fields: ReadonlyArray<DataTypeField>,
+  supertype: NodeId | undefined,
+): DataTypeDefinitionKind => {
+  if (attributeBoolean(definition["@_IsOptionSet"])) return "OptionSet"
+  if (attributeBoolean(definition["@_IsUnion"])) return "Union"
+
+  switch (supertype?.toString()) {
+    case DataTypeIds.Enumeration:
+      return "Enumeration"
+    case DataTypeIds.Union:
+      return "Union"
+  }
+
+  // Enumeration fields have a value but no data type
+  if (
+    fields.length > 0 &&
+    fields.every(
+      (field) => field.dataType === undefined && field.value !== undefined,
+    )
+  ) {
+    return "Enumeration"
+  }
+
+  return fields.some((field) => field.isOptional)
+    ? "StructureWithOptionalFields"
+    : "Structure"
+}
+
+// Parses the `<Definition>` of a UADataType
+export const parseDefinition = (
+  definition: any,
+  references: ReadonlyArray<Reference>,
+  context: NodeSetContext,
+): DataTypeDefinition => {
+  const fields = asArray(definition.Field).map((field) =>
+    parseDefinitionField(field, context),
+  )
+  const supertype = findSupertype(references)
+  return new DataTypeDefinition({
+    kind: definitionKind(definition, fields, supertype),
+    name: attributeString(definition["@_Name"]),
+    symbolicName: attributeString(definition["@_SymbolicName"]),
+    baseDataType: supertype
+      ? (standardBrowseNames.get(supertype.toString()) ?? supertype.toString())
+      : undefined,
+    baseDataTypeId: supertype,
+    fields,
+  })
+}
+
+const getNodeClass = (tagName: string): NodeClass => {
+  if (tagName.includes("ObjectType")) return "ObjectType"
+  if (tagName.includes("VariableType")) return "VariableType"
+  if (tagName.includes("ReferenceType")) return "ReferenceType"
+  if (tagName.includes("DataType")) return "DataType"
+  if (tagName.includes("Method")) return "Method"
+  if (tagName.includes("Variable")) return "Variable"
+  if (tagName.includes("View")) return "View"
+  return "Object"
+}
+
+export const parseNode = (
+  nodeData: any,
+  tagName: string,
+  context: NodeSetContext,
+): ParsedUANode => {
+  const nodeClass = getNodeClass(tagName)
+  const browseName = parseQualifiedName(
+    String(nodeData["@_BrowseName"] ?? ""),
+    context,
+  )
+  const displayName =
+    parseLocalizedText(nodeData.DisplayName) ||
+    new LocalizedText({ text: browseName.name }, true)
+  const description =
+    nodeData.Description !== undefined
+      ? parseLocalizedText(nodeData.Description)
+      : undefined
+
+  const nodeId = parseNodeId(nodeData["@_NodeId"], context)
+  const references = parseReferences(nodeData.References, context)
+  const dataType =
+    nodeData["@_DataType"] !== undefined
+      ? resolveTypeReference(String(nodeData["@_DataType"]), context)
+      : undefined
+
+  // Parser output is well-formed by construction, so the Schema constructors
+  // skip validation here and for the NodeIds, texts and references above
+  return new ParsedUANode(
+    {
+      nodeId,
+      nodeClass,
+      browseName: browseName.name,
+      browseNameNamespaceUri: browseName.namespaceUri,
+      displayName,
+      description: description ? Option.some(description) : Option.none(),
+      references,
+      namespaceUri: nodeId.namespaceUri,
+      dataType: dataType?.name,
+      dataTypeId: dataType?.nodeId,
+      valueRank: attributeNumber(nodeData["@_ValueRank"]),
+      arrayDimensions: parseArrayDimensions(nodeData["@_ArrayDimensions"]),
+      accessLevel: attributeNumber(nodeData["@_AccessLevel"]),
+      userAccessLevel: attributeNumber(nodeData["@_UserAccessLevel"]),
+      historizing: attributeBoolean(nodeData["@_Historizing"]),
+      minimumSamplingInterval: attributeNumber(
+        nodeData["@_MinimumSamplingInterval"],
+      ),
+      value:
+        nodeData.Value !== undefined
+          ? parseValue(nodeData.Value, context)
+          : undefined,
+      eventNotifier: attributeNumber(nodeData["@_EventNotifier"]),
+      parentNodeId: nodeData["@_ParentNodeId"]
+        ? parseNodeId(String(nodeData["@_ParentNodeId"]), context)
+        : undefined,
+      methodDeclarationId: nodeData["@_MethodDeclarationId"]
+        ? parseNodeId(String(nodeData["@_MethodDeclarationId"]), context)
+        : undefined,
+      isAbstract: attributeBoolean(nodeData["@_IsAbstract"]),
+      symmetric: attributeBoolean(nodeData["@_Symmetric"]),
+      inverseName:
+        nodeData.InverseName !== undefined
+          ? parseLocalizedText(nodeData.InverseName)
+          : undefined,
+      definition:
+        nodeData.Definition !== undefined
+          ? parseDefinition(nodeData.Definition, references, context)
+          : undefined,
+      symbolicName: attributeString(nodeData["@_SymbolicName"]),
+      releaseStatus: attributeString(nodeData["@_ReleaseStatus"]),
+    },
+    true,
+  )
+}
+
+export const NODE_ELEMENTS = [
+  "UAObject",
+  "UAVariable",
+  "UAMethod",
+  "UAObjectType",
+  "UAVariableType",
+  "UAReferenceType",
+  "UADataType",
+  "UAView",
+] as const
+
+export const readModels = (nodeSetElement: any): ReadonlyArray<ModelInfo> =>
+  asArray<any>(nodeSetElement.Models?.Model).map(
+    (model) =>
+      new ModelInfo({
+        modelUri: String(model["@_ModelUri"] ?? ""),
+        version: attributeString(model["@_Version"]),
+        publicationDate: attributeString(model["@_PublicationDate"]),
+        requiredModels: asArray<any>(model.RequiredModel).map(
+          (required) =>
+            new RequiredModel({
+              modelUri: String(required["@_ModelUri"] ?? ""),
+              version: attributeString(required["@_Version"]),
+              publicationDate: attributeString(required["@_PublicationDate"]),
+            }),
+        ),
+      }),
+  )
+
+// Builds the namespace table of a NodeSet from its `<NamespaceUris>` header
+export const readNamespaces = (
+  nodeSetElement: any,
+  entry: NodeSetCatalogEntry,
+  models: ReadonlyArray<ModelInfo>,
+): {
+  readonly namespaces: ReadonlyArray<NamespaceMetadata>
+  readonly lookup: NodeSetNamespaces
+} => {
+  const declared = asArray<unknown>(nodeSetElement.NamespaceUris?.Uri).map(
+    String,
+  )
+
+  // Files without a namespace table only describe the core namespace, or the
+  // namespaces the catalog entry declares for them
+  const fileUris =
+    declared.length > 0
+      ? declared
+      : entry.namespaceUris.filter((uri) => uri !== CORE_NAMESPACE_URI)
+  const table = [CORE_NAMESPACE_URI, ...fileUris]
+
+  const ownUris = fileUris.length > 0 ? fileUris : [CORE_NAMESPACE_URI]
+  const namespaces = ownUris.map((uri) => {
+    const model = models.find((candidate) => candidate.modelUri === uri)
+    return new NamespaceMetadata({
+      uri,
+      publicationDate:
+        model?.publicationDate ??
+        attributeString(nodeSetElement["@_PublicationDate"]),
+      version: model?.version ?? attributeString(nodeSetElement["@_Version"]),
+    })
+  })
+
+  return { namespaces, lookup: { uriAt: (index) => table[index] } }
+}
+
+export const readAliases = (
+  nodeSetElement: any,
+  namespaces: NodeSetNamespaces,
+): ReadonlyArray<NodeSetAlias> => {
+  return asArray<any>(nodeSetElement.Aliases?.Alias).map(
+    (alias: any) =>
+      new NodeSetAlias({
+        alias: String(alias["@_Alias"]),
+        nodeId: parseNodeId(String(alias["#text"] ?? ""), namespaces),
+      }),
+  )
+}
+
+export const makeContext = (
+  namespaces: NodeSetNamespaces,
+  aliases: ReadonlyArray<NodeSetAlias>,
+): NodeSetContext => ({
+  uriAt: namespaces.uriAt,
+  aliases: new Map(aliases.map((alias) => [alias.alias, alias.nodeId])),
+})
+
+// Renames reference types and data types defined by the NodeSet itself to the
+// BrowseName of their defining node
+export const resolveLocalTypeNames = (
+  nodes: ReadonlyArray<ParsedUANode>,
+): ReadonlyArray<ParsedUANode> => {
+  const names = new Map(
+    nodes.map((node) => [node.nodeId.toString(), node.browseName] as const),
+  )
+  const nameOf = (nodeId: NodeId | undefined, current: string | undefined) =>
+    (nodeId && names.get(nodeId.toString())) ?? current
+
+  const renameDefinition = (
+    definition: DataTypeDefinition,
+  ): DataTypeDefinition => {
+    const baseDataType = nameOf(
+      definition.baseDataTypeId,
+      definition.baseDataType,
+    )
+    const renamed = definition.fields.some(
+      (field) => nameOf(field.dataTypeId, field.dataType) !== field.dataType,
+    )
+    if (baseDataType === definition.baseDataType && !renamed) {
+      return definition
+    }
+
+    return new DataTypeDefinition(
+      {
+        ...definition,
+        baseDataType,
+        fields: definition.fields.map((field) =>
+          nameOf(field.dataTypeId, field.dataType) === field.dataType
+            ? field
+            : new DataTypeField(
+                {
+                  ...field,
+                  dataType: nameOf(field.dataTypeId, field.dataType),
+                },
+                true,
+              ),
+        ),
+      },
+      true,
+    )
+  }
+
+  return nodes.map((node) => {
+    const dataType = nameOf(node.dataTypeId, node.dataType)
+    const definition = node.definition && renameDefinition(node.definition)
+    const renamed = node.references.some(
+      (ref) =>
+        nameOf(ref.referenceTypeId, ref.referenceType) !== ref.referenceType,
+    )
+    if (
+      dataType === node.dataType &&
+      definition === node.definition &&
+      !renamed
+    ) {
+      return node
+    }
+
+    return new ParsedUANode(
+      {
+        ...node,
+        dataType,
+        definition,
+        references: renamed
+          ? node.references.map(
+              (ref) =>
+                new Reference(
+                  {
+                    ...ref,
+                    referenceType: nameOf(
+                      ref.referenceTypeId,
+                      ref.referenceType,
+                    )!,
+                  },
+                  true,
+                ),
+            )
+          : node.references,
+      },
+      true,
+    )
+  })
+}
+
+export const parseNodeSetXml = (
+  xmlContent: string,
+  entry: NodeSetCatalogEntry,
+): NodeSet => {
+  const parsed = xmlParser.parse(xmlContent)
+  const nodeSetElement = parsed.UANodeSet || parsed
+
+  const models = readModels(nodeSetElement)
+  const { namespaces, lookup } = readNamespaces(nodeSetElement, entry, models)
+  const aliases = readAliases(nodeSetElement, lookup)
+  const context = makeContext(lookup, aliases)
+
+  const nodes: ParsedUANode[] = []
+
+  for (const nodeType of NODE_ELEMENTS) {
+    const nodeData = nodeSetElement[nodeType]
+    if (nodeData) {
+      const nodeArray = Array.isArray(nodeData) ? nodeData : [nodeData]
+      for (const node of nodeArray) {
+        nodes.push(parseNode(node, nodeType, context))
+      }
+    }
+  }
+
+  return new NodeSet(
+    {
+      namespaces,
+      models,
+      aliases,
+      nodes: resolveLocalTypeNames(nodes),
+    },
+    true,
+  )
+}
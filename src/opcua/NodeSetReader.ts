@@ -0,0 +1,185 @@
+import { Cause, Data, Duration, Effect, Option, Stream } from "effect"
+import {
+  HttpClient,
+  HttpClientError,
+  HttpClientRequest,
+} from "@effect/platform"
+import { FileSystem } from "@effect/platform/FileSystem"
+import { NodeFileSystem, NodeHttpClient } from "@effect/platform-node"
+import type { NodeSetCatalogEntry } from "./types.js"
+import { isLocalLocation, toFilePath } from "./NodeSetLocation.js"
+import { parseNodeSetStream } from "./NodeSetStream.js"
+import { NodeSetFetchPolicy, retrySchedule } from "./NodeSetFetchPolicy.js"
+
+// The NodeSet could not be read: a failed or timed out request, an error
+// status or an unreadable file
+export class NodeSetFetchError extends Data.TaggedError("NodeSetFetchError")<{
+  readonly slug: string
+  readonly url: string
+  readonly status?: number
+  readonly cause?: unknown
+  readonly message: string
+}> {}
+
+export class NodeSetTooLarge extends Data.TaggedError("NodeSetTooLarge")<{
+  readonly slug: string
+  readonly url: string
+  readonly limit: number // Bytes
+  readonly message: string
+}> {}
+
+// Reads NodeSet files from disk or over HTTP under the fetch policy. Shared
+// by the catalog, which reads headers, and the loader, which parses files
+export class NodeSetReader extends Effect.Service<NodeSetReader>()(
+  "NodeSetReader",
+  {
+    effect: Effect.gen(function* () {
+      const fs = yield* FileSystem
+      const policy = yield* NodeSetFetchPolicy
+      // Every attempt has its own timeout; timeouts, connection errors and
+      // 429 or 5xx responses are retried, other error statuses are not
+      const client = (yield* HttpClient.HttpClient).pipe(
+        HttpClient.filterStatusOk,
+        HttpClient.transformResponse(Effect.timeout(policy.requestTimeout)),
+        HttpClient.retryTransient({ schedule: retrySchedule(policy) }),
+        HttpClient.mapRequest(
+          HttpClientRequest.setHeaders({
+            Accept: "application/xml",
+            "User-Agent": "https://github.com/opcua-org/node-opcua",
+          }),
+        ),
+      )
+
+      const fetchError = (
+        entry: NodeSetCatalogEntry,
+        error: HttpClientError.HttpClientError | Cause.TimeoutException,
+      ) =>
+        error._tag === "TimeoutException"
+          ? new NodeSetFetchError({
+              slug: entry.slug,
+              url: entry.nodeSetUrl,
+              cause: error,
+              message: `Request for NodeSet ${entry.slug} at ${entry.nodeSetUrl} timed out after ${policy.retries + 1} attempts`,
+            })
+          : error._tag === "ResponseError"
+            ? new NodeSetFetchError({
+                slug: entry.slug,
+                url: entry.nodeSetUrl,
+                status: error.response.status,
+                cause: error,
+                message:
+                  error.reason === "StatusCode"
+                    ? `NodeSet ${entry.slug} at ${entry.nodeSetUrl} answered with status ${error.response.status}`
+                    : `Failed to read NodeSet ${entry.slug} from ${entry.nodeSetUrl}: ${error.message}`,
+              })
+            : new NodeSetFetchError({
+                slug: entry.slug,
+                url: entry.nodeSetUrl,
+                cause: error,
+                message: `Request for NodeSet ${entry.slug} at ${entry.nodeSetUrl} failed: ${error.message}`,
+              })
+
+      const tooLarge = (entry: NodeSetCatalogEntry) =>
+        new NodeSetTooLarge({
+          slug: entry.slug,
+          url: entry.nodeSetUrl,
+          limit: policy.maxBytes,
+          message: `NodeSet ${entry.slug} at ${entry.nodeSetUrl} exceeds the limit of ${policy.maxBytes} bytes`,
+        })
+
+      // Fails once more bytes than the size limit have been read
+      const limitSize =
+        (entry: NodeSetCatalogEntry) =>
+        <E>(bytes: Stream.Stream<Uint8Array, E>) =>
+          bytes.pipe(
+            Stream.mapAccumEffect(0, (total, chunk) =>
+              total + chunk.byteLength > policy.maxBytes
+                ? Effect.fail(tooLarge(entry))
+                : Effect.succeed([total + chunk.byteLength, chunk] as const),
+            ),
+          )
+
+      // Raw bytes of a NodeSet, streamed from disk or from the HTTP response body
+      const readNodeSetBytes = (
+        entry: NodeSetCatalogEntry,
+      ): Stream.Stream<Uint8Array, NodeSetFetchError | NodeSetTooLarge> => {
+        if (isLocalLocation(entry.nodeSetUrl)) {
+          const filePath = toFilePath(entry.nodeSetUrl)
+          return fs.stream(filePath).pipe(
+            Stream.tapErrorCause((cause) =>
+              Effect.logError(`Reading NodeSet file ${filePath} failed`, cause),
+            ),
+            Stream.mapError(
+              (cause) =>
+                new NodeSetFetchError({
+                  slug: entry.slug,
+                  url: entry.nodeSetUrl,
+                  cause,
+                  message: `Failed to read NodeSet file ${filePath}`,
+                }),
+            ),
+            limitSize(entry),
+          )
+        }
+
+        return Stream.unwrap(
+          Effect.gen(function* () {
+            const response = yield* client.get(entry.nodeSetUrl)
+            const length = Number(response.headers["content-length"])
+            if (length > policy.maxBytes) {
+              return yield* tooLarge(entry)
+            }
+            return response.stream.pipe(
+              Stream.timeoutFail(
+                () =>
+                  new NodeSetFetchError({
+                    slug: entry.slug,
+                    url: entry.nodeSetUrl,
+                    message: `NodeSet ${entry.slug} at ${entry.nodeSetUrl} stopped sending data for ${Duration.format(policy.idleTimeout)}`,
+                  }),
+                policy.idleTimeout,
+              ),
+            )
+          }),
+        ).pipe(
+          Stream.mapError((error) =>
+            error._tag === "NodeSetTooLarge" ||
+            error._tag === "NodeSetFetchError"
+              ? error
+              : fetchError(entry, error),
+          ),
+          Stream.tapErrorCause((cause) =>
+            Effect.logError(
+              `HTTP request failed for ${entry.nodeSetUrl}`,
+              cause,
+            ),
+          ),
+          limitSize(entry),
+        )
+      }
+
+      // Header of a NodeSet, read without parsing or downloading the nodes
+      const fetchHeader = Effect.fn("NodeSetReader.fetchHeader")(function* (
+        entry: NodeSetCatalogEntry,
+      ) {
+        yield* Effect.annotateCurrentSpan({
+          slug: entry.slug,
+          url: entry.nodeSetUrl,
+        })
+        return yield* parseNodeSetStream(readNodeSetBytes(entry), entry).pipe(
+          Stream.filterMap((event) =>
+            event._tag === "Header" ? Option.some(event.header) : Option.none(),
+          ),
+          Stream.runHead,
+        )
+      })
+
+      return { readNodeSetBytes, fetchHeader } as const
+    }),
+    dependencies: [
+      NodeSetFetchPolicy.Default,
+      NodeHttpClient.layerUndici,
+      NodeFileSystem.layer,
+    ],
+  },
+) {}
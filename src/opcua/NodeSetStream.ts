@@ -0,0 +1,229 @@
+import { Data, Effect, Option, Stream } from "effect"
+import { SaxesParser } from "saxes"
+import {
+  ModelInfo,
+  NamespaceMetadata,
+  NodeSet,
+  NodeSetAlias,
+  NodeSetCatalogEntry,
+  ParsedUANode,
+} from "./types.js"
+import {
+  makeContext,
+  NODE_ELEMENTS,
+  parseNode,
+  readAliases,
+  readModels,
+  readNamespaces,
+  resolveLocalTypeNames,
+  type NodeSetContext,
+} from "./NodeSetParser.js"
+
+export class NodeSetParseError extends Data.TaggedError("NodeSetParseError")<{
+  readonly cause?: unknown
+  readonly message: string
+}> {}
+
+export interface NodeSetHeader {
+  readonly namespaces: ReadonlyArray<NamespaceMetadata>
+  readonly models: ReadonlyArray<ModelInfo>
+  readonly aliases: ReadonlyArray<NodeSetAlias>
+}
+
+// The header is emitted once, before the first node
+export type NodeSetStreamEvent =
+  | { readonly _tag: "Header"; readonly header: NodeSetHeader }
+  | { readonly _tag: "Node"; readonly node: ParsedUANode }
+
+// Top-level elements that make up the header
+const HEADER_ELEMENTS = new Set(["NamespaceUris", "Models", "Aliases"])
+const NODE_ELEMENT_NAMES = new Set<string>(NODE_ELEMENTS)
+
+interface ElementFrame {
+  readonly name: string
+  readonly attributes: Record<string, string>
+  readonly children: Record<string, unknown>
+  text: string
+}
+
+const localName = (name: string): string => name.slice(name.indexOf(":") + 1)
+
+// Builds the same object shape as the `fast-xml-parser` tree the NodeSet
+// parser reads: attributes as `@_Name`, text as `#text`, repeated children as
+// arrays and text-only elements as plain strings
+const elementValue = (frame: ElementFrame): unknown => {
+  const attributeNames = Object.keys(frame.attributes).filter(
+    (name) => name !== "xmlns" && !name.startsWith("xmlns:"),
+  )
+  const childNames = Object.keys(frame.children)
+  const text = frame.text.trim()
+
+  if (attributeNames.length === 0 && childNames.length === 0) {
+    return text
+  }
+
+  const value: Record<string, unknown> = {}
+  for (const name of attributeNames) {
+    value[`@_${localName(name)}`] = frame.attributes[name]
+  }
+  Object.assign(value, frame.children)
+  if (text !== "") {
+    value["#text"] = text
+  }
+  return value
+}
+
+const appendChild = (
+  children: Record<string, unknown>,
+  name: string,
+  value: unknown,
+) => {
+  const existing = children[name]
+  if (existing === undefined) {
+    children[name] = value
+  } else if (Array.isArray(existing)) {
+    existing.push(value)
+  } else {
+    children[name] = [existing, value]
+  }
+}
+
+// Incremental NodeSet reader. Only the top-level element currently being read
+// is kept in memory; `write` returns the events completed by the chunk.
+const makeReader = (entry: NodeSetCatalogEntry) => {
+  const parser = new SaxesParser()
+  const stack: ElementFrame[] = []
+  const header: Record<string, unknown> = {}
+  let context: NodeSetContext | undefined
+  let pending: NodeSetStreamEvent[] = []
+
+  const emitHeader = () => {
+    const models = readModels(header)
+    const { namespaces, lookup } = readNamespaces(header, entry, models)
+    const aliases = readAliases(header, lookup)
+    context = makeContext(lookup, aliases)
+    pending.push({ _tag: "Header", header: { namespaces, models, aliases } })
+    return context
+  }
+
+  const closeTopLevel = (name: string, value: unknown) => {
+    if (NODE_ELEMENT_NAMES.has(name)) {
+      const nodeContext = context ?? emitHeader()
+      pending.push({ _tag: "Node", node: parseNode(value, name, nodeContext) })
+    } else if (HEADER_ELEMENTS.has(name) && context === undefined) {
+      header[name] = value
+    }
+  }
+
+  parser.on("opentag", (tag) => {
+    stack.push({
+      name: localName(tag.name),
+      attributes: tag.attributes as Record<string, string>,
+      children: {},
+      text: "",
+    })
+  })
+  parser.on("text", (text) => {
+    const frame = stack[stack.length - 1]
+    if (frame && stack.length > 1) frame.text += text
+  })
+  parser.on("cdata", (cdata) => {
+    const frame = stack[stack.length - 1]
+    if (frame && stack.length > 1) frame.text += cdata
+  })
+  parser.on("closetag", () => {
+    const frame = stack.pop()!
+    // Depth 0 is the UANodeSet root, depth 1 its header and node elements
+    if (stack.length === 1) {
+      closeTopLevel(frame.name, elementValue(frame))
+    } else if (stack.length > 1) {
+      appendChild(
+        stack[stack.length - 1].children,
+        frame.name,
+        elementValue(frame),
+      )
+    }
+  })
+
+  const drain = (): ReadonlyArray<NodeSetStreamEvent> => {
+    const events = pending
+    pending = []
+    return events
+  }
+
+  return {
+    write: (chunk: string) => {
+      parser.write(chunk)
+      return drain()
+    },
+    end: () => {
+      parser.close()
+      if (context === undefined) emitHeader()
+      return drain()
+    },
+  } as const
+}
+
+const parseFailure = (entry: NodeSetCatalogEntry) => (cause: unknown) =>
+  new NodeSetParseError({
+    cause,
+    message: `Failed to parse NodeSet XML from ${entry.nodeSetUrl}: ${
+      cause instanceof Error ? cause.message : String(cause)
+    }`,
+  })
+
+// Parses a NodeSet2 XML byte stream, emitting the header and then each node
+// as soon as its element is closed
+export const parseNodeSetStream = <E, R>(
+  bytes: Stream.Stream<Uint8Array, E, R>,
+  entry: NodeSetCatalogEntry,
+): Stream.Stream<NodeSetStreamEvent, E | NodeSetParseError, R> =>
+  Stream.suspend(() => {
+    const reader = makeReader(entry)
+    return bytes.pipe(
+      Stream.decodeText(),
+      Stream.mapConcatEffect((chunk) =>
+        Effect.try({
+          try: () => reader.write(chunk),
+          catch: parseFailure(entry),
+        }),
+      ),
+      Stream.concat(
+        Stream.fromIterableEffect(
+          Effect.try({ try: () => reader.end(), catch: parseFailure(entry) }),
+        ),
+      ),
+    )
+  })
+
+export const streamNodeSetNodes = <E, R>(
+  bytes: Stream.Stream<Uint8Array, E, R>,
+  entry: NodeSetCatalogEntry,
+): Stream.Stream<ParsedUANode, E | NodeSetParseError, R> =>
+  parseNodeSetStream(bytes, entry).pipe(
+    Stream.filterMap((event) =>
+      event._tag === "Node" ? Option.some(event.node) : Option.none(),
+    ),
+  )
+
+// Collects a parsed stream into a NodeSet. Local type names can only be
+// resolved once every node has been read.
+export const collectNodeSet = <E, R>(
+  events: Stream.Stream<NodeSetStreamEvent, E, R>,
+): Effect.Effect<NodeSet, E, R> =>
+  Effect.gen(function* () {
+    let header: NodeSetHeader = { namespaces: [], models: [], aliases: [] }
+    const nodes: ParsedUANode[] = []
+
+    yield* Stream.runForEach(events, (event) =>
+      Effect.sync(() => {
+        if (event._tag === "Header") {
+          header = event.header
+        } else {
+          nodes.push(event.node)
+        }
+      }),
+    )
+
+    return new NodeSet({ ...header, nodes: resolveLocalTypeNames(nodes) }, true)
+  })
@@ -0,0 +1,176 @@
+import { Effect, Option } from "effect"
+import { NodeSetCatalog } from "./NodeSetCatalog.js"
+import { NodeSetLoader, NodeSetLoaderSource } from "./NodeSetLoader.js"
+import {
+  LOCKFILE_VERSION,
+  LockedNodeSet,
+  NodeSetLock,
+  NodeSetLockFile,
+  lockedNodeSet,
+} from "./NodeSetLock.js"
+import { ServerConfig } from "./ServerConfig.js"
+import {
+  NodeSetCatalogEntry,
+  NodeSetLockChange,
+  NodeSetLockUpdate,
+} from "./types.js"
+
+// Moves the lock file to the commit the configured ref points at now. `plan`
+// reports which NodeSets were added, changed or removed upstream, `apply`
+// also writes the lock
+export class NodeSetUpdater extends Effect.Service<NodeSetUpdater>()(
+  "NodeSetUpdater",
+  {
+    effect: Effect.gen(function* () {
+      const config = yield* ServerConfig
+      const catalog = yield* NodeSetCatalog
+      const lock = yield* NodeSetLock
+      const loader = yield* NodeSetLoader
+      const source = yield* NodeSetLoaderSource
+
+      // Version and publication date of the upstream file, from its header
+      const fetchModel = (entry: NodeSetCatalogEntry) =>
+        source.fetchHeader(entry).pipe(
+          Effect.map((header) =>
+            Option.flatMapNullable(header, ({ models }) => models[0]),
+          ),
+          Effect.catchAll((error) =>
+            Effect.as(
+              Effect.logWarning(
+                `Failed to read the header of NodeSet ${entry.slug}: ${error.message}`,
+              ),
+              Option.none(),
+            ),
+          ),
+        )
+
+      const plan = Effect.fn("NodeSetUpdater.plan")(function* () {
+        const locked = yield* lock.read()
+        const latest = yield* catalog.upstream()
+        const upstream = new Map(
+          latest.entries.map((entry) => [entry.slug, entry] as const),
+        )
+
+        const changes: NodeSetLockChange[] = []
+        const nodeSets: Record<string, LockedNodeSet> = {}
+        const current: Readonly<Record<string, LockedNodeSet>> = Option.match(
+          locked,
+          { onNone: () => ({}), onSome: (lock) => lock.nodeSets },
+        )
+
+        const slugs = new Set([
+          ...Object.keys(current),
+          ...latest.entries
+            .filter((entry) => entry.revision !== undefined)
+            .map((entry) => entry.slug),
+        ])
+        for (const slug of Array.from(slugs).sort()) {
+          const previous: LockedNodeSet | undefined = current[slug]
+          const entry = upstream.get(slug)
+          if (previous === undefined) {
+            // Locked without a version, `NodeSetLock.record` adds it from
+            // the header once the NodeSet is loaded. Reading the header of
+            // every new file here would fetch the whole repository
+            const next = lockedNodeSet(entry!.revision!, undefined)
+            nodeSets[slug] = next
+            changes.push(
+              new NodeSetLockChange({
+                slug,
+                change: "added",
+                path: next.path,
+                toBlobSha: next.blobSha,
+              }),
+            )
+            continue
+          }
+          if (entry?.revision === undefined) {
+            changes.push(
+              new NodeSetLockChange({
+                slug,
+                change: "removed",
+                path: previous.path,
+                fromBlobSha: previous.blobSha,
+                fromVersion: previous.version,
+                fromPublicationDate: previous.publicationDate,
+              }),
+            )
+            continue
+          }
+          if (
+            entry.revision.blobSha === previous.blobSha &&
+            entry.revision.path === previous.path
+          ) {
+            nodeSets[slug] = previous
+            continue
+          }
+
+          const model = yield* fetchModel(entry)
+          const next = lockedNodeSet(
+            entry.revision,
+            Option.getOrUndefined(model),
+          )
+          nodeSets[slug] = next
+          changes.push(
+            new NodeSetLockChange({
+              slug,
+              change: "updated",
+              path: next.path,
+              fromBlobSha: previous.blobSha,
+              toBlobSha: next.blobSha,
+              fromVersion: previous.version,
+              toVersion: next.version,
+              fromPublicationDate: previous.publicationDate,
+              toPublicationDate: next.publicationDate,
+            }),
+          )
+        }
+
+        const lockedCommit = Option.getOrUndefined(
+          Option.map(locked, ({ commit }) => commit),
+        )
+        return {
+          update: new NodeSetLockUpdate({
+            repository: config.githubRepo,
+            ref: config.githubRef,
+            lockedCommit,
+            latestCommit: latest.commit,
+            upToDate: lockedCommit === latest.commit && changes.length === 0,
+            applied: false,
+            changes,
+          }),
+          lock: new NodeSetLockFile({
+            lockfileVersion: LOCKFILE_VERSION,
+            repository: config.githubRepo,
+            ref: config.githubRef,
+            commit: latest.commit,
+            nodeSets,
+          }),
+        } as const
+      })
+
+      // Writes the planned lock. NodeSets are read at the new commit from
+      // the next load on; those already indexed are replaced on restart
+      const apply = Effect.fn("NodeSetUpdater.apply")(function* () {
+        const planned = yield* plan()
+        if (planned.update.upToDate) {
+          return planned.update
+        }
+
+        yield* lock.write(planned.lock)
+        yield* catalog.invalidate()
+        yield* loader.invalidateCache()
+
+        return new NodeSetLockUpdate({ ...planned.update, applied: true })
+      })
+
+      return { plan, apply } as const
+    }),
+    dependencies: [
+      ServerConfig.Default,
+      NodeSetCatalog.Default,
+      NodeSetLock.Default,
+      NodeSetLoader.Default,
+      NodeSetLoaderSource.Default,
+    ],
+  },
+) {}
@@ -0,0 +1,480 @@
+import { Effect } from "effect"
+import {
+  CORE_NAMESPACE_URI,
+  type DiagnosticSeverity,
+  NodeSetDiagnostic,
+  type ParsedUANode,
+  type Reference,
+} from "./types.js"
+import { NodeSetCatalog } from "./NodeSetCatalog.js"
+import { NodeSetLoader } from "./NodeSetLoader.js"
+import {
+  NodeSetDependencyCycle,
+  NodeSetRequiredModelIncompatible,
+  NodeSetRequiredModelMissing,
+  type LoadedNodeSet,
+} from "./NodeSetDependencies.js"
+import { ObjectTypeIds, ReferenceTypeIds } from "./StandardNodes.js"
+
+export const ValidationRules = {
+  DuplicateNodeId: "duplicate-node-id",
+  MissingReferenceTarget: "missing-reference-target",
+  UnknownNamespace: "unknown-namespace",
+  UnknownReferenceType: "unknown-reference-type",
+  UnknownDataType: "unknown-data-type",
+  MissingTypeDefinition: "missing-type-definition",
+  MissingModellingRule: "missing-modelling-rule",
+  BrowseNameNamespace: "browse-name-namespace",
+  MissingInverseName: "missing-inverse-name",
+  UndefinedAlias: "undefined-alias",
+  UnknownDefinitionType: "unknown-definition-type",
+  RequiredModel: "required-model",
+} as const
+
+const severityOrder: Record<DiagnosticSeverity, number> = {
+  error: 0,
+  warning: 1,
+  info: 2,
+}
+
+// References that make a child part of its parent's structure
+const aggregateReferenceTypes = new Set<string>([
+  ReferenceTypeIds.HasComponent,
+  ReferenceTypeIds.HasProperty,
+  ReferenceTypeIds.HasOrderedComponent,
+  ReferenceTypeIds.HasAddIn,
+])
+
+const referenceTypeKey = (ref: Reference): string =>
+  ref.referenceTypeId?.toString() ?? ref.referenceType
+
+const isReferenceOfType = (ref: Reference, typeId: string, name: string) =>
+  ref.referenceTypeId
+    ? ref.referenceTypeId.toString() === typeId
+    : ref.referenceType === name
+
+const isAggregate = (ref: Reference) =>
+  ref.referenceTypeId
+    ? aggregateReferenceTypes.has(ref.referenceTypeId.toString())
+    : [
+        "HasComponent",
+        "HasProperty",
+        "HasOrderedComponent",
+        "HasAddIn",
+      ].includes(ref.referenceType)
+
+// Checks one NodeSet against itself and the NodeSets it depends on. Nodes of
+// the dependencies resolve references but are not validated themselves.
+export const validateNodeSet = (
+  target: LoadedNodeSet,
+  dependencies: ReadonlyArray<LoadedNodeSet>,
+): ReadonlyArray<NodeSetDiagnostic> => {
+  const diagnostics: NodeSetDiagnostic[] = []
+  const report = (
+    severity: DiagnosticSeverity,
+    rule: string,
+    message: string,
+    nodeId?: string,
+  ) =>
+    diagnostics.push(
+      new NodeSetDiagnostic({ severity, rule, message, nodeId }, true),
+    )
+
+  const nodes = target.nodeSet.nodes
+  const own = new Map<string, ParsedUANode>()
+  const external = new Map<
+    string,
+    { readonly slug: string; readonly node: ParsedUANode }
+  >()
+  for (const dependency of dependencies) {
+    for (const node of dependency.nodeSet.nodes) {
+      external.set(node.nodeId.toString(), {
+        slug: dependency.entry.slug,
+        node,
+      })
+    }
+  }
+
+  // Duplicate NodeIds, within the NodeSet and against its dependencies
+  for (const node of nodes) {
+    const nodeId = node.nodeId.toString()
+    if (own.has(nodeId)) {
+      report(
+        "error",
+        ValidationRules.DuplicateNodeId,
+        `NodeId ${nodeId} is defined more than once (${own.get(nodeId)!.browseName}, ${node.browseName})`,
+        nodeId,
+      )
+      continue
+    }
+    own.set(nodeId, node)
+
+    const definedBy = external.get(nodeId)
+    if (definedBy) {
+      report(
+        "warning",
+        ValidationRules.DuplicateNodeId,
+        `NodeId ${nodeId} is also defined by NodeSet ${definedBy.slug}`,
+        nodeId,
+      )
+    }
+  }
+
+  const known = (nodeId: string) => own.has(nodeId) || external.has(nodeId)
+  const knownNode = (nodeId: string): ParsedUANode | undefined =>
+    own.get(nodeId) ?? external.get(nodeId)?.node
+
+  // Targets in namespaces no loaded NodeSet provides are reported once per namespace
+  const loadedNamespaces = new Set<string>(
+    [...own.values(), ...[...external.values()].map(({ node }) => node)].map(
+      (node) => node.namespaceUri ?? CORE_NAMESPACE_URI,
+    ),
+  )
+  const unknownNamespaces = new Map<string, number>()
+  const checkKnown = (
+    nodeId: string,
+    namespaceUri: string | undefined,
+    onMissing: () => void,
+  ) => {
+    if (known(nodeId)) return
+    const namespace = namespaceUri ?? CORE_NAMESPACE_URI
+    if (!loadedNamespaces.has(namespace)) {
+      unknownNamespaces.set(
+        namespace,
+        (unknownNamespaces.get(namespace) ?? 0) + 1,
+      )
+      return
+    }
+    onMissing()
+  }
+
+  // Supertypes through HasSubtype, recorded from either side
+  const supertypeOf = new Map<string, string>()
+  for (const node of [
+    ...own.values(),
+    ...[...external.values()].map(({ node }) => node),
+  ]) {
+    for (const ref of node.references) {
+      if (!isReferenceOfType(ref, ReferenceTypeIds.HasSubtype, "HasSubtype")) {
+        continue
+      }
+      if (ref.isForward) {
+        supertypeOf.set(ref.targetNodeId.toString(), node.nodeId.toString())
+      } else {
+        supertypeOf.set(node.nodeId.toString(), ref.targetNodeId.toString())
+      }
+    }
+  }
+  const isSubtypeOf = (typeId: string, ancestorId: string) => {
+    const seen = new Set<string>()
+    for (
+      let current: string | undefined = typeId;
+      current !== undefined && !seen.has(current);
+      current = supertypeOf.get(current)
+    ) {
+      if (current === ancestorId) return true
+      seen.add(current)
+    }
+    return false
+  }
+
+  // States and transitions of state machine types and the
+  // DefaultInstanceBrowseName Property carry no ModellingRule by definition
+  const exemptFromModellingRule = (node: ParsedUANode) => {
+    if (node.browseName === "DefaultInstanceBrowseName") return true
+    const typeDefinition = node.references.find(
+      (ref) =>
+        ref.isForward &&
+        isReferenceOfType(
+          ref,
+          ReferenceTypeIds.HasTypeDefinition,
+          "HasTypeDefinition",
+        ),
+    )?.targetNodeId
+    return (
+      typeDefinition !== undefined &&
+      (isSubtypeOf(typeDefinition.toString(), ObjectTypeIds.StateType) ||
+        isSubtypeOf(typeDefinition.toString(), ObjectTypeIds.TransitionType))
+    )
+  }
+
+  // Parents through aggregating references, recorded from either side
+  const parentsOf = new Map<string, string[]>()
+  const addParent = (child: string, parent: string) =>
+    parentsOf.set(child, [...(parentsOf.get(child) ?? []), parent])
+  for (const node of own.values()) {
+    for (const ref of node.references) {
+      if (!isAggregate(ref)) continue
+      if (ref.isForward) {
+        addParent(ref.targetNodeId.toString(), node.nodeId.toString())
+      } else {
+        addParent(node.nodeId.toString(), ref.targetNodeId.toString())
+      }
+    }
+  }
+
+  // InstanceDeclarations are instances aggregated by a type, directly or
+  // through other InstanceDeclarations
+  const declarationCache = new Map<string, boolean>()
+  const isInstanceDeclaration = (nodeId: string): boolean => {
+    const cached = declarationCache.get(nodeId)
+    if (cached !== undefined) return cached
+    declarationCache.set(nodeId, false)
+
+    const node = own.get(nodeId)
+    const result =
+      node !== undefined &&
+      (node.nodeClass === "Object" ||
+        node.nodeClass === "Variable" ||
+        node.nodeClass === "Method") &&
+      (parentsOf.get(nodeId) ?? []).some((parentId) => {
+        const parent = knownNode(parentId)
+        return (
+          parent?.nodeClass === "ObjectType" ||
+          parent?.nodeClass === "VariableType" ||
+          isInstanceDeclaration(parentId)
+        )
+      })
+    declarationCache.set(nodeId, result)
+    return result
+  }
+
+  for (const node of own.values()) {
+    const nodeId = node.nodeId.toString()
+
+    for (const ref of node.references) {
+      const targetId = ref.targetNodeId.toString()
+
+      if (ref.referenceTypeId === undefined) {
+        report(
+          "error",
+          ValidationRules.UndefinedAlias,
+          `Reference type "${ref.referenceType}" is neither a defined alias nor a NodeId`,
+          nodeId,
+        )
+      } else {
+        checkKnown(
+          ref.referenceTypeId.toString(),
+          ref.referenceTypeId.namespaceUri,
+          () =>
+            report(
+              "error",
+              ValidationRules.UnknownReferenceType,
+              `Reference type ${ref.referenceTypeId!.toString()} is not defined`,
+              nodeId,
+            ),
+        )
+      }
+
+      checkKnown(targetId, ref.targetNodeId.namespaceUri, () =>
+        report(
+          "error",
+          ValidationRules.MissingReferenceTarget,
+          `${ref.isForward ? "" : "Inverse "}${ref.referenceType} reference targets missing node ${targetId}`,
+          nodeId,
+        ),
+      )
+    }
+
+    if (node.dataType !== undefined) {
+      if (node.dataTypeId === undefined) {
+        report(
+          "error",
+          ValidationRules.UndefinedAlias,
+          `DataType "${node.dataType}" is neither a defined alias nor a NodeId`,
+          nodeId,
+        )
+      } else {
+        checkKnown(
+          node.dataTypeId.toString(),
+          node.dataTypeId.namespaceUri,
+          () =>
+            report(
+              "error",
+              ValidationRules.UnknownDataType,
+              `DataType ${node.dataTypeId!.toString()} is not defined`,
+              nodeId,
+            ),
+        )
+      }
+    }
+
+    for (const field of node.definition?.fields ?? []) {
+      if (field.dataType === undefined) continue
+      if (field.dataTypeId === undefined) {
+        report(
+          "error",
+          ValidationRules.UndefinedAlias,
+          `Field ${field.name} uses DataType "${field.dataType}", which is neither a defined alias nor a NodeId`,
+          nodeId,
+        )
+        continue
+      }
+      checkKnown(
+        field.dataTypeId.toString(),
+        field.dataTypeId.namespaceUri,
+        () =>
+          report(
+            "error",
+            ValidationRules.UnknownDefinitionType,
+            `Field ${field.name} uses unknown DataType ${field.dataTypeId!.toString()}`,
+            nodeId,
+          ),
+      )
+    }
+
+    const isInstance =
+      node.nodeClass === "Object" || node.nodeClass === "Variable"
+    if (
+      isInstance &&
+      !node.references.some(
+        (ref) =>
+          ref.isForward &&
+          isReferenceOfType(
+            ref,
+            ReferenceTypeIds.HasTypeDefinition,
+            "HasTypeDefinition",
+          ),
+      )
+    ) {
+      report(
+        "error",
+        ValidationRules.MissingTypeDefinition,
+        `${node.nodeClass} ${node.browseName} has no HasTypeDefinition reference`,
+        nodeId,
+      )
+    }
+
+    if (
+      isInstanceDeclaration(nodeId) &&
+      !exemptFromModellingRule(node) &&
+      !node.references.some(
+        (ref) =>
+          ref.isForward &&
+          isReferenceOfType(
+            ref,
+            ReferenceTypeIds.HasModellingRule,
+            "HasModellingRule",
+          ),
+      )
+    ) {
+      report(
+        "warning",
+        ValidationRules.MissingModellingRule,
+        `InstanceDeclaration ${node.browseName} has no ModellingRule`,
+        nodeId,
+      )
+    }
+
+    const browseNameNamespace =
+      node.browseNameNamespaceUri ?? CORE_NAMESPACE_URI
+    const nodeIdNamespace = node.nodeId.namespaceUri ?? CORE_NAMESPACE_URI
+    if (browseNameNamespace !== nodeIdNamespace) {
+      // Instances take the BrowseNames of InstanceDeclarations, which may come
+      // from another namespace; only types are expected to match
+      report(
+        isInstance || node.nodeClass === "Method" ? "info" : "warning",
+        ValidationRules.BrowseNameNamespace,
+        `BrowseName ${node.browseName} is in namespace ${browseNameNamespace} but the NodeId is in ${nodeIdNamespace}`,
+        nodeId,
+      )
+    }
+
+    if (
+      node.nodeClass === "ReferenceType" &&
+      node.symmetric !== true &&
+      node.inverseName === undefined
+    ) {
+      report(
+        node.isAbstract ? "warning" : "error",
+        ValidationRules.MissingInverseName,
+        `Non-symmetric ReferenceType ${node.browseName} has no InverseName`,
+        nodeId,
+      )
+    }
+  }
+
+  for (const [namespace, count] of unknownNamespaces) {
+    report(
+      "warning",
+      ValidationRules.UnknownNamespace,
+      `${count} reference(s) point into namespace ${namespace}, which no loaded NodeSet provides`,
+    )
+  }
+
+  return diagnostics.sort(
+    (a, b) =>
+      severityOrder[a.severity] - severityOrder[b.severity] ||
+      a.rule.localeCompare(b.rule),
+  )
+}
+
+export class NodeSetValidator extends Effect.Service<NodeSetValidator>()(
+  "NodeSetValidator",
+  {
+    effect: Effect.gen(function* () {
+      const catalog = yield* NodeSetCatalog
+      const loader = yield* NodeSetLoader
+
+      // Loads the NodeSet with its dependencies and validates it. Dependency
+      // problems are reported as diagnostics; the NodeSet is then checked on its own.
+      const validateSlug = Effect.fn("NodeSetValidator.validateSlug")(
+        function* (slug: string) {
+          const key = slug.trim().toLowerCase()
+          const { loaded, problems } = yield* loader
+            .loadWithDependencies([key])
+            .pipe(
+              Effect.map((loaded) => ({
+                loaded,
+                problems: [] as ReadonlyArray<NodeSetDiagnostic>,
+              })),
+              Effect.catchAll((error) =>
+                error instanceof NodeSetRequiredModelMissing ||
+                error instanceof NodeSetRequiredModelIncompatible ||
+                error instanceof NodeSetDependencyCycle
+                  ? loadAlone(key, error.message)
+                  : Effect.fail(error),
+              ),
+            )
+
+          const target = loaded.find(
+            (candidate) => candidate.entry.slug.toLowerCase() === key,
+          )!
+          const dependencies = loaded.filter(
+            (candidate) => candidate !== target,
+          )
+          const diagnostics = [
+            ...problems,
+            ...validateNodeSet(target, dependencies),
+          ]
+
+          yield* Effect.annotateCurrentSpan({
+            slug: target.entry.slug,
+            diagnosticCount: diagnostics.length,
+          })
+
+          return { ...target, diagnostics }
+        },
+      )
+
+      const loadAlone = Effect.fn("NodeSetValidator.loadAlone")(function* (
+        slug: string,
+        message: string,
+      ) {
+        const entry = yield* catalog.resolve(slug)
+        const nodeSet = yield* loader.loadNodeSet(entry)
+        const loaded: ReadonlyArray<LoadedNodeSet> = [{ entry, nodeSet }]
+        const problems: ReadonlyArray<NodeSetDiagnostic> = [
+          new NodeSetDiagnostic(
+            { severity: "error", rule: ValidationRules.RequiredModel, message },
+            true,
+          ),
+        ]
+        return { loaded, problems }
+      })
+
+      return { validate: validateNodeSet, validateSlug } as const
+    }),
+    dependencies: [NodeSetCatalog.Default, NodeSetLoader.Default],
+  },
+) {}
@@ -0,0 +1,427 @@
+import { Option } from "effect"
+import {
+  CORE_NAMESPACE_URI,
+  DataTypeDefinition,
+  DataTypeField,
+  LocalizedText,
+  ModelInfo,
+  NodeClass,
+  NodeId,
+  NodeSet,
+  ParsedUANode,
+  Reference,
+  type UAValue,
+} from "./types.js"
+
+const UANODESET_NAMESPACE = "http://opcfoundation.org/UA/2011/03/UANodeSet.xsd"
+const TYPES_NAMESPACE = "http://opcfoundation.org/UA/2008/02/Types.xsd"
+
+const identifierPrefixes = {
+  Numeric: "i",
+  String: "s",
+  Guid: "g",
+  Opaque: "b",
+} as const
+
+const elementNames: Record<NodeClass, string> = {
+  Object: "UAObject",
+  Variable: "UAVariable",
+  Method: "UAMethod",
+  ObjectType: "UAObjectType",
+  VariableType: "UAVariableType",
+  ReferenceType: "UAReferenceType",
+  DataType: "UADataType",
+  View: "UAView",
+}
+
+export interface NodeSetWriteOptions {
+  // Only write the aliases the written nodes use, for partial exports
+  readonly pruneAliases?: boolean
+}
+
+// Built-in variant types other than ExtensionObject whose XML encoding has
+// child elements; the parser keeps them as structures named after the type
+const structuredVariantTypes = new Set([
+  "Matrix",
+  "Variant",
+  "DataValue",
+  "DiagnosticInfo",
+])
+
+const escapeText = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+
+const escapeAttribute = (text: string): string =>
+  escapeText(text).replace(/"/g, "&quot;")
+
+const attributes = (
+  values: ReadonlyArray<
+    readonly [string, string | number | boolean | undefined]
+  >,
+): string =>
+  values
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ` ${name}="${escapeAttribute(String(value))}"`)
+    .join("")
+
+const element = (
+  name: string,
+  attrs: string,
+  content: string,
+  indent: string,
+): string =>
+  content === ""
+    ? `${indent}<${name}${attrs} />\n`
+    : `${indent}<${name}${attrs}>${content}</${name}>\n`
+
+// File-local namespace table, starting with the NodeSet's own namespaces.
+// Names in other namespaces extend it; NodeIds in other namespaces keep the
+// `nsu=` form they were parsed from instead
+const makeNamespaceTable = (nodeSet: NodeSet) => {
+  const uris = nodeSet.namespaces
+    .map((namespace) => namespace.uri)
+    .filter((uri) => uri !== CORE_NAMESPACE_URI)
+
+  const lookup = (uri: string): number | undefined => {
+    if (uri === CORE_NAMESPACE_URI) return 0
+    const index = uris.indexOf(uri)
+    return index >= 0 ? index + 1 : undefined
+  }
+
+  const indexOf = (uri: string): number => {
+    const index = lookup(uri)
+    if (index !== undefined) return index
+    uris.push(uri)
+    return uris.length
+  }
+
+  return { uris: uris as ReadonlyArray<string>, lookup, indexOf }
+}
+
+// Serializes a NodeSet to NodeSet2 XML. Parsing the output yields the same
+// model: NodeIds are written against the file's own namespace table and type
+// references keep the alias they were parsed from.
+export const writeNodeSetXml = (
+  nodeSet: NodeSet,
+  options: NodeSetWriteOptions = {},
+): string => {
+  const namespaces = makeNamespaceTable(nodeSet)
+  const usedAliases = new Set<string>()
+  const aliasesByNodeId = new Map<string, ReadonlyArray<string>>()
+  for (const { alias, nodeId } of nodeSet.aliases) {
+    const key = nodeId.toString()
+    aliasesByNodeId.set(key, [...(aliasesByNodeId.get(key) ?? []), alias])
+  }
+
+  const nodeIdText = (nodeId: NodeId): string => {
+    const id = `${identifierPrefixes[nodeId.identifierType]}=${nodeId.identifier}`
+    if (nodeId.namespaceUri === undefined) {
+      return nodeId.namespaceIndex === 0
+        ? id
+        : `ns=${nodeId.namespaceIndex};${id}`
+    }
+    const index = namespaces.lookup(nodeId.namespaceUri)
+    if (index === undefined) return `nsu=${nodeId.namespaceUri};${id}`
+    return index === 0 ? id : `ns=${index};${id}`
+  }
+
+  const qualifiedNameText = (name: string, namespaceUri?: string): string => {
+    const index = namespaceUri ? namespaces.indexOf(namespaceUri) : 0
+    // A bare name that looks qualified needs the explicit core prefix
+    return index === 0 && !/^\d+:/.test(name) ? name : `${index}:${name}`
+  }
+
+  // ReferenceType and DataType attributes: the alias the name came from, any
+  // alias of the node, or the NodeId. Undefined aliases are written verbatim.
+  const typeReferenceText = (name: string, nodeId: NodeId | undefined) => {
+    if (!nodeId) return name
+    const aliases = aliasesByNodeId.get(nodeId.toString()) ?? []
+    const alias = aliases.includes(name) ? name : aliases[0]
+    if (alias !== undefined) {
+      usedAliases.add(alias)
+      return alias
+    }
+    return nodeIdText(nodeId)
+  }
+
+  const localizedText = (
+    name: string,
+    text: LocalizedText,
+    indent: string,
+  ): string =>
+    element(
+      name,
+      attributes([["Locale", text.locale]]),
+      escapeText(text.text),
+      indent,
+    )
+
+  const uaxElement = (name: string, content: string): string =>
+    content === "" ? `<uax:${name} />` : `<uax:${name}>${content}</uax:${name}>`
+
+  // Content of the `name` element holding the value. Structures are wrapped in
+  // an ExtensionObject envelope only when written as an ExtensionObject; as
+  // structure fields or typed array items their fields are written directly
+  const valueContent = (name: string, value: UAValue): string => {
+    switch (value._tag) {
+      case "Scalar":
+        switch (value.dataType) {
+          case "Guid":
+            return uaxElement("String", escapeText(value.value))
+          case "StatusCode":
+            return uaxElement("Code", escapeText(value.value))
+          default:
+            return escapeText(value.value)
+        }
+      case "NodeId":
+        return uaxElement("Identifier", escapeText(nodeIdText(value.nodeId)))
+      case "LocalizedText":
+        return (
+          (value.locale !== undefined
+            ? uaxElement("Locale", escapeText(value.locale))
+            : "") + uaxElement("Text", escapeText(value.text))
+        )
+      case "QualifiedName": {
+        const index = value.namespaceUri
+          ? namespaces.indexOf(value.namespaceUri)
+          : 0
+        return (
+          (index !== 0 ? uaxElement("NamespaceIndex", String(index)) : "") +
+          uaxElement("Name", escapeText(value.name))
+        )
+      }
+      case "Array":
+        return value.items
+          .map((item) => variantElement(value.dataType, item))
+          .join("")
+      case "Structure": {
+        const fields = value.fields
+          .map((field) => variantElement(field.name, field.value))
+          .join("")
+        if (name !== "ExtensionObject") return fields
+        const typeId = value.typeId
+          ? uaxElement(
+              "TypeId",
+              uaxElement("Identifier", escapeText(nodeIdText(value.typeId))),
+            )
+          : ""
+        const body = value.typeName
+          ? uaxElement("Body", uaxElement(value.typeName, fields))
+          : ""
+        return typeId + body
+      }
+    }
+  }
+
+  const variantElement = (name: string, value: UAValue): string =>
+    uaxElement(name, valueContent(name, value))
+
+  // `<Value>` child element, named after the variant's built-in type
+  const valueElement = (value: UAValue): string => {
+    switch (value._tag) {
+      case "Scalar":
+      case "NodeId":
+        return variantElement(value.dataType, value)
+      case "LocalizedText":
+      case "QualifiedName":
+        return variantElement(value._tag, value)
+      case "Array":
+        return variantElement(`ListOf${value.dataType}`, value)
+      case "Structure":
+        return variantElement(
+          value.typeId === undefined &&
+            value.typeName !== undefined &&
+            structuredVariantTypes.has(value.typeName)
+            ? value.typeName
+            : "ExtensionObject",
+          value,
+        )
+    }
+  }
+
+  const definitionField = (field: DataTypeField): string => {
+    const children = [
+      field.displayName &&
+        localizedText("DisplayName", field.displayName, "        "),
+      field.description &&
+        localizedText("Description", field.description, "        "),
+    ]
+      .filter(Boolean)
+      .join("")
+    return element(
+      "Field",
+      attributes([
+        ["Name", field.name],
+        ["SymbolicName", field.symbolicName],
+        [
+          "DataType",
+          field.dataType !== undefined
+            ? typeReferenceText(field.dataType, field.dataTypeId)
+            : undefined,
+        ],
+        ["ValueRank", field.valueRank],
+        ["ArrayDimensions", field.arrayDimensions?.join(",")],
+        ["MaxStringLength", field.maxStringLength],
+        ["IsOptional", field.isOptional],
+        ["AllowSubTypes", field.allowSubTypes],
+        ["Value", field.value],
+      ]),
+      children && `\n${children}      `,
+      "      ",
+    )
+  }
+
+  // Enumeration and optional-field kinds are implied by the fields and the
+  // supertype, so only unions and OptionSets are flagged explicitly
+  const definitionElement = (definition: DataTypeDefinition): string =>
+    element(
+      "Definition",
+      attributes([
+        ["Name", definition.name],
+        ["SymbolicName", definition.symbolicName],
+        ["IsUnion", definition.kind === "Union" ? true : undefined],
+        ["IsOptionSet", definition.kind === "OptionSet" ? true : undefined],
+      ]),
+      definition.fields.length > 0
+        ? `\n${definition.fields.map(definitionField).join("")}    `
+        : "",
+      "    ",
+    )
+
+  const referenceElement = (ref: Reference): string =>
+    element(
+      "Reference",
+      attributes([
+        [
+          "ReferenceType",
+          typeReferenceText(ref.referenceType, ref.referenceTypeId),
+        ],
+        ["IsForward", ref.isForward ? undefined : false],
+      ]),
+      escapeText(nodeIdText(ref.targetNodeId)),
+      "      ",
+    )
+
+  const nodeElement = (node: ParsedUANode): string => {
+    const children = [
+      localizedText("DisplayName", node.displayName, "    "),
+      Option.match(node.description, {
+        onNone: () => "",
+        onSome: (description) =>
+          localizedText("Description", description, "    "),
+      }),
+      node.references.length > 0
+        ? `    <References>\n${node.references.map(referenceElement).join("")}    </References>\n`
+        : "",
+      node.value ? `    <Value>${valueElement(node.value)}</Value>\n` : "",
+      node.inverseName
+        ? localizedText("InverseName", node.inverseName, "    ")
+        : "",
+      node.definition ? definitionElement(node.definition) : "",
+    ].join("")
+
+    return element(
+      elementNames[node.nodeClass],
+      attributes([
+        ["NodeId", nodeIdText(node.nodeId)],
+        [
+          "BrowseName",
+          qualifiedNameText(node.browseName, node.browseNameNamespaceUri),
+        ],
+        ["SymbolicName", node.symbolicName],
+        [
+          "ParentNodeId",
+          node.parentNodeId ? nodeIdText(node.parentNodeId) : undefined,
+        ],
+        [
+          "DataType",
+          node.dataType !== undefined
+            ? typeReferenceText(node.dataType, node.dataTypeId)
+            : undefined,
+        ],
+        ["ValueRank", node.valueRank],
+        ["ArrayDimensions", node.arrayDimensions?.join(",")],
+        ["AccessLevel", node.accessLevel],
+        ["UserAccessLevel", node.userAccessLevel],
+        ["MinimumSamplingInterval", node.minimumSamplingInterval],
+        ["Historizing", node.historizing],
+        ["EventNotifier", node.eventNotifier],
+        [
+          "MethodDeclarationId",
+          node.methodDeclarationId
+            ? nodeIdText(node.methodDeclarationId)
+            : undefined,
+        ],
+        ["IsAbstract", node.isAbstract],
+        ["Symmetric", node.symmetric],
+        ["ReleaseStatus", node.releaseStatus],
+      ]),
+      `\n${children}  `,
+      "  ",
+    )
+  }
+
+  const modelElement = (model: ModelInfo): string =>
+    element(
+      "Model",
+      attributes([
+        ["ModelUri", model.modelUri],
+        ["Version", model.version],
+        ["PublicationDate", model.publicationDate],
+      ]),
+      model.requiredModels.length > 0
+        ? `\n${model.requiredModels
+            .map((required) =>
+              element(
+                "RequiredModel",
+                attributes([
+                  ["ModelUri", required.modelUri],
+                  ["Version", required.version],
+                  ["PublicationDate", required.publicationDate],
+                ]),
+                "",
+                "      ",
+              ),
+            )
+            .join("")}    `
+        : "",
+      "    ",
+    )
+
+  // Nodes are written first so the namespace table and the used aliases are
+  // complete when the header is assembled
+  const nodes = nodeSet.nodes.map(nodeElement).join("")
+  const aliases = nodeSet.aliases.filter(
+    ({ alias }) => !options.pruneAliases || usedAliases.has(alias),
+  )
+  const aliasElements = aliases
+    .map(({ alias, nodeId }) =>
+      element(
+        "Alias",
+        attributes([["Alias", alias]]),
+        escapeText(nodeIdText(nodeId)),
+        "    ",
+      ),
+    )
+    .join("")
+
+  const header = [
+    namespaces.uris.length > 0
+      ? `  <NamespaceUris>\n${namespaces.uris
+          .map((uri) => `    <Uri>${escapeText(uri)}</Uri>\n`)
+          .join("")}  </NamespaceUris>\n`
+      : "",
+    nodeSet.models.length > 0
+      ? `  <Models>\n${nodeSet.models.map(modelElement).join("")}  </Models>\n`
+      : "",
+    aliases.length > 0 ? `  <Aliases>\n${aliasElements}  </Aliases>\n` : "",
+  ].join("")
+
+  return (
+    `<?xml version="1.0" encoding="utf-8"?>\n` +
+    `<UANodeSet xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:uax="${TYPES_NAMESPACE}" xmlns="${UANODESET_NAMESPACE}">\n` +
+    header +
+    nodes +
+    `</UANodeSet>\n`
+  )
+}
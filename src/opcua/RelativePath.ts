@@ -0,0 +1,157 @@
+import { Data, Either } from "effect"
+
+// Text format of RelativePaths (Part 4, A.2):
+//   /2:Name         follow HierarchicalReferences (and subtypes) forward
+//   .Name           follow Aggregates (and subtypes) forward
+//   <#!RefType>Name follow RefType; `#` excludes subtypes, `!` goes inverse
+// Reserved characters in names are escaped with `&`. Unlike the standard, a
+// BrowseName directly after `/` or `.` may start with an unescaped `<` so that
+// placeholder names such as `/<Robot>` or `/2:<Robot>` can be written as shown
+// in the specs.
+
+export class RelativePathParseError extends Data.TaggedError(
+  "RelativePathParseError",
+)<{
+  readonly message: string
+  readonly offset: number
+}> {}
+
+export interface RelativePathName {
+  readonly namespaceIndex: number | undefined // Undefined matches any namespace
+  readonly name: string
+}
+
+export interface RelativePathElement {
+  readonly referenceType: RelativePathName
+  readonly isInverse: boolean
+  readonly includeSubtypes: boolean
+  readonly targetName: RelativePathName // Empty name matches every target
+  readonly text: string // Source text of the element
+}
+
+const RESERVED = new Set(["/", ".", "<", ">", ":", "#", "!", "&"])
+
+const HIERARCHICAL: RelativePathName = {
+  namespaceIndex: 0,
+  name: "HierarchicalReferences",
+}
+const AGGREGATES: RelativePathName = { namespaceIndex: 0, name: "Aggregates" }
+
+const parseError = (message: string, offset: number) =>
+  new RelativePathParseError({
+    message: `Invalid RelativePath at offset ${offset}: ${message}`,
+    offset,
+  })
+
+const readElements = (text: string): ReadonlyArray<RelativePathElement> => {
+  const elements: RelativePathElement[] = []
+  let offset = 0
+
+  // Reads a qualified name up to one of the terminators. A leading digit run
+  // followed by `:` is the namespace index
+  const readName = (
+    terminators: ReadonlySet<string>,
+    allowLeadingAngle: boolean,
+  ): RelativePathName => {
+    let name = ""
+    let namespaceIndex: number | undefined
+    let start = offset
+    while (offset < text.length) {
+      const char = text[offset]
+      if (char === "&") {
+        const escaped = text[offset + 1]
+        if (escaped === undefined || !RESERVED.has(escaped)) {
+          throw parseError(
+            "`&` must be followed by a reserved character",
+            offset,
+          )
+        }
+        name += escaped
+        offset += 2
+        continue
+      }
+      if (char === "<" && allowLeadingAngle && offset === start) {
+        const close = text.indexOf(">", offset)
+        if (close < 0) throw parseError("missing `>`", offset)
+        name += text.slice(offset, close + 1)
+        offset = close + 1
+        continue
+      }
+      if (terminators.has(char)) break
+      if (char === ":" && namespaceIndex === undefined && /^\d+$/.test(name)) {
+        namespaceIndex = Number(name)
+        name = ""
+        offset++
+        start = offset
+        continue
+      }
+      name += char
+      offset++
+    }
+    return { namespaceIndex, name }
+  }
+
+  const targetTerminators = new Set(["/", ".", "<"])
+  const referenceTerminators = new Set([">"])
+
+  while (offset < text.length) {
+    const start = offset
+    const prefix = text[offset]
+    let referenceType = HIERARCHICAL
+    let isInverse = false
+    let includeSubtypes = true
+    let allowLeadingAngle = true
+
+    if (prefix === "/" || prefix === ".") {
+      referenceType = prefix === "/" ? HIERARCHICAL : AGGREGATES
+      offset++
+    } else if (prefix === "<") {
+      offset++
+      while (text[offset] === "#" || text[offset] === "!") {
+        if (text[offset] === "#") includeSubtypes = false
+        else isInverse = true
+        offset++
+      }
+      referenceType = readName(referenceTerminators, false)
+      if (text[offset] !== ">") throw parseError("missing `>`", offset)
+      if (referenceType.name === "") {
+        throw parseError("empty ReferenceType name", offset)
+      }
+      offset++
+      allowLeadingAngle = false
+    }
+    // Without a leading `/`, `.` or `<` the first element is a hierarchical step
+
+    const targetName = readName(targetTerminators, allowLeadingAngle)
+    if (targetName.name === "" && offset < text.length) {
+      throw parseError("only the last element may have an empty name", offset)
+    }
+    elements.push({
+      referenceType,
+      isInverse,
+      includeSubtypes,
+      targetName,
+      text: text.slice(start, offset),
+    })
+  }
+
+  return elements
+}
+
+export const parseRelativePath = (
+  text: string,
+): Either.Either<ReadonlyArray<RelativePathElement>, RelativePathParseError> =>
+  Either.try({
+    try: () => readElements(text),
+    catch: (error) =>
+      error instanceof RelativePathParseError
+        ? error
+        : parseError(String(error), 0),
+  })
+
+// Formats a BrowseName as a RelativePath target name, e.g. `2:Motor`
+export const formatRelativePathName = (
+  namespaceIndex: number,
+  name: string,
+): string =>
+  `${namespaceIndex}:${Array.from(name, (char) => (RESERVED.has(char) ? `&${char}` : char)).join("")}`
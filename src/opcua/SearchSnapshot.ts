@@ -0,0 +1,168 @@
+import { Effect, Option, Schema } from "effect"
+import { KeyValueStore } from "@effect/platform"
+import { createHash } from "node:crypto"
+import { NodeSetCatalog } from "./NodeSetCatalog.js"
+import { NodeSetLoader } from "./NodeSetLoader.js"
+import { NamespaceTable } from "./NamespaceTable.js"
+import { NodeSearchIndex, NodeSearchIndexSnapshot } from "./NodeSearchIndex.js"
+import { PersistentStore } from "./ServerConfig.js"
+
+// Bump whenever the snapshot shape, the tokenizer or the document text changes
+const SNAPSHOT_VERSION = "v1"
+
+class SnapshotManifest extends Schema.Class<SnapshotManifest>(
+  "SnapshotManifest",
+)({
+  // Digest of the sources with their locations and content versions
+  key: Schema.String,
+  sources: Schema.Array(Schema.String), // Slugs in load order
+  namespaces: Schema.Array(Schema.String), // Namespace table at snapshot time
+}) {}
+
+const digest = (parts: ReadonlyArray<string>) =>
+  createHash("sha256").update(parts.join("\n")).digest("base64url")
+
+// Snapshots are stored per set of requested slugs, e.g. the catalog defaults
+const snapshotKey = (slugs: ReadonlyArray<string>) =>
+  `search-snapshots/${SNAPSHOT_VERSION}/${digest(
+    Array.from(new Set(slugs.map((slug) => slug.trim().toLowerCase()))).sort(),
+  ).slice(0, 22)}`
+
+// Persisted graph and search index of the NodeSets loaded at startup, so a
+// restart skips loading and re-indexing them. A snapshot is only used while
+// the locations and persisted contents of all its NodeSets are unchanged
+export class SearchSnapshot extends Effect.Service<SearchSnapshot>()(
+  "SearchSnapshot",
+  {
+    effect: Effect.gen(function* () {
+      const catalog = yield* NodeSetCatalog
+      const loader = yield* NodeSetLoader
+      const index = yield* NodeSearchIndex
+      const namespaceTable = yield* NamespaceTable
+      const keyValueStore = yield* KeyValueStore.KeyValueStore
+      const manifestStore = keyValueStore.forSchema(SnapshotManifest)
+      const dataStore = keyValueStore.forSchema(NodeSearchIndexSnapshot)
+
+      // None if a NodeSet has no recorded content version. Only inputs that
+      // are known before loading count: the namespace URIs and other catalog
+      // metadata are filled in while NodeSets load
+      const sourcesKey = Effect.fn("SearchSnapshot.sourcesKey")(function* (
+        sources: ReadonlyArray<string>,
+      ) {
+        const parts: string[] = []
+        for (const slug of sources) {
+          const entry = yield* catalog.resolve(slug)
+          const version = yield* loader.contentVersion(slug)
+          if (Option.isNone(version)) return Option.none<string>()
+          parts.push(
+            slug,
+            entry.revision?.blobSha ?? entry.nodeSetUrl,
+            version.value,
+          )
+        }
+        return Option.some(digest(parts))
+      })
+
+      const tryRestore = Effect.fn("SearchSnapshot.tryRestore")(function* (
+        slugs: ReadonlyArray<string>,
+      ) {
+        const key = snapshotKey(slugs)
+        const manifest = yield* manifestStore.get(`${key}/manifest`)
+        if (Option.isNone(manifest)) {
+          yield* Effect.logInfo("No search snapshot for the NodeSets found")
+          return false
+        }
+
+        const current = yield* sourcesKey(manifest.value.sources)
+        if (Option.isNone(current) || current.value !== manifest.value.key) {
+          yield* Effect.logInfo(
+            `Search snapshot of ${manifest.value.sources.join(", ")} is outdated`,
+          )
+          return false
+        }
+
+        // Browse paths and NodeIds carry the namespace indexes of the run
+        // that took the snapshot
+        const namespaces = yield* namespaceTable.registerAll(
+          manifest.value.namespaces,
+        )
+        if (
+          !manifest.value.namespaces.every(
+            (uri, position) => namespaces[position] === uri,
+          )
+        ) {
+          yield* Effect.logInfo(
+            "Search snapshot does not match the namespace table",
+          )
+          return false
+        }
+
+        const data = yield* dataStore.get(`${key}/data`)
+        if (Option.isNone(data)) return false
+        yield* index.restore(data.value)
+        yield* Effect.logInfo(
+          `Restored search snapshot of ${manifest.value.sources.join(", ")}`,
+        )
+        return true
+      })
+
+      // Restores the snapshot taken for the slugs. False if there is none or
+      // it is outdated, then the NodeSets have to be loaded and saved again
+      const restore = (slugs: ReadonlyArray<string>) =>
+        tryRestore(slugs).pipe(
+          Effect.catchAllCause((cause) =>
+            Effect.logWarning("Failed to restore search snapshot", cause).pipe(
+              Effect.as(false),
+            ),
+          ),
+        )
+
+      // Snapshots the current graph and index under the requested slugs
+      const save = Effect.fn("SearchSnapshot.save")(function* (
+        slugs: ReadonlyArray<string>,
+      ) {
+        const data = yield* index.snapshot()
+        const sources = data.graph.sources.map(({ source }) => source)
+        const key = yield* sourcesKey(sources)
+        if (Option.isNone(key)) {
+          yield* Effect.logInfo(
+            "Search snapshot skipped, a NodeSet has no content version",
+          )
+          return
+        }
+
+        const storeKey = snapshotKey(slugs)
+        // The manifest goes last so it never describes data that was not written
+        yield* dataStore.set(`${storeKey}/data`, data)
+        yield* manifestStore.set(
+          `${storeKey}/manifest`,
+          new SnapshotManifest({
+            key: key.value,
+            sources,
+            namespaces: yield* namespaceTable.list(),
+          }),
+        )
+        yield* Effect.logInfo(
+          `Persisted search snapshot of ${sources.join(", ")} with ${data.documents.length} documents`,
+        )
+      })
+
+      return {
+        restore,
+        save: (slugs: ReadonlyArray<string>) =>
+          save(slugs).pipe(
+            Effect.catchAllCause((cause) =>
+              Effect.logWarning("Failed to persist search snapshot", cause),
+            ),
+          ),
+      } as const
+    }),
+    dependencies: [
+      NodeSetCatalog.Default,
+      NodeSetLoader.Default,
+      NodeSearchIndex.Default,
+      NamespaceTable.Default,
+      PersistentStore,
+    ],
+  },
+) {}
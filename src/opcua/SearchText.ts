@@ -0,0 +1,146 @@
+import { Effect, Layer } from "effect"
+import type { Query } from "minisearch"
+
+// Groups of equivalent search terms. A query mentioning one term of a group
+// also searches for the others. Terms are matched after tokenization, so
+// `EngineeringUnits` and `engineering units` are the same term
+export type SynonymGroups = ReadonlyArray<ReadonlyArray<string>>
+
+export const DEFAULT_SYNONYMS: SynonymGroups = [
+  // Units and analog items
+  ["eu", "engineering units", "eu information"],
+  ["eu range", "engineering range", "instrument range"],
+  ["temp", "temperature"],
+  ["rpm", "rotational speed"],
+  ["speed", "velocity"],
+  // Control loops
+  ["pv", "process value", "process variable"],
+  ["sp", "setpoint", "set point"],
+  ["mv", "manipulated value", "output value"],
+  // Production metrics and identification
+  ["oee", "overall equipment effectiveness"],
+  ["kpi", "key performance indicator"],
+  ["rfid", "radio frequency identification", "auto id"],
+  ["ocr", "optical character recognition"],
+  ["barcode", "optical code"],
+  ["serial number", "serial no"],
+  ["manufacturer", "vendor"],
+  // PackML states and commands
+  ["execute", "running", "production"],
+  ["held", "hold", "holding", "paused"],
+  ["suspended", "suspend", "suspending", "starved", "blocked"],
+  ["aborted", "abort", "aborting", "emergency stop"],
+  ["stopped", "stop", "stopping"],
+  ["complete", "completing", "completed", "finished"],
+  ["unit mode", "machine mode"],
+  // Device integration
+  ["fw", "firmware", "software revision"],
+  ["hw", "hardware", "hardware revision"],
+  ["plc", "programmable logic controller", "controller"],
+]
+
+// Words are runs of letters, digits and underscores; CamelCase, digit and
+// underscore boundaries split them into parts. `EUInformation` gives `EU`,
+// `Information`, `RFIDReader2` gives `RFID`, `Reader`, `2`
+const WORD_PATTERN = /[\p{L}\p{N}_]+/gu
+const PART_PATTERN = /\p{Lu}+(?=\p{Lu}\p{Ll})|\p{Lu}?\p{Ll}+|\p{Lu}+|\p{N}+/gu
+
+const partsOf = (word: string): ReadonlyArray<string> =>
+  Array.from(word.matchAll(PART_PATTERN), ([part]) => part.toLowerCase())
+
+// Parts of every word, without the joined words
+const termsOf = (text: string): ReadonlyArray<string> =>
+  Array.from(text.matchAll(WORD_PATTERN), ([word]) => partsOf(word)).flat()
+
+// Tokenizer for indexing and queries. Each identifier yields its parts and the
+// joined identifier, so `CurrentSpeed` matches `speed` while an exact
+// `CurrentSpeed` query still ranks the node first
+export const tokenize = (text: string): Array<string> => {
+  const tokens: string[] = []
+  for (const [word] of text.matchAll(WORD_PATTERN)) {
+    const parts = partsOf(word)
+    const joined = parts.join("")
+    if (parts.length !== 1 && joined !== "") tokens.push(joined)
+    tokens.push(...parts)
+  }
+  return tokens
+}
+
+// Longest synonym phrase, in terms
+const MAX_PHRASE_TERMS = 4
+// Alternatives rank below the terms the query actually used
+const SYNONYM_BOOST = 0.5
+
+export interface Vocabulary {
+  readonly expand: (query: string) => Query
+}
+
+export const makeVocabulary = (groups: SynonymGroups): Vocabulary => {
+  const phrases = new Map<string, Set<string>>()
+  for (const group of groups) {
+    const normalized = group
+      .map((phrase) => termsOf(phrase).join(" "))
+      .filter((phrase) => phrase !== "")
+    for (const phrase of normalized) {
+      const alternatives = phrases.get(phrase) ?? new Set<string>()
+      for (const alternative of normalized) {
+        if (alternative !== phrase) alternatives.add(alternative)
+      }
+      phrases.set(phrase, alternatives)
+    }
+  }
+
+  // The query itself, OR-ed with the alternatives of the phrases it contains
+  // and with its words joined into one identifier, so `eu range` also finds
+  // `EURange`. Phrases are matched longest first; multi-term alternatives
+  // must match all their terms
+  const expand = (query: string): Query => {
+    const terms = termsOf(query)
+    const alternatives = new Set<string>()
+    for (let start = 0; start < terms.length; ) {
+      let end = Math.min(terms.length, start + MAX_PHRASE_TERMS)
+      while (
+        end > start + 1 &&
+        !phrases.has(terms.slice(start, end).join(" "))
+      ) {
+        end--
+      }
+      for (const alternative of phrases.get(
+        terms.slice(start, end).join(" "),
+      ) ?? []) {
+        alternatives.add(alternative)
+      }
+      start = end
+    }
+    const joined = terms.length > 1 ? [terms.join("")] : []
+    if (alternatives.size === 0 && joined.length === 0) return query
+
+    return {
+      combineWith: "OR",
+      queries: [
+        query,
+        ...joined,
+        ...Array.from(alternatives, (alternative) => ({
+          combineWith: "AND" as const,
+          queries: [alternative],
+          boostTerm: () => SYNONYM_BOOST,
+        })),
+      ],
+    }
+  }
+
+  return { expand }
+}
+
+// Synonyms used by the search index. Provide `SearchVocabulary.withSynonyms`
+// to replace the default dictionary
+export class SearchVocabulary extends Effect.Service<SearchVocabulary>()(
+  "SearchVocabulary",
+  { succeed: makeVocabulary(DEFAULT_SYNONYMS) },
+) {
+  static readonly withSynonyms = (groups: SynonymGroups) =>
+    Layer.succeed(
+      SearchVocabulary,
+      SearchVocabulary.make(makeVocabulary(groups)),
+    )
+}
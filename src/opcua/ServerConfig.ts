@@ -0,0 +1,246 @@
+import {
+  Config,
+  ConfigError,
+  ConfigProvider,
+  Data,
+  Effect,
+  Layer,
+  LogLevel,
+  Option,
+  ParseResult,
+  Schema,
+} from "effect"
+import { FileSystem } from "@effect/platform/FileSystem"
+import { NodeFileSystem, NodeKeyValueStore } from "@effect/platform-node"
+import * as path from "node:path"
+
+export class ServerConfigError extends Data.TaggedError("ServerConfigError")<{
+  readonly cause?: unknown
+  readonly message: string
+}> {}
+
+export const CONFIG_FILE_NAME = "opcua-mcp.config.json"
+
+// Prefix of the environment variables, e.g. `OPCUA_MCP_CACHE_DIR`
+const ENV_PREFIX = "OPCUA_MCP"
+
+// Keys of the config file; environment variables use them in CONSTANT_CASE
+const ConfigFile = Schema.Struct({
+  cacheDir: Schema.optional(Schema.String),
+  githubRepo: Schema.optional(Schema.String),
+  githubRef: Schema.optional(Schema.String),
+  preload: Schema.optional(Schema.Array(Schema.String)),
+  nodesetDirs: Schema.optional(Schema.Array(Schema.String)),
+  concurrency: Schema.optional(Schema.Number),
+  logLevel: Schema.optional(Schema.String),
+  pageSize: Schema.optional(Schema.Number),
+  lockFile: Schema.optional(Schema.String),
+})
+type ConfigFile = typeof ConfigFile.Type
+
+const decodeConfigFile = Schema.decodeUnknown(Schema.parseJson(ConfigFile), {
+  onExcessProperty: "error",
+  errors: "all",
+})
+
+const positiveInteger = (name: string, fallback: number) =>
+  Config.integer(name).pipe(
+    Config.validate({
+      message: "Expected a positive integer",
+      validation: (value) => value > 0,
+    }),
+    Config.withDefault(fallback),
+  )
+
+const stringList = (name: string) =>
+  Config.array(Config.string(), name).pipe(
+    Config.map((values) =>
+      values.map((value) => value.trim()).filter((value) => value.length > 0),
+    ),
+  )
+
+const settings = Config.all({
+  cacheDir: Config.string("cacheDir").pipe(
+    Config.withDefault("/tmp/opcua-mcp-cache"),
+  ),
+  // GitHub repository the NodeSet catalog is discovered from
+  githubRepo: Config.string("githubRepo").pipe(
+    Config.validate({
+      message: "Expected a GitHub repository as owner/name",
+      validation: (value) => /^[\w.-]+\/[\w.-]+$/.test(value),
+    }),
+    Config.withDefault("OPCFoundation/UA-Nodeset"),
+  ),
+  githubRef: Config.nonEmptyString("githubRef").pipe(
+    Config.withDefault("latest"),
+  ),
+  // Slugs indexed at startup instead of the catalog defaults
+  preload: Config.option(stringList("preload")),
+  // Directories of *.NodeSet2.xml files added to the catalog at startup
+  nodesetDirs: stringList("nodesetDirs").pipe(Config.withDefault([])),
+  // NodeSets fetched and parsed at the same time
+  concurrency: positiveInteger("concurrency", 2),
+  logLevel: Config.logLevel("logLevel").pipe(Config.withDefault(LogLevel.Info)),
+  // Lines per page of `get_opcua_doc`
+  pageSize: positiveInteger("pageSize", 1000),
+  // Commit and blob SHAs the catalog NodeSets are pinned to
+  lockFile: Config.nonEmptyString("lockFile").pipe(
+    Config.withDefault("opcua-nodesets.lock.json"),
+    Config.map((file) => path.resolve(file)),
+  ),
+})
+
+export type ServerSettings = Config.Config.Success<typeof settings>
+
+const envProvider = ConfigProvider.fromEnv().pipe(
+  ConfigProvider.nested(ENV_PREFIX),
+  ConfigProvider.constantCase,
+)
+
+// Settings given as values, e.g. parsed CLI flags. Lists are joined like in
+// environment variables, so a list replaces the list of a later source
+// instead of being merged with it by index
+export const settingsProvider = (
+  values: Readonly<Record<string, string | number | ReadonlyArray<string>>>,
+) =>
+  ConfigProvider.fromMap(
+    new Map(
+      Object.entries(values).map(([key, value]) => [
+        key,
+        typeof value === "object" ? value.join(",") : String(value),
+      ]),
+    ),
+  )
+
+// Paths in the config file are relative to the file
+const resolvePaths = (file: ConfigFile, directory: string): ConfigFile => ({
+  ...file,
+  ...(file.cacheDir && { cacheDir: path.resolve(directory, file.cacheDir) }),
+  ...(file.lockFile && { lockFile: path.resolve(directory, file.lockFile) }),
+  ...(file.nodesetDirs && {
+    nodesetDirs: file.nodesetDirs.map((dir) => path.resolve(directory, dir)),
+  }),
+})
+
+// Environment variables are named as they are set, e.g. `OPCUA_MCP_PAGE_SIZE`
+const formatPath = (path: ReadonlyArray<string>) =>
+  path[0] === ENV_PREFIX ? path.join("_") : path.join(".")
+
+const formatConfigError = (error: ConfigError.ConfigError): string => {
+  const messages: string[] = []
+  const visit = (error: ConfigError.ConfigError): void => {
+    switch (error._op) {
+      case "And":
+        visit(error.left)
+        visit(error.right)
+        return
+      // Every source failed; those that only lack the setting are not the
+      // reason when another one has an invalid value
+      case "Or":
+        if (!ConfigError.isMissingDataOnly(error.left)) visit(error.left)
+        if (!ConfigError.isMissingDataOnly(error.right)) visit(error.right)
+        if (ConfigError.isMissingDataOnly(error)) {
+          visit(error.left)
+          visit(error.right)
+        }
+        return
+      case "InvalidData":
+      case "MissingData":
+      case "SourceUnavailable":
+      case "Unsupported":
+        messages.push(`${formatPath(error.path)}: ${error.message}`)
+    }
+  }
+  visit(error)
+  return Array.from(new Set(messages)).join("; ")
+}
+
+const invalidConfiguration = (error: ConfigError.ConfigError) =>
+  new ServerConfigError({
+    cause: error,
+    message: `Invalid configuration: ${formatConfigError(error)}`,
+  })
+
+// Settings of the server from, in order of precedence, the current
+// ConfigProvider (CLI flags when started from main), `OPCUA_MCP_*`
+// environment variables and the config file. The file is
+// `opcua-mcp.config.json` in the working directory unless `OPCUA_MCP_CONFIG`
+// or `--config` names another one
+export class ServerConfig extends Effect.Service<ServerConfig>()(
+  "ServerConfig",
+  {
+    effect: Effect.gen(function* () {
+      const fs = yield* FileSystem
+      const current = yield* Effect.configProviderWith(Effect.succeed)
+      const sources = current.pipe(ConfigProvider.orElse(() => envProvider))
+
+      const explicitFile = yield* Effect.withConfigProvider(
+        Config.option(Config.nonEmptyString("config")),
+        sources,
+      ).pipe(Effect.mapError(invalidConfiguration))
+      const filePath = path.resolve(
+        Option.getOrElse(explicitFile, () => CONFIG_FILE_NAME),
+      )
+
+      const fileExists = yield* fs
+        .exists(filePath)
+        .pipe(Effect.orElseSucceed(() => false))
+      let provider = sources
+      if (fileExists) {
+        const file = yield* fs.readFileString(filePath).pipe(
+          Effect.flatMap(decodeConfigFile),
+          Effect.mapError(
+            (cause) =>
+              new ServerConfigError({
+                cause,
+                message: ParseResult.isParseError(cause)
+                  ? `Invalid config file ${filePath}: ${ParseResult.ArrayFormatter.formatErrorSync(
+                      cause,
+                    )
+                      .map(({ path, message }) =>
+                        path.length > 0
+                          ? `${path.join(".")}: ${message}`
+                          : message,
+                      )
+                      .join("; ")}`
+                  : `Failed to read config file ${filePath}: ${cause.message}`,
+              }),
+          ),
+        )
+        provider = sources.pipe(
+          ConfigProvider.orElse(() =>
+            settingsProvider(resolvePaths(file, path.dirname(filePath))),
+          ),
+        )
+      } else if (Option.isSome(explicitFile)) {
+        return yield* new ServerConfigError({
+          message: `Config file ${filePath} does not exist`,
+        })
+      }
+
+      const loaded = yield* Effect.withConfigProvider(settings, provider).pipe(
+        Effect.mapError(invalidConfiguration),
+      )
+
+      for (const directory of loaded.nodesetDirs) {
+        const info = yield* fs.stat(directory).pipe(Effect.option)
+        if (Option.isNone(info) || info.value.type !== "Directory") {
+          return yield* new ServerConfigError({
+            message: `Invalid configuration: NodeSet directory ${directory} does not exist`,
+          })
+        }
+      }
+
+      return loaded
+    }),
+    dependencies: [NodeFileSystem.layer],
+  },
+) {}
+
+// File-system KeyValueStore in the configured cache directory, shared by the
+// services that persist NodeSets, embeddings and snapshots
+export const PersistentStore = Layer.unwrapEffect(
+  Effect.map(ServerConfig, (config) =>
+    NodeKeyValueStore.layerFileSystem(config.cacheDir),
+  ),
+).pipe(Layer.provide(ServerConfig.Default))
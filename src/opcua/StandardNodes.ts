@@ -0,0 +1,126 @@
+// Well-known nodes of the OPC UA core namespace (Part 6, NodeIds.csv). Used to
+// name reference types and data types that companion NodeSets refer to by raw
+// NodeId without loading the core model itself.
+
+export const ReferenceTypeIds = {
+  References: "i=31",
+  NonHierarchicalReferences: "i=32",
+  HierarchicalReferences: "i=33",
+  HasChild: "i=34",
+  Organizes: "i=35",
+  HasEventSource: "i=36",
+  HasModellingRule: "i=37",
+  HasEncoding: "i=38",
+  HasDescription: "i=39",
+  HasTypeDefinition: "i=40",
+  GeneratesEvent: "i=41",
+  Aggregates: "i=44",
+  HasSubtype: "i=45",
+  HasProperty: "i=46",
+  HasComponent: "i=47",
+  HasNotifier: "i=48",
+  HasOrderedComponent: "i=49",
+  FromState: "i=51",
+  ToState: "i=52",
+  HasCause: "i=53",
+  HasEffect: "i=54",
+  HasHistoricalConfiguration: "i=56",
+  HasSubStateMachine: "i=117",
+  AlwaysGeneratesEvent: "i=3065",
+  HasTrueSubState: "i=9004",
+  HasFalseSubState: "i=9005",
+  HasCondition: "i=9006",
+  HasInterface: "i=17603",
+  HasAddIn: "i=17604",
+} as const
+
+export const DataTypeIds = {
+  Boolean: "i=1",
+  SByte: "i=2",
+  Byte: "i=3",
+  Int16: "i=4",
+  UInt16: "i=5",
+  Int32: "i=6",
+  UInt32: "i=7",
+  Int64: "i=8",
+  UInt64: "i=9",
+  Float: "i=10",
+  Double: "i=11",
+  String: "i=12",
+  DateTime: "i=13",
+  Guid: "i=14",
+  ByteString: "i=15",
+  XmlElement: "i=16",
+  NodeId: "i=17",
+  ExpandedNodeId: "i=18",
+  StatusCode: "i=19",
+  QualifiedName: "i=20",
+  LocalizedText: "i=21",
+  Structure: "i=22",
+  DataValue: "i=23",
+  BaseDataType: "i=24",
+  DiagnosticInfo: "i=25",
+  Number: "i=26",
+  Integer: "i=27",
+  UInteger: "i=28",
+  Enumeration: "i=29",
+  Image: "i=30",
+  NodeClass: "i=257",
+  Duration: "i=290",
+  UtcTime: "i=294",
+  LocaleId: "i=295",
+  Argument: "i=296",
+  Range: "i=884",
+  EUInformation: "i=887",
+  EnumValueType: "i=7594",
+  OptionSet: "i=12755",
+  Union: "i=12756",
+  Decimal: "i=50",
+} as const
+
+export const ObjectIds = {
+  Root: "i=84",
+  Objects: "i=85",
+  Types: "i=86",
+  Views: "i=87",
+  ObjectTypes: "i=88",
+  VariableTypes: "i=89",
+  DataTypes: "i=90",
+  ReferenceTypes: "i=91",
+  ModellingRule_Mandatory: "i=78",
+  ModellingRule_Optional: "i=80",
+  ModellingRule_ExposesItsArray: "i=83",
+  ModellingRule_OptionalPlaceholder: "i=11508",
+  ModellingRule_MandatoryPlaceholder: "i=11510",
+} as const
+
+export const ObjectTypeIds = {
+  BaseObjectType: "i=58",
+  FolderType: "i=61",
+  DataTypeEncodingType: "i=76",
+  ModellingRuleType: "i=77",
+  StateType: "i=2307",
+  TransitionType: "i=2310",
+} as const
+
+export const VariableTypeIds = {
+  BaseVariableType: "i=62",
+  BaseDataVariableType: "i=63",
+  PropertyType: "i=68",
+} as const
+
+// Names keyed by core NodeId string, e.g. "i=47" -> "HasComponent"
+export const standardBrowseNames: ReadonlyMap<string, string> = new Map(
+  [
+    ReferenceTypeIds,
+    DataTypeIds,
+    ObjectIds,
+    ObjectTypeIds,
+    VariableTypeIds,
+  ].flatMap((ids) =>
+    Object.entries(ids).map(
+      ([name, nodeId]) =>
+        [nodeId, name.replace(/^ModellingRule_/, "")] as const,
+    ),
+  ),
+)
@@ -0,0 +1,293 @@
+import { Data, Effect, Option } from "effect"
+import {
+  type ParsedUANode,
+  TypeHierarchyInfo,
+  TypeMember,
+  TypeReference,
+  TypeSubtype,
+} from "./types.js"
+import { NodeGraph } from "./NodeGraph.js"
+import { ReferenceTypeIds, standardBrowseNames } from "./StandardNodes.js"
+
+export class TypeHierarchyError extends Data.TaggedError("TypeHierarchyError")<{
+  readonly message: string
+}> {}
+
+const TYPE_NODE_CLASSES = new Set<ParsedUANode["nodeClass"]>([
+  "ObjectType",
+  "VariableType",
+  "DataType",
+  "ReferenceType",
+])
+
+// InstanceDeclarations nest through Objects and Variables; deeper levels are
+// almost always recursive structures
+const MAX_MEMBER_DEPTH = 8
+const DEFAULT_SUBTYPE_LIMIT = 500
+
+const targetOf = (node: ParsedUANode, typeId: string, name: string) =>
+  node.references
+    .find(
+      (ref) =>
+        ref.isForward &&
+        (ref.referenceTypeId
+          ? ref.referenceTypeId.toString() === typeId
+          : ref.referenceType === name),
+    )
+    ?.targetNodeId.toString()
+
+const qualifiedName = (node: ParsedUANode) =>
+  `${node.browseNameNamespaceUri ?? ""}:${node.browseName}`
+
+export class TypeHierarchy extends Effect.Service<TypeHierarchy>()(
+  "TypeHierarchy",
+  {
+    effect: Effect.gen(function* () {
+      const graph = yield* NodeGraph
+
+      const findNode = (nodeId: string) =>
+        graph
+          .getNode(nodeId)
+          .pipe(Effect.map(Option.map((entry) => entry.node)))
+
+      const typeReference = Effect.fn("TypeHierarchy.typeReference")(function* (
+        nodeId: string,
+      ) {
+        const node = yield* findNode(nodeId)
+        return new TypeReference(
+          {
+            nodeId,
+            browseName: Option.match(node, {
+              onNone: () => standardBrowseNames.get(nodeId),
+              onSome: (node) => node.browseName,
+            }),
+          },
+          true,
+        )
+      })
+
+      // Resolves a type by NodeId or by BrowseName
+      const resolveType = Effect.fn("TypeHierarchy.resolveType")(function* (
+        type: string,
+      ) {
+        const query = type.trim()
+        const byNodeId = yield* findNode(query)
+        if (Option.isSome(byNodeId)) {
+          if (!TYPE_NODE_CLASSES.has(byNodeId.value.nodeClass)) {
+            return yield* Effect.fail(
+              new TypeHierarchyError({
+                message: `${query} is not a type but a node of class ${byNodeId.value.nodeClass}`,
+              }),
+            )
+          }
+          return byNodeId.value
+        }
+
+        const matches = (yield* graph.getAllNodes())
+          .map((entry) => entry.node)
+          .filter(
+            (node) =>
+              TYPE_NODE_CLASSES.has(node.nodeClass) &&
+              node.browseName === query,
+          )
+        if (matches.length === 1) {
+          return matches[0]
+        }
+        return yield* Effect.fail(
+          new TypeHierarchyError({
+            message:
+              matches.length === 0
+                ? `No type with NodeId or BrowseName ${query} is loaded`
+                : `BrowseName ${query} is ambiguous, use one of the NodeIds: ${matches
+                    .map((node) => node.nodeId.toString())
+                    .join(", ")}`,
+          }),
+        )
+      })
+
+      // Supertype chain, direct supertype first. Stops at the root type or at
+      // the first supertype that is not loaded
+      const supertypeChain = Effect.fn("TypeHierarchy.supertypeChain")(
+        function* (nodeId: string) {
+          const chain: string[] = []
+          let current = yield* graph.getSupertype(nodeId)
+          while (Option.isSome(current) && !chain.includes(current.value)) {
+            chain.push(current.value)
+            current = yield* graph.getSupertype(current.value)
+          }
+          return chain
+        },
+      )
+
+      const transitiveSubtypes = Effect.fn("TypeHierarchy.transitiveSubtypes")(
+        function* (nodeId: string, limit: number) {
+          const subtypes: TypeSubtype[] = []
+          const seen = new Set([nodeId])
+          let level: ReadonlyArray<string> = [nodeId]
+          for (let depth = 1; level.length > 0; depth++) {
+            const next: string[] = []
+            for (const supertypeId of level) {
+              for (const subtypeId of yield* graph.getSubtypes(supertypeId)) {
+                if (seen.has(subtypeId)) continue
+                seen.add(subtypeId)
+                if (subtypes.length >= limit) {
+                  return { subtypes, truncated: true }
+                }
+                const { browseName } = yield* typeReference(subtypeId)
+                subtypes.push(
+                  new TypeSubtype(
+                    { nodeId: subtypeId, browseName, supertypeId, depth },
+                    true,
+                  ),
+                )
+                next.push(subtypeId)
+              }
+            }
+            level = next
+          }
+          return { subtypes, truncated: false }
+        },
+      )
+
+      // Flattens the InstanceDeclarations of the type and all supertypes.
+      // Supertypes are walked from the root down; a declaration with the same
+      // BrowsePath in a subtype overrides the inherited one (Part 3, 6.3.3.3)
+      // and keeps inherited settings it does not declare itself.
+      const flattenMembers = Effect.fn("TypeHierarchy.flattenMembers")(
+        function* (typeIds: ReadonlyArray<string>) {
+          const members = new Map<string, TypeMember>()
+
+          const collect = (
+            declaringType: TypeReference,
+            parentId: string,
+            pathKey: string,
+            path: string,
+            depth: number,
+            visited: ReadonlySet<string>,
+          ): Effect.Effect<void> =>
+            Effect.gen(function* () {
+              for (const child of yield* graph.getChildren(parentId)) {
+                if (visited.has(child.nodeId)) continue
+                const found = yield* findNode(child.nodeId)
+                if (Option.isNone(found)) continue
+                const node = found.value
+                const key = `${pathKey}/${qualifiedName(node)}`
+                const browsePath = path
+                  ? `${path}/${node.browseName}`
+                  : node.browseName
+                const inherited = members.get(key)
+
+                const modellingRuleId = targetOf(
+                  node,
+                  ReferenceTypeIds.HasModellingRule,
+                  "HasModellingRule",
+                )
+                const typeDefinitionId = targetOf(
+                  node,
+                  ReferenceTypeIds.HasTypeDefinition,
+                  "HasTypeDefinition",
+                )
+                const modellingRule = modellingRuleId
+                  ? ((yield* typeReference(modellingRuleId)).browseName ??
+                    modellingRuleId)
+                  : undefined
+                const typeDefinition = typeDefinitionId
+                  ? yield* typeReference(typeDefinitionId)
+                  : undefined
+                const dataType = node.dataTypeId
+                  ? new TypeReference(
+                      {
+                        nodeId: node.dataTypeId.toString(),
+                        browseName: node.dataType,
+                      },
+                      true,
+                    )
+                  : undefined
+
+                members.set(
+                  key,
+                  new TypeMember(
+                    {
+                      browsePath,
+                      nodeId: node.nodeId.toString(),
+                      nodeClass: node.nodeClass,
+                      referenceType: child.referenceType,
+                      declaringType,
+                      overrides: inherited?.declaringType,
+                      modellingRule: modellingRule ?? inherited?.modellingRule,
+                      typeDefinition:
+                        typeDefinition ?? inherited?.typeDefinition,
+                      dataType: dataType ?? inherited?.dataType,
+                      valueRank: node.valueRank ?? inherited?.valueRank,
+                    },
+                    true,
+                  ),
+                )
+
+                if (depth < MAX_MEMBER_DEPTH) {
+                  yield* collect(
+                    declaringType,
+                    child.nodeId,
+                    key,
+                    browsePath,
+                    depth + 1,
+                    new Set([...visited, child.nodeId]),
+                  )
+                }
+              }
+            })
+
+          for (const typeId of [...typeIds].reverse()) {
+            const declaringType = yield* typeReference(typeId)
+            yield* collect(declaringType, typeId, "", "", 1, new Set([typeId]))
+          }
+          return Array.from(members.values())
+        },
+      )
+
+      const describe = Effect.fn("TypeHierarchy.describe")(function* (
+        type: string,
+        options: { readonly subtypeLimit?: number } = {},
+      ) {
+        const node = yield* resolveType(type)
+        const nodeId = node.nodeId.toString()
+        const supertypes = yield* supertypeChain(nodeId)
+        const subtypes = yield* transitiveSubtypes(
+          nodeId,
+          options.subtypeLimit ?? DEFAULT_SUBTYPE_LIMIT,
+        )
+        const members = yield* flattenMembers([nodeId, ...supertypes])
+
+        yield* Effect.annotateCurrentSpan({
+          nodeId,
+          supertypes: supertypes.length,
+          subtypes: subtypes.subtypes.length,
+          members: members.length,
+        })
+
+        return new TypeHierarchyInfo(
+          {
+            nodeId,
+            browseName: node.browseName,
+            nodeClass: node.nodeClass,
+            isAbstract: node.isAbstract ?? false,
+            supertypes: yield* Effect.forEach(supertypes, typeReference),
+            subtypes: subtypes.subtypes
+              .filter((subtype) => subtype.depth === 1)
+              .map(
+                ({ nodeId, browseName }) =>
+                  new TypeReference({ nodeId, browseName }, true),
+              ),
+            transitiveSubtypes: subtypes.subtypes,
+            subtypesTruncated: subtypes.truncated,
+            members,
+          },
+          true,
+        )
+      })
+
+      return { resolveType, describe } as const
+    }),
+    dependencies: [NodeGraph.Default],
+  },
+) {}
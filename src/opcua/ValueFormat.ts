@@ -0,0 +1,77 @@
+import type { UAValue } from "./types.js"
+
+// AccessLevel bits (Part 3, 5.6.2)
+const accessLevelBits = [
+  "CurrentRead",
+  "CurrentWrite",
+  "HistoryRead",
+  "HistoryWrite",
+  "SemanticChange",
+  "StatusWrite",
+  "TimestampWrite",
+] as const
+
+export const formatAccessLevel = (accessLevel: number): string => {
+  const names = accessLevelBits.filter((_, bit) => accessLevel & (1 << bit))
+  return names.length > 0 ? `${accessLevel} (${names.join(", ")})` : "0"
+}
+
+// EventNotifier bits (Part 3, 5.4)
+export const formatEventNotifier = (eventNotifier: number): string => {
+  const names = [
+    eventNotifier & 1 ? "SubscribeToEvents" : undefined,
+    eventNotifier & 4 ? "HistoryRead" : undefined,
+    eventNotifier & 8 ? "HistoryWrite" : undefined,
+  ].filter(Boolean)
+  return names.length > 0 ? `${eventNotifier} (${names.join(", ")})` : "0"
+}
+
+// Single-line text form of a value, e.g. `{ NamespaceUri: ..., UnitId: 4408652 }`
+export const formatValue = (value: UAValue): string => {
+  switch (value._tag) {
+    case "Scalar":
+      return value.dataType === "String"
+        ? JSON.stringify(value.value)
+        : value.value
+    case "NodeId":
+      return value.nodeId.toString()
+    case "LocalizedText":
+      return value.locale ? `${value.locale}: ${value.text}` : value.text
+    case "QualifiedName":
+      return value.namespaceUri
+        ? `${value.namespaceUri}:${value.name}`
+        : value.name
+    case "Array":
+      return `[${value.items.map(formatValue).join(", ")}]`
+    case "Structure": {
+      const fields = value.fields
+        .map((field) => `${field.name}: ${formatValue(field.value)}`)
+        .join(", ")
+      return value.typeName
+        ? `${value.typeName} { ${fields} }`
+        : `{ ${fields} }`
+    }
+  }
+}
+
+const MAX_INLINE_VALUE = 200
+
+// Markdown for the `<Value>` of a node. Arrays of structures (method arguments,
+// enum values) become one bullet per item; everything else stays inline.
+export const renderValueMarkdown = (value: UAValue): string => {
+  if (
+    value._tag === "Array" &&
+    value.items.some((item) => item._tag === "Structure")
+  ) {
+    return value.items.map((item) => `- ${formatValue(item)}\n`).join("")
+  }
+  const text = formatValue(value)
+  return text.length > MAX_INLINE_VALUE || text.includes("\n")
+    ? `\`\`\`\n${text}\n\`\`\`\n`
+    : `\`${text}\`\n`
+}
+
+export const summarizeValue = (value: UAValue, maxLength = 120): string => {
+  const text = formatValue(value).replace(/\s+/g, " ")
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text
+}
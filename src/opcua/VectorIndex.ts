@@ -0,0 +1,137 @@
+import { Effect, Option, Schema, SynchronizedRef } from "effect"
+import { KeyValueStore } from "@effect/platform"
+import { Buffer } from "node:buffer"
+import { createHash } from "node:crypto"
+import { Embeddings } from "./Embeddings.js"
+import { PersistentStore } from "./ServerConfig.js"
+
+export interface VectorMatch {
+  readonly id: string
+  readonly score: number // Cosine similarity
+}
+
+// Vectors by content hash of the embedded text, base64 encoded
+const StoredVectors = Schema.Record({
+  key: Schema.String,
+  value: Schema.String,
+})
+
+const contentKey = (text: string) =>
+  createHash("sha256").update(text).digest("base64url").slice(0, 22)
+
+const encodeVector = (vector: Float32Array) =>
+  Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString(
+    "base64",
+  )
+
+const decodeVector = (encoded: string, dimensions: number) => {
+  const bytes = Buffer.from(encoded, "base64")
+  return bytes.byteLength === dimensions * 4
+    ? new Float32Array(new Uint8Array(bytes).buffer)
+    : undefined
+}
+
+const dot = (a: Float32Array, b: Float32Array) => {
+  let sum = 0
+  for (let index = 0; index < a.length; index++) sum += a[index] * b[index]
+  return sum
+}
+
+// Embedding vectors of the search documents. Vectors are stored by the hash of
+// their text, so unchanged documents are not embedded again after a restart
+export class VectorIndex extends Effect.Service<VectorIndex>()("VectorIndex", {
+  effect: Effect.gen(function* () {
+    const embeddings = yield* Embeddings
+    const store = (yield* KeyValueStore.KeyValueStore).forSchema(StoredVectors)
+    const storeKey = `embeddings-${embeddings.model}`
+
+    // Every vector known to this process, including those persisted by earlier
+    // runs for NodeSets that are not loaded yet
+    const known = new Map<string, Float32Array>()
+    const persisted = yield* store.get(storeKey).pipe(
+      Effect.tapErrorCause((cause) =>
+        Effect.logWarning("Failed to read persisted embeddings", cause),
+      ),
+      Effect.orElseSucceed(() => Option.none()),
+    )
+    if (Option.isSome(persisted)) {
+      for (const [key, encoded] of Object.entries(persisted.value)) {
+        const vector = decodeVector(encoded, embeddings.dimensions)
+        if (vector) known.set(key, vector)
+      }
+      yield* Effect.logInfo(
+        `Recovered ${known.size} ${embeddings.model} embeddings from persistent cache`,
+      )
+    }
+
+    // Vectors by document id
+    const stateRef = yield* SynchronizedRef.make<
+      ReadonlyMap<string, Float32Array>
+    >(new Map())
+
+    const persist = Effect.fn("VectorIndex.persist")(function* () {
+      const stored: Record<string, string> = {}
+      for (const [key, vector] of known) stored[key] = encodeVector(vector)
+      yield* store.set(storeKey, stored).pipe(
+        Effect.tap(() =>
+          Effect.logInfo(
+            `Persisted ${known.size} ${embeddings.model} embeddings`,
+          ),
+        ),
+        Effect.tapErrorCause((cause) =>
+          Effect.logWarning("Failed to persist embeddings", cause),
+        ),
+        Effect.ignore,
+      )
+    })
+
+    // Sets the vectors of the given documents and drops the removed ones
+    const update = Effect.fn("VectorIndex.update")(function* (
+      documents: ReadonlyArray<{ readonly id: string; readonly text: string }>,
+      removed: ReadonlyArray<string>,
+    ) {
+      const keyed = documents.map((document) => ({
+        ...document,
+        key: contentKey(document.text),
+      }))
+      const missing = keyed.filter(({ key }) => !known.has(key))
+      if (missing.length > 0) {
+        const vectors = yield* embeddings.embed(missing.map(({ text }) => text))
+        missing.forEach(({ key }, index) => known.set(key, vectors[index]))
+      }
+      yield* Effect.annotateCurrentSpan({
+        documents: documents.length,
+        embedded: missing.length,
+      })
+
+      yield* SynchronizedRef.update(stateRef, (current) => {
+        const next = new Map(current)
+        for (const id of removed) next.delete(id)
+        for (const { id, key } of keyed) next.set(id, known.get(key)!)
+        return next
+      })
+      if (missing.length > 0) yield* persist()
+    })
+
+    // Documents most similar to the text, best first. Only documents passing
+    // the filter and with a positive similarity are returned
+    const search = Effect.fn("VectorIndex.search")(function* (
+      text: string,
+      limit: number,
+      filter: (id: string) => boolean,
+    ) {
+      const [query] = yield* embeddings.embed([text])
+      const vectors = yield* SynchronizedRef.get(stateRef)
+      const matches: VectorMatch[] = []
+      for (const [id, vector] of vectors) {
+        if (!filter(id)) continue
+        const score = dot(query, vector)
+        if (score > 0) matches.push({ id, score })
+      }
+      return matches.sort((a, b) => b.score - a.score).slice(0, limit)
+    })
+
+    return { update, search } as const
+  }),
+  dependencies: [Embeddings.Default, PersistentStore],
+}) {}
@@ -1,14 +1,31 @@
 import { Schema, Option } from "effect"
 
-// NodeId representation
+export const CORE_NAMESPACE_URI = "http://opcfoundation.org/UA/"
+
+const identifierPrefixes = {
+  Numeric: "i",
+  String: "s",
+  Guid: "g",
+  Opaque: "b",
+} as const
+
+// NodeId representation. `namespaceIndex` is the server-wide index assigned by
+// the NamespaceTable, `namespaceUri` keeps ids stable across NodeSets and restarts
 export class NodeId extends Schema.Class<NodeId>("NodeId")({
   namespaceIndex: Schema.Number,
+  namespaceUri: Schema.optional(Schema.String),
   identifierType: Schema.Literal("Numeric", "String", "Guid", "Opaque"),
   identifier: Schema.String,
 }) {
+  // ExpandedNodeId form (`nsu=...;i=...`), or `i=...` for the core namespace
   toString(): string {
-    const idType = this.identifierType.toLowerCase()
-    return `ns=${this.namespaceIndex};${idType}=${this.identifier}`
+    const id = `${identifierPrefixes[this.identifierType]}=${this.identifier}`
+    if (this.namespaceUri !== undefined) {
+      return this.namespaceUri === CORE_NAMESPACE_URI
+        ? id
+        : `nsu=${this.namespaceUri};${id}`
+    }
+    return this.namespaceIndex === 0 ? id : `ns=${this.namespaceIndex};${id}`
   }
 }
 
@@ -27,7 +44,8 @@ export type NodeClass = Schema.Schema.Type<typeof NodeClass>
 
 // Reference representation
 export class Reference extends Schema.Class<Reference>("Reference")({
-  referenceType: Schema.String,
+  referenceType: Schema.String, // BrowseName of the ReferenceType
+  referenceTypeId: Schema.optional(NodeId), // Undefined if the alias is not defined
   isForward: Schema.Boolean,
   targetNodeId: NodeId,
 }) {}
@@ -40,20 +58,189 @@ export class LocalizedText extends Schema.Class<LocalizedText>("LocalizedText")(
   },
 ) {}
 
+// Variant payload of a `<Value>` element. Scalars keep their XML text so they
+// serialize back unchanged; ExtensionObject bodies become structures whose
+// fields are named after the body elements.
+export const UAScalarValue = Schema.TaggedStruct("Scalar", {
+  dataType: Schema.String, // Built-in type element name, e.g. Int32
+  value: Schema.String,
+})
+export type UAScalarValue = Schema.Schema.Type<typeof UAScalarValue>
+
+export const UANodeIdValue = Schema.TaggedStruct("NodeId", {
+  dataType: Schema.Literal("NodeId", "ExpandedNodeId"),
+  nodeId: NodeId,
+})
+export type UANodeIdValue = Schema.Schema.Type<typeof UANodeIdValue>
+
+export const UALocalizedTextValue = Schema.TaggedStruct("LocalizedText", {
+  locale: Schema.optional(Schema.String),
+  text: Schema.String,
+})
+export type UALocalizedTextValue = Schema.Schema.Type<
+  typeof UALocalizedTextValue
+>
+
+export const UAQualifiedNameValue = Schema.TaggedStruct("QualifiedName", {
+  namespaceUri: Schema.optional(Schema.String), // Undefined for namespace 0
+  name: Schema.String,
+})
+export type UAQualifiedNameValue = Schema.Schema.Type<
+  typeof UAQualifiedNameValue
+>
+
+export interface UAArrayValue {
+  readonly _tag: "Array"
+  readonly dataType: string // Element type, e.g. String for ListOfString
+  readonly items: ReadonlyArray<UAValue>
+}
+
+// ExtensionObjects carry the encoding `typeId` and the body element name as
+// `typeName`; nested structured fields have neither
+export interface UAStructureValue {
+  readonly _tag: "Structure"
+  readonly typeName?: string
+  readonly typeId?: NodeId
+  readonly fields: ReadonlyArray<UAStructureField>
+}
+
+export interface UAStructureField {
+  readonly name: string
+  readonly value: UAValue
+}
+
+export type UAValue =
+  | UAScalarValue
+  | UANodeIdValue
+  | UALocalizedTextValue
+  | UAQualifiedNameValue
+  | UAArrayValue
+  | UAStructureValue
+
+interface UAArrayValueEncoded {
+  readonly _tag: "Array"
+  readonly dataType: string
+  readonly items: ReadonlyArray<UAValueEncoded>
+}
+
+interface UAStructureValueEncoded {
+  readonly _tag: "Structure"
+  readonly typeName?: string
+  readonly typeId?: Schema.Schema.Encoded<typeof NodeId>
+  readonly fields: ReadonlyArray<{
+    readonly name: string
+    readonly value: UAValueEncoded
+  }>
+}
+
+type UAValueEncoded =
+  | Schema.Schema.Encoded<typeof UAScalarValue>
+  | Schema.Schema.Encoded<typeof UANodeIdValue>
+  | Schema.Schema.Encoded<typeof UALocalizedTextValue>
+  | Schema.Schema.Encoded<typeof UAQualifiedNameValue>
+  | UAArrayValueEncoded
+  | UAStructureValueEncoded
+
+const UAArrayValue: Schema.Schema<UAArrayValue, UAArrayValueEncoded> =
+  Schema.TaggedStruct("Array", {
+    dataType: Schema.String,
+    items: Schema.Array(Schema.suspend(() => UAValue)),
+  })
+
+const UAStructureValue: Schema.Schema<
+  UAStructureValue,
+  UAStructureValueEncoded
+> = Schema.TaggedStruct("Structure", {
+  typeName: Schema.optional(Schema.String),
+  typeId: Schema.optional(NodeId),
+  fields: Schema.Array(
+    Schema.Struct({
+      name: Schema.String,
+      value: Schema.suspend(() => UAValue),
+    }),
+  ),
+})
+
+export const UAValue: Schema.Schema<UAValue, UAValueEncoded> = Schema.Union(
+  UAScalarValue,
+  UANodeIdValue,
+  UALocalizedTextValue,
+  UAQualifiedNameValue,
+  UAArrayValue,
+  UAStructureValue,
+)
+
+// Kinds of `<Definition>` a DataType can carry (Part 3, 8.48 and 8.49)
+export const DataTypeDefinitionKind = Schema.Literal(
+  "Structure",
+  "StructureWithOptionalFields",
+  "Union",
+  "Enumeration",
+  "OptionSet",
+)
+export type DataTypeDefinitionKind = Schema.Schema.Type<
+  typeof DataTypeDefinitionKind
+>
+
+// `<Field>` of a DataType definition. Structure fields carry a data type;
+// enumeration and OptionSet fields carry a value (the bit number for OptionSets)
+export class DataTypeField extends Schema.Class<DataTypeField>("DataTypeField")(
+  {
+    name: Schema.String,
+    symbolicName: Schema.optional(Schema.String),
+    dataType: Schema.optional(Schema.String), // BrowseName of the field DataType
+    dataTypeId: Schema.optional(NodeId),
+    valueRank: Schema.optional(Schema.Number),
+    arrayDimensions: Schema.optional(Schema.Array(Schema.Number)),
+    maxStringLength: Schema.optional(Schema.Number),
+    isOptional: Schema.optional(Schema.Boolean),
+    allowSubTypes: Schema.optional(Schema.Boolean),
+    value: Schema.optional(Schema.Number),
+    displayName: Schema.optional(LocalizedText),
+    description: Schema.optional(LocalizedText),
+  },
+) {}
+
+export class DataTypeDefinition extends Schema.Class<DataTypeDefinition>(
+  "DataTypeDefinition",
+)({
+  kind: DataTypeDefinitionKind,
+  name: Schema.optional(Schema.String), // `Name` attribute of the definition
+  symbolicName: Schema.optional(Schema.String),
+  baseDataType: Schema.optional(Schema.String),
+  baseDataTypeId: Schema.optional(NodeId),
+  fields: Schema.Array(DataTypeField),
+}) {}
+
 // ParsedUANode - the main node structure
 export class ParsedUANode extends Schema.Class<ParsedUANode>("ParsedUANode")({
   nodeId: NodeId,
   nodeClass: NodeClass,
-  browseName: Schema.String,
+  browseName: Schema.String, // Name part of the BrowseName
+  browseNameNamespaceUri: Schema.optional(Schema.String), // Undefined for namespace 0
   displayName: LocalizedText,
   description: Schema.OptionFromUndefinedOr(LocalizedText),
   namespaceUri: Schema.optional(Schema.String),
   references: Schema.Array(Reference),
   // Type-specific fields
-  dataType: Schema.optional(Schema.String), // For Variables
+  dataType: Schema.optional(Schema.String), // BrowseName of the DataType, for Variables
+  dataTypeId: Schema.optional(NodeId),
   valueRank: Schema.optional(Schema.Number), // For Variables
+  arrayDimensions: Schema.optional(Schema.Array(Schema.Number)), // For Variables
+  accessLevel: Schema.optional(Schema.Number), // For Variables
+  userAccessLevel: Schema.optional(Schema.Number), // For Variables
+  historizing: Schema.optional(Schema.Boolean), // For Variables
+  minimumSamplingInterval: Schema.optional(Schema.Number), // For Variables
+  value: Schema.optional(UAValue), // For Variables and VariableTypes
+  eventNotifier: Schema.optional(Schema.Number), // For Objects and Views
+  parentNodeId: Schema.optional(NodeId), // For instances
+  methodDeclarationId: Schema.optional(NodeId), // For Methods
   isAbstract: Schema.optional(Schema.Boolean), // For Types
   symmetric: Schema.optional(Schema.Boolean), // For ReferenceTypes
+  inverseName: Schema.optional(LocalizedText), // For ReferenceTypes
+  definition: Schema.optional(DataTypeDefinition), // For DataTypes
+  symbolicName: Schema.optional(Schema.String),
+  releaseStatus: Schema.optional(Schema.String),
 }) {}
 
 // NodeSet namespace metadata
@@ -65,12 +252,196 @@ export class NamespaceMetadata extends Schema.Class<NamespaceMetadata>(
   version: Schema.optional(Schema.String),
 }) {}
 
+// `<RequiredModel>` of a NodeSet model declaration. Version and publication
+// date are the minimum the dependent model was built against
+export class RequiredModel extends Schema.Class<RequiredModel>("RequiredModel")(
+  {
+    modelUri: Schema.String,
+    version: Schema.optional(Schema.String),
+    publicationDate: Schema.optional(Schema.String),
+  },
+) {}
+
+// `<Models>/<Model>` header of a NodeSet
+export class ModelInfo extends Schema.Class<ModelInfo>("ModelInfo")({
+  modelUri: Schema.String,
+  version: Schema.optional(Schema.String),
+  publicationDate: Schema.optional(Schema.String),
+  requiredModels: Schema.Array(RequiredModel),
+}) {}
+
+// Entry of the NodeSet `<Aliases>` section
+export class NodeSetAlias extends Schema.Class<NodeSetAlias>("NodeSetAlias")({
+  alias: Schema.String,
+  nodeId: NodeId,
+}) {}
+
 // Complete NodeSet structure
 export class NodeSet extends Schema.Class<NodeSet>("NodeSet")({
   namespaces: Schema.Array(NamespaceMetadata),
+  models: Schema.optionalWith(Schema.Array(ModelInfo), {
+    default: () => [],
+  }),
+  aliases: Schema.optionalWith(Schema.Array(NodeSetAlias), {
+    default: () => [],
+  }),
   nodes: Schema.Array(ParsedUANode),
 }) {}
 
+export const DiagnosticSeverity = Schema.Literal("error", "warning", "info")
+export type DiagnosticSeverity = Schema.Schema.Type<typeof DiagnosticSeverity>
+
+// Finding of the NodeSet validator. `rule` names the check that produced it
+export class NodeSetDiagnostic extends Schema.Class<NodeSetDiagnostic>(
+  "NodeSetDiagnostic",
+)({
+  severity: DiagnosticSeverity,
+  rule: Schema.String,
+  nodeId: Schema.optional(Schema.String),
+  message: Schema.String,
+}) {}
+
+// Attribute whose value differs between two versions of a node. Values are
+// in their display form; undefined means the attribute is not set
+export class AttributeChange extends Schema.Class<AttributeChange>(
+  "AttributeChange",
+)({
+  attribute: Schema.String,
+  before: Schema.optional(Schema.String),
+  after: Schema.optional(Schema.String),
+}) {}
+
+export class ReferenceChange extends Schema.Class<ReferenceChange>(
+  "ReferenceChange",
+)({
+  change: Schema.Literal("added", "removed"),
+  referenceType: Schema.String,
+  isForward: Schema.Boolean,
+  targetNodeId: Schema.String,
+}) {}
+
+// Change of one `<Field>` of a DataType definition
+export class FieldChange extends Schema.Class<FieldChange>("FieldChange")({
+  field: Schema.String,
+  change: Schema.Literal("added", "removed", "changed"),
+  before: Schema.optional(Schema.String),
+  after: Schema.optional(Schema.String),
+}) {}
+
+export class NodeSummary extends Schema.Class<NodeSummary>("NodeSummary")({
+  nodeId: Schema.String,
+  browseName: Schema.String,
+  nodeClass: NodeClass,
+}) {}
+
+export class NodeChange extends Schema.Class<NodeChange>("NodeChange")({
+  nodeId: Schema.String,
+  browseName: Schema.String,
+  nodeClass: NodeClass,
+  attributes: Schema.Array(AttributeChange),
+  references: Schema.Array(ReferenceChange),
+  fields: Schema.Array(FieldChange),
+}) {}
+
+// Breaking or additive change found by the NodeSet diff. `rule` names the kind
+// of change, e.g. `removed-mandatory` or `enum-value-added`
+export class NodeSetDiffFinding extends Schema.Class<NodeSetDiffFinding>(
+  "NodeSetDiffFinding",
+)({
+  rule: Schema.String,
+  nodeId: Schema.String,
+  message: Schema.String,
+}) {}
+
+export class NodeSetDiffReport extends Schema.Class<NodeSetDiffReport>(
+  "NodeSetDiffReport",
+)({
+  added: Schema.Array(NodeSummary),
+  removed: Schema.Array(NodeSummary),
+  changed: Schema.Array(NodeChange),
+  breaking: Schema.Array(NodeSetDiffFinding),
+  additive: Schema.Array(NodeSetDiffFinding),
+}) {}
+
+// Node referred to by a type hierarchy. The BrowseName is undefined when the
+// node is not loaded
+export class TypeReference extends Schema.Class<TypeReference>("TypeReference")(
+  {
+    nodeId: Schema.String,
+    browseName: Schema.optional(Schema.String),
+  },
+) {}
+
+export class TypeSubtype extends Schema.Class<TypeSubtype>("TypeSubtype")({
+  nodeId: Schema.String,
+  browseName: Schema.optional(Schema.String),
+  supertypeId: Schema.String,
+  depth: Schema.Number, // 1 for direct subtypes
+}) {}
+
+// InstanceDeclaration of a type or one of its supertypes. `browsePath` is
+// relative to the type, e.g. `Lock/Locked`
+export class TypeMember extends Schema.Class<TypeMember>("TypeMember")({
+  browsePath: Schema.String,
+  nodeId: Schema.String,
+  nodeClass: NodeClass,
+  referenceType: Schema.String,
+  declaringType: TypeReference,
+  overrides: Schema.optional(TypeReference), // Supertype whose declaration is overridden
+  modellingRule: Schema.optional(Schema.String),
+  typeDefinition: Schema.optional(TypeReference),
+  dataType: Schema.optional(TypeReference),
+  valueRank: Schema.optional(Schema.Number),
+}) {}
+
+export class TypeHierarchyInfo extends Schema.Class<TypeHierarchyInfo>(
+  "TypeHierarchyInfo",
+)({
+  nodeId: Schema.String,
+  browseName: Schema.String,
+  nodeClass: NodeClass,
+  isAbstract: Schema.Boolean,
+  supertypes: Schema.Array(TypeReference), // Direct supertype first
+  subtypes: Schema.Array(TypeReference),
+  transitiveSubtypes: Schema.Array(TypeSubtype),
+  subtypesTruncated: Schema.Boolean,
+  members: Schema.Array(TypeMember),
+}) {}
+
+export const BrowseDirection = Schema.Literal("forward", "inverse", "both")
+export type BrowseDirection = Schema.Schema.Type<typeof BrowseDirection>
+
+// Part 4, 7.30. Target attributes are undefined when the target node is not
+// loaded
+export class ReferenceDescription extends Schema.Class<ReferenceDescription>(
+  "ReferenceDescription",
+)({
+  referenceType: TypeReference,
+  isForward: Schema.Boolean,
+  nodeId: Schema.String,
+  browseName: Schema.optional(Schema.String),
+  browseNameNamespaceUri: Schema.optional(Schema.String),
+  displayName: Schema.optional(Schema.String),
+  nodeClass: Schema.optional(NodeClass),
+  typeDefinition: Schema.optional(TypeReference), // Objects and Variables only
+}) {}
+
+export class BrowseResult extends Schema.Class<BrowseResult>("BrowseResult")({
+  nodeId: Schema.String,
+  references: Schema.Array(ReferenceDescription),
+  continuationPoint: Schema.optional(Schema.String), // Set when more references remain
+}) {}
+
+// TranslateBrowsePathsToNodeIds result. Targets carry the last reference
+// followed to reach them
+export class BrowsePathResult extends Schema.Class<BrowsePathResult>(
+  "BrowsePathResult",
+)({
+  startNodeId: Schema.String,
+  path: Schema.String,
+  targets: Schema.Array(ReferenceDescription),
+}) {}
+
 // NodeSet catalog metadata
 export const NodeSetSlug = Schema.String.pipe(
   Schema.annotations({
@@ -79,6 +450,15 @@ export const NodeSetSlug = Schema.String.pipe(
 )
 export type NodeSetSlug = Schema.Schema.Type<typeof NodeSetSlug>
 
+// Where a catalog NodeSet is read from in its GitHub repository
+export class NodeSetRevision extends Schema.Class<NodeSetRevision>(
+  "NodeSetRevision",
+)({
+  commit: Schema.String,
+  path: Schema.String, // Path of the file in the repository
+  blobSha: Schema.String, // Git blob SHA of the file at the commit
+}) {}
+
 export class NodeSetCatalogEntry extends Schema.Class<NodeSetCatalogEntry>(
   "NodeSetCatalogEntry",
 )({
@@ -92,15 +472,90 @@ export class NodeSetCatalogEntry extends Schema.Class<NodeSetCatalogEntry>(
   nodeSetUrl: Schema.String,
   dependencies: Schema.Array(NodeSetSlug),
   defaultSelection: Schema.Boolean,
+  revision: Schema.optional(NodeSetRevision),
+}) {}
+
+export const NodeSetLockChangeKind = Schema.Literal(
+  "added",
+  "updated",
+  "removed",
+)
+
+// Change of a NodeSet between the locked and the latest commit. Added ones
+// are in the catalog at the latest commit but not in the lock
+export class NodeSetLockChange extends Schema.Class<NodeSetLockChange>(
+  "NodeSetLockChange",
+)({
+  slug: NodeSetSlug,
+  change: NodeSetLockChangeKind,
+  path: Schema.String,
+  fromBlobSha: Schema.optional(Schema.String),
+  toBlobSha: Schema.optional(Schema.String),
+  fromVersion: Schema.optional(Schema.String),
+  toVersion: Schema.optional(Schema.String),
+  fromPublicationDate: Schema.optional(Schema.String),
+  toPublicationDate: Schema.optional(Schema.String),
+}) {}
+
+export class NodeSetLockUpdate extends Schema.Class<NodeSetLockUpdate>(
+  "NodeSetLockUpdate",
+)({
+  repository: Schema.String,
+  ref: Schema.String,
+  lockedCommit: Schema.optional(Schema.String), // None without a lock file
+  latestCommit: Schema.String,
+  upToDate: Schema.Boolean,
+  applied: Schema.Boolean,
+  changes: Schema.Array(NodeSetLockChange),
 }) {}
 
-// Document entry for search results
+// Document entry for search results. Documents are addressed by NodeId, so ids
+// stay valid across restarts and NodeSet updates
 export interface NodeDocumentEntry {
-  readonly id: number
+  readonly id: string // NodeId in ExpandedNodeId form
   readonly nodeId: string
+  readonly source: string // Slug of the NodeSet that defines the node
+  readonly handle?: string // `slug:BrowseName`, only for types
+  readonly browsePath?: string // Shortest browse path from the Root folder
   readonly title: string
   readonly description?: string
   readonly nodeClass: NodeClass
   readonly namespace?: string
   readonly node: ParsedUANode
 }
+
+// Lexical uses the full-text index, semantic the embedding vectors, hybrid
+// fuses both rankings
+export const SearchMode = Schema.Literal("lexical", "semantic", "hybrid")
+export type SearchMode = Schema.Schema.Type<typeof SearchMode>
+
+// Progress of a NodeSet towards the graph and search index
+export const NodeSetLoadState = Schema.Literal(
+  "pending",
+  "loading",
+  "indexed",
+  "failed",
+)
+export type NodeSetLoadState = Schema.Schema.Type<typeof NodeSetLoadState>
+
+export class NodeSetStatus extends Schema.Class<NodeSetStatus>("NodeSetStatus")(
+  {
+    slug: NodeSetSlug,
+    state: NodeSetLoadState,
+    nodeCount: Schema.optional(Schema.Number),
+    durationMs: Schema.optional(Schema.Number), // Loading and indexing
+    error: Schema.optional(Schema.String),
+  },
+) {}
+
+export class ServerStatus extends Schema.Class<ServerStatus>("ServerStatus")({
+  ready: Schema.Boolean, // Startup indexing finished, tools answer
+  healthy: Schema.Boolean, // Ready, and no NodeSet failed to load
+  restoredFromSnapshot: Schema.Boolean,
+  indexedNodeSets: Schema.Number,
+  totalNodeSets: Schema.Number,
+  nodeCount: Schema.Number,
+  elapsedMs: Schema.Number, // Since startup, or startup duration once ready
+  error: Schema.optional(Schema.String), // Startup failed before any NodeSet
+  nodeSets: Schema.Array(NodeSetStatus),
+}) {}